@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AUTH_TOKEN_COOKIE } from '@/lib/auth';
+
+/**
+ * Whether the request comes from a page of this app
+ * Keeps other sites from planting their own token in the session cookie
+ */
+function isSameOrigin(request: NextRequest): boolean {
+  const origin = request.headers.get('origin');
+  const host = request.headers.get('x-forwarded-host') ?? request.headers.get('host');
+  try {
+    return origin !== null && new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Session cookie endpoint
+ * Stores the browser's access token in an HttpOnly cookie, so server-rendered pages can call
+ * the API as the signed-in user while scripts on the page cannot read it
+ */
+export async function POST(request: NextRequest) {
+  if (!isSameOrigin(request)) {
+    return NextResponse.json({ error: 'Cross-origin request' }, { status: 403 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const accessToken = body?.accessToken;
+  const expiresAt = body?.expiresAt;
+  if (typeof accessToken !== 'string' || !accessToken) {
+    return NextResponse.json({ error: 'accessToken is required' }, { status: 400 });
+  }
+
+  const response = new NextResponse(null, { status: 204 });
+  response.cookies.set(AUTH_TOKEN_COOKIE, accessToken, {
+    httpOnly: true,
+    secure: request.nextUrl.protocol === 'https:',
+    sameSite: 'lax',
+    path: '/',
+    ...(typeof expiresAt === 'number' && {
+      maxAge: Math.max(Math.floor((expiresAt - Date.now()) / 1000), 0),
+    }),
+  });
+  return response;
+}
+
+export async function DELETE(request: NextRequest) {
+  if (!isSameOrigin(request)) {
+    return NextResponse.json({ error: 'Cross-origin request' }, { status: 403 });
+  }
+
+  const response = new NextResponse(null, { status: 204 });
+  response.cookies.delete(AUTH_TOKEN_COOKIE);
+  return response;
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { logError } from '@/lib/error-handler';
+import { RuntimeConfigError } from '@/lib/runtime-config';
+import { loadServerRuntimeConfig } from '@/lib/server-runtime-config';
+
+// Read the configuration on every request, never at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * Runtime configuration endpoint
+ * Responds with the validated configuration, or 500 with one message per problem
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(await loadServerRuntimeConfig());
+  } catch (error) {
+    const errors =
+      error instanceof RuntimeConfigError
+        ? error.errors
+        : [error instanceof Error ? error.message : 'Unknown error occurred'];
+    logError(error, 'RuntimeConfig');
+    return NextResponse.json({ error: 'Invalid configuration', errors }, { status: 500 });
+  }
+}
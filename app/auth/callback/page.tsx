@@ -0,0 +1,14 @@
+import type { Metadata } from 'next';
+import { AuthCallback } from '@/components/auth-callback';
+
+export const metadata: Metadata = {
+  title: 'Signing in - System Monitor',
+};
+
+/**
+ * Auth Callback Page
+ * Redirect target of the OIDC provider; finishes the sign-in in the browser
+ */
+export default function AuthCallbackPage() {
+  return <AuthCallback />;
+}
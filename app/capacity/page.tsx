@@ -0,0 +1,26 @@
+import type { Metadata } from 'next';
+import { CAPACITY_TIME_RANGES } from '@/lib/capacity';
+import { getServerRuntimeConfig } from '@/lib/server-runtime-config';
+import { CapacityView } from '@/components/capacity-view';
+
+interface CapacityPageProps {
+  searchParams: Promise<{ range?: string }>;
+}
+
+export const metadata: Metadata = {
+  title: 'Capacity - System Monitor',
+};
+
+/**
+ * Capacity Page
+ * Fleet-wide memory, swap and disk trends, ranked by projected days to saturation
+ * History is fetched and analyzed in the browser, so the page itself only picks the range
+ */
+export default async function CapacityPage({ searchParams }: CapacityPageProps) {
+  const { range } = await searchParams;
+  const timeRange = CAPACITY_TIME_RANGES.some((option) => option.value === range)
+    ? range!
+    : (await getServerRuntimeConfig()).defaultCapacityTimeRange;
+
+  return <CapacityView initialTimeRange={timeRange} />;
+}
@@ -0,0 +1,34 @@
+import Link from 'next/link';
+import { Header } from '@/components/header';
+import { Container } from '@/components/container';
+import { ErrorDisplay } from '@/components/error-display';
+import { ErrorType } from '@/lib/error-handler';
+
+/**
+ * Client Not Found Page
+ * Rendered when the API returns 404 for /clients/[id]
+ */
+export default function ClientNotFound() {
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="py-8">
+        <Container className="space-y-4">
+          <ErrorDisplay
+            error={{
+              type: ErrorType.NOT_FOUND,
+              title: 'Client Not Found',
+              message: 'The requested client does not exist or has been removed',
+              canRetry: false,
+            }}
+          />
+          <div className="text-center">
+            <Link href="/" className="text-primary hover:text-primary/80 text-sm">
+              Back to dashboard
+            </Link>
+          </div>
+        </Container>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { cache } from 'react';
+import { ClientDetail, DynamicSystemStatus } from '@/lib/api-client';
+import { ErrorType, UserFriendlyError, handleApiError, logError } from '@/lib/error-handler';
+import { getServerApiClient } from '@/lib/server-api-client';
+import { getServerRuntimeConfig } from '@/lib/server-runtime-config';
+import { resolveTimeRange } from '@/lib/time-range';
+import { ClientDetailView } from '@/components/client-detail-view';
+
+interface ClientPageProps {
+  /**
+   * `id` is already decoded by Next; decoding again breaks IDs containing '%'
+   */
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ metric?: string; range?: string }>;
+}
+
+type DetailResult =
+  { detail: ClientDetail; error: null } | { detail: null; error: UserFriendlyError };
+
+/**
+ * Fetch a client's detail once per request (shared by metadata and page)
+ * A 404 from the API renders the not-found page
+ */
+const loadClientDetail = cache(async (clientId: string): Promise<DetailResult> => {
+  try {
+    const apiClient = await getServerApiClient();
+    return { detail: await apiClient.fetchClientDetail(clientId), error: null };
+  } catch (error) {
+    const userError = handleApiError(error);
+    if (userError.type === ErrorType.NOT_FOUND) {
+      notFound();
+    }
+    logError(error, 'ClientPage');
+    // originalError is not serializable across the server/client boundary
+    return { detail: null, error: { ...userError, originalError: undefined } };
+  }
+});
+
+export async function generateMetadata({ params }: ClientPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const { detail } = await loadClientDetail(id);
+  return {
+    title: detail ? `${detail.clientName} - System Monitor` : 'System Monitor',
+  };
+}
+
+/**
+ * Client Page
+ * Full, bookmarkable and printable detail view for one client
+ */
+export default async function ClientPage({ params, searchParams }: ClientPageProps) {
+  const { id: clientId } = await params;
+  const { metric, range } = await searchParams;
+  const timeRange = range || (await getServerRuntimeConfig()).defaultTimeRange;
+
+  const { detail, error } = await loadClientDetail(clientId);
+
+  // History is optional, the chart renders empty and refetches on the client
+  let history: DynamicSystemStatus[] = [];
+  if (detail) {
+    try {
+      const apiClient = await getServerApiClient();
+      history = await apiClient.fetchClientHistory(clientId, resolveTimeRange(timeRange));
+    } catch (historyError) {
+      logError(historyError, 'ClientPage');
+    }
+  }
+
+  return (
+    <ClientDetailView
+      clientId={clientId}
+      initialDetail={detail}
+      initialHistory={history}
+      initialMetric={metric || 'network'}
+      initialTimeRange={timeRange}
+      error={error}
+    />
+  );
+}
@@ -0,0 +1,66 @@
+import type { Metadata } from 'next';
+import { ClientDetail, DynamicSystemStatus } from '@/lib/api-client';
+import { UserFriendlyError, handleApiError, logError } from '@/lib/error-handler';
+import { MIN_COMPARE_CLIENTS, parseCompareIds } from '@/lib/compare';
+import { getServerApiClient } from '@/lib/server-api-client';
+import { getServerRuntimeConfig } from '@/lib/server-runtime-config';
+import { resolveTimeRange } from '@/lib/time-range';
+import { CompareView } from '@/components/compare-view';
+
+interface ComparePageProps {
+  searchParams: Promise<{ ids?: string; range?: string }>;
+}
+
+export const metadata: Metadata = {
+  title: 'Compare clients - System Monitor',
+};
+
+/**
+ * Compare Page
+ * Overlays the history of 2-10 clients, e.g. the replicas of one service
+ */
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+  const { ids, range } = await searchParams;
+  const clientIds = parseCompareIds(ids);
+  const timeRange = range || (await getServerRuntimeConfig()).defaultTimeRange;
+  const { startTime, endTime } = resolveTimeRange(timeRange);
+
+  let details: ClientDetail[] = [];
+  let histories: DynamicSystemStatus[][] = clientIds.map(() => []);
+  let error: UserFriendlyError | null = null;
+
+  if (clientIds.length >= MIN_COMPARE_CLIENTS) {
+    const apiClient = await getServerApiClient();
+    const [detailResult, ...historyResults] = await Promise.allSettled([
+      apiClient.fetchClientDetails(clientIds),
+      ...clientIds.map((id) => apiClient.fetchClientHistory(id, { startTime, endTime })),
+    ]);
+
+    if (detailResult.status === 'fulfilled') {
+      details = detailResult.value as ClientDetail[];
+    }
+    histories = historyResults.map((result) =>
+      result.status === 'fulfilled' ? (result.value as DynamicSystemStatus[]) : []
+    );
+
+    const failed = [detailResult, ...historyResults].find(
+      (result): result is PromiseRejectedResult => result.status === 'rejected'
+    );
+    if (failed) {
+      logError(failed.reason, 'ComparePage');
+      // originalError is not serializable across the server/client boundary
+      error = { ...handleApiError(failed.reason), originalError: undefined };
+    }
+  }
+
+  return (
+    <CompareView
+      clientIds={clientIds}
+      initialDetails={details}
+      initialHistories={histories}
+      initialWindow={{ startTime, endTime }}
+      initialTimeRange={timeRange}
+      error={error}
+    />
+  );
+}
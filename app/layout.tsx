@@ -2,8 +2,14 @@ import type { Metadata } from 'next'
 import './globals.css'
 import { ThemeProvider } from '@/components/theme-provider'
 import { FaviconManager } from '@/components/favicon-manager'
+import { RuntimeConfigProvider } from '@/components/runtime-config-provider'
+import { RuntimeConfig, describeRuntimeConfigError } from '@/lib/runtime-config'
+import { loadServerRuntimeConfig } from '@/lib/server-runtime-config'
 import React from 'react';
 
+// Read the configuration on every request, never at build time
+export const dynamic = 'force-dynamic'
+
 export const metadata: Metadata = {
   title: 'System Monitor',
   description: 'Real-time system monitoring dashboard',
@@ -14,11 +20,19 @@ export const metadata: Metadata = {
   },
 }
 
-export default function RootLayout({
+export default async function RootLayout({
                                      children,
                                    }: {
   children: React.ReactNode
 }) {
+  let config: RuntimeConfig | null = null
+  let configErrors: string[] | undefined
+  try {
+    config = await loadServerRuntimeConfig()
+  } catch (error) {
+    configErrors = describeRuntimeConfigError(error)
+  }
+
   return (
     <html lang="en" suppressHydrationWarning>
     <head>
@@ -50,7 +64,9 @@ export default function RootLayout({
     <body>
     <ThemeProvider defaultTheme="system" storageKey="system-monitor-theme">
       <FaviconManager />
-      {children}
+      <RuntimeConfigProvider initialConfig={config} initialErrors={configErrors}>
+        {children}
+      </RuntimeConfigProvider>
     </ThemeProvider>
     </body>
     </html>
@@ -1,57 +1,60 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Suspense, useState, useEffect, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { fadeVariants, fastTransition, slideVariants, smoothTransition } from '@/lib/animation-config';
+import { fadeVariants, fastTransition, smoothTransition } from '@/lib/animation-config';
 import { Header } from '@/components/header';
 import { Container } from '@/components/container';
 import { TagFilter } from '@/components/tag-filter';
+import { SearchBox } from '@/components/search-box';
+import { SortControls } from '@/components/sort-controls';
 import { GroupView } from '@/components/group-view';
 import { ErrorDisplay } from '@/components/error-display';
 import { VirtualizedGrid } from '@/components/virtualized-grid';
-import { useClientDetail, useClientHistory } from '@/lib/use-api';
+import { ClientTable } from '@/components/client-table';
+import { CompareBar } from '@/components/compare-bar';
+import { ExportMenu } from '@/components/export-menu';
+import { FleetSummary } from '@/components/fleet-summary';
+import { FleetHeatmap } from '@/components/fleet-heatmap';
+import { BackendHealth } from '@/components/backend-health';
+import { useClientDetail, useClientDetails, useClientHistory } from '@/lib/use-api';
 import { useIncrementalClients } from '@/lib/use-incremental-clients';
-import { ClientSummary, ClientDetail, apiClient } from '@/lib/api-client';
-import { Loader2, Layers, Grid3x3, RefreshCw, X, Clock } from 'lucide-react';
+import { useAlerts } from '@/lib/use-alerts';
+import { getClientPageHref, useDashboardUrlState } from '@/lib/use-dashboard-url-state';
+import { TIME_RANGE_OPTIONS, isRelativeTimeRange, resolveTimeRange } from '@/lib/time-range';
+import { buildSuggestionSource, filterClientsByQuery } from '@/lib/client-query';
+import { sortClients } from '@/lib/client-sort';
+import { useNotifications } from '@/lib/use-notifications';
+import { useOfflineDetection } from '@/lib/use-offline-detection';
+import { useBackendHealth } from '@/lib/use-backend-health';
+import { useSchemaDrift } from '@/lib/use-schema-drift';
+import { applyOfflineDetection } from '@/lib/offline-detection';
+import { setUnhealthyCount } from '@/lib/favicon-badge';
+import { loadRecentSamples, recordSamples, retainSamples } from '@/lib/sample-buffer';
+import { ExportSeries, getExportBaseName } from '@/lib/export';
+import { ClientDetail, ClientSummary, apiClient } from '@/lib/api-client';
+import { queryCache } from '@/lib/query-cache';
+import { isFederated } from '@/lib/backends';
+import Link from 'next/link';
+import {
+  Loader2,
+  Layers,
+  Grid3x3,
+  List,
+  LayoutGrid,
+  RefreshCw,
+  TrendingUp,
+  X,
+  Maximize2,
+  Server,
+} from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { MetricModule } from '@/components/metric-module';
-import { HistoryChart } from '@/components/history-chart';
-import { MultiDiskDetail } from '@/components/multi-disk-detail';
-import { TimeRangeSelector } from '@/components/time-range-selector';
-
-/**
- * View mode type
- */
-type ViewMode = 'grid' | 'group-tags' | 'group-purpose' | 'group-platform';
-
-/**
- * Offline detection timeout (5 minutes)
- */
-const OFFLINE_TIMEOUT_MS = 5 * 60 * 1000;
-
-/**
- * Auto-refresh interval (30 seconds)
- */
-const AUTO_REFRESH_INTERVAL_MS = 30 * 1000;
-
-/**
- * Check if client is offline based on last update time
- * Requirements: 5.5
- */
-function isClientOffline(lastUpdate: number): boolean {
-  const now = Date.now();
-  return now - lastUpdate > OFFLINE_TIMEOUT_MS;
-}
-
-/**
- * Apply offline status detection to clients
- */
-function applyOfflineDetection(clients: ClientSummary[]): ClientSummary[] {
-  return clients.map((client) => ({
-    ...client,
-    status: isClientOffline(client.lastUpdate) ? 'offline' : 'online',
-  }));
-}
+import { ClientDetailPanel } from '@/components/client-detail-panel';
+import { useRuntimeConfig } from '@/components/runtime-config-provider';
+import { AlertCenter } from '@/components/alert-center';
+import { SchemaDriftPanel } from '@/components/schema-drift-panel';
+import { NotificationSettings } from '@/components/notification-settings';
+import { OfflineDetectionSettings } from '@/components/offline-detection-settings';
 
 /**
  * Modal animation variants
@@ -106,47 +109,85 @@ function extractAllTags(clients: ClientSummary[]): string[] {
 
 /**
  * Dashboard Page Component
- * Main monitoring dashboard with auto-refresh and offline detection
+ * useSearchParams needs a Suspense boundary for static rendering
  */
 export default function DashboardPage() {
+  return (
+    <Suspense fallback={null}>
+      <Dashboard />
+    </Suspense>
+  );
+}
+
+/**
+ * Dashboard
+ * Main monitoring dashboard with auto-refresh and offline detection
+ */
+function Dashboard() {
   // API hooks with incremental updates
   const {
     data: clients,
+    liveStatus,
     loading,
     error,
     fetchClients,
     retry,
-  } = useIncrementalClients();
+    streamState,
+  } = useIncrementalClients({ live: true });
   const { data: selectedClientDetail, fetchDetail } = useClientDetail();
   const { data: clientHistory, fetchHistory } = useClientHistory();
+  // Polling interval and branding from the runtime configuration
+  const { refreshIntervalSeconds, branding } = useRuntimeConfig();
+  // Reachability of each backend when several are federated
+  const backendHealth = useBackendHealth();
+  const schemaDrift = useSchemaDrift();
+
+  // UI state synced to the URL so refreshes and shared links keep it
+  const {
+    viewMode,
+    selectedTags,
+    searchQuery,
+    sort,
+    expandedClientId,
+    expandedMetric,
+    timeRange,
+    heatmapMetric,
+    heatmapGroupBy,
+    setViewMode,
+    setSelectedTags,
+    setSearchQuery,
+    setSort,
+    setExpandedMetric,
+    setTimeRange,
+    setHeatmapMetric,
+    setHeatmapGroupBy,
+    openClient,
+    closeClient,
+  } = useDashboardUrlState();
 
   // UI state
-  const [viewMode, setViewMode] = useState<ViewMode>('grid');
-  const [selectedTags, setSelectedTags] = useState<string[]>([]);
-  const [expandedClientId, setExpandedClientId] = useState<string | null>(null);
-  const [expandedMetric, setExpandedMetric] = useState<string | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [clientDetailsMap, setClientDetailsMap] = useState<Map<string, ClientDetail>>(new Map());
-  const [timeRange, setTimeRange] = useState<string>('1h');
-  const [availableTimeRanges, setAvailableTimeRanges] = useState<Array<{ value: string; label: string }>>([
-    { value: '1h', label: '1小时' },
-    { value: '4h', label: '4小时' },
-    { value: '8h', label: '8小时' },
-    { value: '12h', label: '12小时' },
-    { value: '24h', label: '24小时' },
-    { value: '7days', label: '7天' },
-    { value: '30days', label: '30天' }
-  ]);
-  
-  // Track pending requests to avoid duplicate requests
-  const pendingRequestsRef = useRef<Set<string>>(new Set());
-  const prefetchTimeoutRef = useRef<number | null>(null);
+
+  // Stale/offline thresholds, re-evaluated on a tick
+  const {
+    settings: offlineDetection,
+    now: detectionNow,
+    updateDefaults: updateOfflineDetection,
+    setTagOverride: setTagDetectionOverride,
+    setClientOverride: setClientDetectionOverride,
+    resetSettings: resetOfflineDetection,
+  } = useOfflineDetection();
 
   // Apply offline detection and tag filtering - memoized to prevent unnecessary recalculations
-  const processedClients = useMemo(() => {
+  const detectedClients = useMemo(() => {
     if (!clients) return [];
-    return filterClientsByTags(applyOfflineDetection(clients), selectedTags);
-  }, [clients, selectedTags]);
+    return applyOfflineDetection(clients, offlineDetection, detectionNow);
+  }, [clients, offlineDetection, detectionNow]);
+
+  const processedClients = useMemo(
+    () => filterClientsByTags(detectedClients, selectedTags),
+    [detectedClients, selectedTags]
+  );
 
   // Extract all available tags - memoized
   const allTags = useMemo(() => {
@@ -159,20 +200,23 @@ export default function DashboardPage() {
     fetchClients();
   }, [fetchClients]);
 
-  // Auto-refresh functionality
+  // Auto-refresh functionality, falls back to polling while the stream is down
   // Requirements: 5.3
   useEffect(() => {
+    if (streamState === 'open') return;
+
     const intervalId = setInterval(() => {
       fetchClients();
-    }, AUTO_REFRESH_INTERVAL_MS);
+    }, refreshIntervalSeconds * 1000);
 
     return () => clearInterval(intervalId);
-  }, [fetchClients]);
+  }, [fetchClients, streamState, refreshIntervalSeconds]);
 
-  // Manual refresh handler
+  // Manual refresh handler - cached details and history are revalidated too
   const handleRefresh = useCallback(async () => {
     setIsRefreshing(true);
     try {
+      queryCache.invalidate();
       await fetchClients();
     } finally {
       // Keep spinner visible for at least 500ms for better UX
@@ -180,140 +224,62 @@ export default function DashboardPage() {
     }
   }, [fetchClients]);
 
-  // Calculate start time based on selected time range
-  const calculateStartTime = (range: string): number => {
-    const endTime = Date.now();
-    switch (range) {
-      case '1h':
-        return endTime - 1 * 60 * 60 * 1000;
-      case '4h':
-        return endTime - 4 * 60 * 60 * 1000;
-      case '8h':
-        return endTime - 8 * 60 * 60 * 1000;
-      case '12h':
-        return endTime - 12 * 60 * 60 * 1000;
-      case '24h':
-        return endTime - 24 * 60 * 60 * 1000;
-      case '7days':
-        return endTime - 7 * 24 * 60 * 60 * 1000;
-      case '30days':
-        return endTime - 30 * 24 * 60 * 60 * 1000;
-      default:
-        return endTime - 1 * 60 * 60 * 1000;
-    }
-  };
-
-  // Handle client card click - open detail modal
+  // Open client detail modal - detail and history are loaded by the effects below
   const handleClientClick = useCallback(
-    async (clientId: string) => {
-      // Always open the modal
-      setExpandedClientId(clientId);
-      setExpandedMetric('network'); // Default to network chart
-
-      // Fetch client detail if not in cache
-      const cachedDetail = clientDetailsMap.get(clientId);
-      if (!cachedDetail) {
-        const detail = await fetchDetail(clientId);
-        if (detail) {
-          setClientDetailsMap((prev: Map<string, ClientDetail>) => {
-            const next = new Map(prev);
-            next.set(clientId, detail);
-            return next;
-          });
-        }
-      }
-
-      // Fetch history based on selected time range
-      const endTime = Date.now();
-      const startTime = calculateStartTime(timeRange);
-      await fetchHistory(clientId, { startTime, endTime });
+    (clientId: string) => {
+      openClient(clientId);
     },
-    [fetchDetail, fetchHistory, clientDetailsMap, timeRange]
+    [openClient]
   );
 
-  // Refresh history when time range changes
+  // Fetch detail for the open client (also covers shared links)
+  // A detail from the batch prefetch is reused from the cache
+  useEffect(() => {
+    if (!expandedClientId) return;
+
+    fetchDetail(expandedClientId).catch(() => {
+      // Error state is tracked by useClientDetail
+    });
+  }, [expandedClientId, fetchDetail]);
+
+  // Fetch history based on selected time range
+  useEffect(() => {
+    if (!expandedClientId) return;
+
+    fetchHistory(expandedClientId, resolveTimeRange(timeRange), {
+      relative: isRelativeTimeRange(timeRange),
+    }).catch(() => {
+      // Error state is tracked by useClientHistory
+    });
+  }, [expandedClientId, timeRange, fetchHistory]);
+
+  // Change time range - the history effect refetches
   const handleTimeRangeChange = useCallback(
-    async (newRange: string) => {
+    (newRange: string) => {
       setTimeRange(newRange);
-      if (expandedClientId) {
-        const endTime = Date.now();
-        const startTime = calculateStartTime(newRange);
-        await fetchHistory(expandedClientId, { startTime, endTime });
-      }
     },
-    [expandedClientId, fetchHistory, calculateStartTime]
+    [setTimeRange]
   );
 
   // Handle metric module click
-  const handleMetricClick = useCallback((metricType: string) => {
-    setExpandedMetric(metricType);
-  }, []);
+  const handleMetricClick = useCallback(
+    (metricType: string) => {
+      setExpandedMetric(metricType);
+    },
+    [setExpandedMetric]
+  );
 
   // Close expanded detail
   const handleCloseDetail = useCallback(() => {
-    setExpandedClientId(null);
-    setExpandedMetric(null);
-  }, []);
-
-  // Prefetch client details for all visible clients
-  useEffect(() => {
-    if (!processedClients || processedClients.length === 0) return;
-
-    const missing = processedClients.filter(
-      (c: ClientSummary) => !clientDetailsMap.has(c.clientId) && !pendingRequestsRef.current.has(c.clientId)
-    );
+    closeClient();
+  }, [closeClient]);
 
-    if (missing.length === 0) return;
-
-    if (prefetchTimeoutRef.current !== null) {
-      clearTimeout(prefetchTimeoutRef.current);
-    }
-
-    // Immediate fetch for initial load
-    const isInitialLoad = clientDetailsMap.size === 0;
-    const delay = isInitialLoad ? 100 : 500;
-    
-    prefetchTimeoutRef.current = window.setTimeout(() => {
-      const stillMissing = processedClients.filter(
-        (c: ClientSummary) => !clientDetailsMap.has(c.clientId) && !pendingRequestsRef.current.has(c.clientId)
-      );
-
-      if (stillMissing.length === 0) return;
-      
-      // Fetch more aggressively on initial load
-      const batchSize = isInitialLoad ? 10 : 5;
-      const toFetch = stillMissing.slice(0, batchSize);
-
-      toFetch.forEach((client: ClientSummary) => {
-        pendingRequestsRef.current.add(client.clientId);
-
-        apiClient
-          .fetchClientDetail(client.clientId)
-          .then((detail) => {
-            if (detail) {
-              setClientDetailsMap((prev: Map<string, ClientDetail>) => {
-                if (prev.has(client.clientId)) return prev;
-                const next = new Map(prev);
-                next.set(client.clientId, detail);
-                return next;
-              });
-            }
-          })
-          .catch(() => {
-            // Silently fail for prefetch
-          })
-          .finally(() => {
-            pendingRequestsRef.current.delete(client.clientId);
-          });
-      });
-    }, delay);
-
-    return () => {
-      if (prefetchTimeoutRef.current !== null) {
-        clearTimeout(prefetchTimeoutRef.current);
-      }
-    };
-  }, [processedClients, clientDetailsMap]);
+  // Details of all visible clients, prefetched in batches through the shared cache
+  const visibleClientIds = useMemo(
+    () => processedClients.map((c: ClientSummary) => c.clientId),
+    [processedClients]
+  );
+  const clientDetailsMap = useClientDetails(visibleClientIds);
 
   // Lock body scroll when modal is open
   useEffect(() => {
@@ -328,29 +294,210 @@ export default function DashboardPage() {
     };
   }, [expandedClientId]);
 
+  // The open client's full history is used by "for" rules instead of its recent samples
+  const alertHistory = useMemo(
+    () =>
+      expandedClientId && clientHistory ? new Map([[expandedClientId, clientHistory]]) : undefined,
+    [expandedClientId, clientHistory]
+  );
+
   // Get group by value based on view mode
-  const getGroupBy = (): 'tags' | 'purpose' | 'platform' => {
+  const getGroupBy = (): 'tags' | 'purpose' | 'platform' | 'backend' => {
     if (viewMode === 'group-tags') return 'tags';
     if (viewMode === 'group-purpose') return 'purpose';
     if (viewMode === 'group-platform') return 'platform';
+    if (viewMode === 'group-backend') return 'backend';
     return 'tags';
   };
 
+  // Live stream deltas are kept per client and layered over its detail status as soon as the
+  // detail arrives; deltas older than a refetched detail are ignored
+  const withDetail = useCallback(
+    (c: ClientSummary): ClientSummary | ClientDetail => {
+      const detail = clientDetailsMap.get(c.clientId);
+      if (!detail) return c;
+
+      // Status and lastUpdate come from the summary, which has offline detection applied
+      const merged = { ...detail, status: c.status, lastUpdate: c.lastUpdate };
+      const status = liveStatus.get(c.clientId);
+      if (!status) return merged;
+      if (status.timestamp !== undefined && status.timestamp < detail.currentStatus.timestamp) {
+        return merged;
+      }
+
+      return { ...merged, currentStatus: { ...detail.currentStatus, ...status } };
+    },
+    [clientDetailsMap, liveStatus]
+  );
+
   // Memoize clients with details to prevent unnecessary re-renders
   const clientsWithDetails = useMemo(
-    () => processedClients.map((c: ClientSummary) => clientDetailsMap.get(c.clientId) || c),
-    [processedClients, clientDetailsMap]
+    () => processedClients.map(withDetail),
+    [processedClients, withDetail]
+  );
+
+  // Alerts cover the whole fleet, so a tag filter neither hides nor resolves them
+  const alertClients = useMemo(
+    () => detectedClients.map(withDetail),
+    [detectedClients, withDetail]
+  );
+
+  // Keep a rolling window of samples for sparklines and card charts,
+  // backfilled from the backend so charts are not empty after a reload
+  useEffect(() => {
+    recordSamples(clientsWithDetails);
+  }, [clientsWithDetails]);
+
+  useEffect(() => {
+    if (clients) {
+      const clientIds = clients.map((c) => c.clientId);
+      retainSamples(clientIds);
+      loadRecentSamples(clientIds);
+    }
+  }, [clients]);
+
+  // Search query applied on top of the tag filter; uses details for location and metrics
+  // Sorted before grouping so each group section keeps the same order
+  const visibleClients = useMemo(
+    () => sortClients(filterClientsByQuery(clientsWithDetails, searchQuery), sort),
+    [clientsWithDetails, searchQuery, sort]
   );
 
+  const isFiltered = selectedTags.length > 0 || searchQuery.trim() !== '';
+
+  // Export history of the clients currently shown, for the selected time range
+  // Fails when any client's history is missing rather than exporting a partial fleet
+  const loadExportSeries = useCallback(async (): Promise<ExportSeries[]> => {
+    const histories = await apiClient.fetchClientHistories(
+      visibleClients.map((c) => c.clientId),
+      resolveTimeRange(timeRange)
+    );
+    const missing = visibleClients.filter((c) => !histories[c.clientId]).length;
+    if (missing > 0) {
+      throw new Error(
+        `History of ${missing} of ${visibleClients.length} clients could not be loaded`
+      );
+    }
+    return visibleClients.map((c) => ({
+      clientId: c.clientId,
+      clientName: c.clientName || c.hostname || c.clientId,
+      history: histories[c.clientId],
+    }));
+  }, [visibleClients, timeRange]);
+
+  // Autocomplete values for the search box
+  const suggestionSource = useMemo(
+    () => buildSuggestionSource(clientsWithDetails),
+    [clientsWithDetails]
+  );
+
+  // Alert rules evaluated against every client
+  const {
+    rules: alertRules,
+    alerts,
+    firingCounts,
+    addRule,
+    toggleRule,
+    removeRule,
+    importRules,
+    exportRules,
+  } = useAlerts(alertClients, alertHistory);
+
+  // Desktop notifications for offline transitions and new alerts
+  const {
+    settings: notificationSettings,
+    permission: notificationPermission,
+    updateSettings: updateNotificationSettings,
+    requestPermission: requestNotificationPermission,
+  } = useNotifications(clientsWithDetails, alerts, alertRules);
+
+  // Publish unhealthy client count (offline or with firing alerts) for the favicon badge
+  useEffect(() => {
+    const unhealthy = clientsWithDetails.filter(
+      (c: ClientSummary) => c.status === 'offline' || firingCounts.has(c.clientId)
+    ).length;
+    setUnhealthyCount(unhealthy);
+  }, [clientsWithDetails, firingCounts]);
+
+  useEffect(() => {
+    return () => setUnhealthyCount(0);
+  }, []);
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header with Logo and Theme Toggle */}
-      <Header title="System Status" />
+      <Header
+        title={branding.title}
+        actions={
+          <>
+            <SchemaDriftPanel entries={schemaDrift.entries} onClear={schemaDrift.clear} />
+            <Link
+              href="/capacity"
+              className="rounded-lg p-2 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+              aria-label="Capacity forecast"
+              title="Capacity forecast"
+            >
+              <TrendingUp className="h-5 w-5" />
+            </Link>
+            <OfflineDetectionSettings
+              settings={offlineDetection}
+              tags={allTags}
+              clients={clients ?? []}
+              onDefaultsChange={updateOfflineDetection}
+              onTagOverrideChange={setTagDetectionOverride}
+              onClientOverrideChange={setClientDetectionOverride}
+              onReset={resetOfflineDetection}
+            />
+            <NotificationSettings
+              settings={notificationSettings}
+              permission={notificationPermission}
+              onChange={updateNotificationSettings}
+              onRequestPermission={requestNotificationPermission}
+            />
+            <AlertCenter
+              rules={alertRules}
+              alerts={alerts}
+              onAddRule={addRule}
+              onToggleRule={toggleRule}
+              onRemoveRule={removeRule}
+              onImportRules={importRules}
+              onExportRules={exportRules}
+            />
+          </>
+        }
+      />
 
       <main className="py-6">
         <Container>
           {/* Control Bar: Tag Filter, View Mode, Refresh */}
           <div className="mb-6 space-y-4">
+            {/* Per-backend health; a backend toggles its search term */}
+            {backendHealth.length > 0 && (
+              <BackendHealth
+                health={backendHealth}
+                query={searchQuery}
+                onQueryChange={setSearchQuery}
+              />
+            )}
+
+            {/* Fleet summary; segments toggle search terms */}
+            {clientsWithDetails.length > 0 && (
+              <FleetSummary
+                clients={clientsWithDetails}
+                query={searchQuery}
+                onQueryChange={setSearchQuery}
+                onClientClick={handleClientClick}
+              />
+            )}
+
+            {/* Search */}
+            <SearchBox
+              query={searchQuery}
+              onQueryChange={setSearchQuery}
+              suggestionSource={suggestionSource}
+              resultCount={visibleClients.length}
+            />
+
             {/* Tag Filter */}
             {allTags.length > 0 && (
               <TagFilter tags={allTags} selectedTags={selectedTags} onTagSelect={setSelectedTags} />
@@ -374,6 +521,20 @@ export default function DashboardPage() {
                   Grid view
                 </button>
 
+                <button
+                  onClick={() => setViewMode('table')}
+                  className={cn(
+                    'inline-flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium',
+                    'border transition-all duration-200',
+                    viewMode === 'table'
+                      ? 'bg-primary text-white border-primary'
+                      : 'bg-card text-foreground border-border hover:border-primary/50'
+                  )}
+                >
+                  <List className="w-4 h-4" />
+                  Table view
+                </button>
+
                 <button
                   onClick={() => setViewMode('group-tags')}
                   className={cn(
@@ -415,22 +576,65 @@ export default function DashboardPage() {
                   <Layers className="w-4 h-4" />
                   Grouped by platform
                 </button>
-              </div>
 
-              {/* Refresh Button */}
-              <button
-                onClick={handleRefresh}
-                disabled={isRefreshing}
-                className={cn(
-                  'inline-flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium',
-                  'bg-card text-foreground border border-border',
-                  'hover:bg-card-hover transition-all duration-200',
-                  'disabled:opacity-50 disabled:cursor-not-allowed'
+                {isFederated() && (
+                  <button
+                    onClick={() => setViewMode('group-backend')}
+                    className={cn(
+                      'inline-flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium',
+                      'border transition-all duration-200',
+                      viewMode === 'group-backend'
+                        ? 'bg-primary text-white border-primary'
+                        : 'bg-card text-foreground border-border hover:border-primary/50'
+                    )}
+                  >
+                    <Server className="w-4 h-4" />
+                    Group by backend
+                  </button>
                 )}
-              >
-                <RefreshCw className={cn('w-4 h-4', isRefreshing && 'animate-spin')} />
-                Refresh
-              </button>
+
+                <button
+                  onClick={() => setViewMode('heatmap')}
+                  className={cn(
+                    'inline-flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium',
+                    'border transition-all duration-200',
+                    viewMode === 'heatmap'
+                      ? 'bg-primary text-white border-primary'
+                      : 'bg-card text-foreground border-border hover:border-primary/50'
+                  )}
+                >
+                  <LayoutGrid className="w-4 h-4" />
+                  Heatmap
+                </button>
+              </div>
+
+              <div className="flex items-center gap-2 flex-wrap">
+                <SortControls sort={sort} onSortChange={setSort} />
+
+                <ExportMenu
+                  label="Export"
+                  baseName={getExportBaseName(
+                    isFiltered ? 'filtered-clients' : 'all-clients',
+                    timeRange
+                  )}
+                  loadSeries={loadExportSeries}
+                />
+
+                {/* Refresh Button */}
+                <button
+                  onClick={handleRefresh}
+                  disabled={isRefreshing}
+                  className={cn(
+                    'inline-flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium',
+                    'bg-card text-foreground border border-border',
+                    'hover:bg-card-hover transition-all duration-200',
+                    'disabled:opacity-50 disabled:cursor-not-allowed'
+                  )}
+                >
+                  <RefreshCw className={cn('w-4 h-4', isRefreshing && 'animate-spin')} />
+                  Refresh
+                </button>
+              </div>
             </div>
           </div>
 
@@ -452,32 +656,55 @@ export default function DashboardPage() {
           )}
 
           {/* Client List */}
-          {!loading && processedClients && processedClients.length > 0 && (
+          {!loading && visibleClients.length > 0 && (
             <>
               {viewMode === 'grid' ? (
                 <VirtualizedGrid
-                  clients={clientsWithDetails}
+                  clients={visibleClients}
+                  onClientClick={handleClientClick}
+                  alertCounts={firingCounts}
+                  activeClientId={expandedClientId}
+                />
+              ) : viewMode === 'table' ? (
+                <ClientTable
+                  clients={visibleClients}
+                  onClientClick={handleClientClick}
+                  alertCounts={firingCounts}
+                  sort={sort}
+                  onSortChange={setSort}
+                />
+              ) : viewMode === 'heatmap' ? (
+                <FleetHeatmap
+                  clients={visibleClients}
+                  metric={heatmapMetric}
+                  onMetricChange={setHeatmapMetric}
+                  groupBy={heatmapGroupBy}
+                  onGroupByChange={setHeatmapGroupBy}
                   onClientClick={handleClientClick}
                 />
               ) : (
                 <GroupView
-                  clients={clientsWithDetails}
+                  clients={visibleClients}
                   groupBy={getGroupBy()}
                   onClientClick={handleClientClick}
+                  alertCounts={firingCounts}
                 />
               )}
             </>
           )}
 
           {/* Empty State */}
-          {!loading && processedClients && processedClients.length === 0 && (
+          {!loading && visibleClients.length === 0 && (
             <div className="text-center py-20">
               <p className="text-foreground-secondary text-lg mb-2">
-                {selectedTags.length > 0 ? 'There are no matching clients' : 'No client data at the moment'}
+                {isFiltered ? 'There are no matching clients' : 'No client data at the moment'}
               </p>
-              {selectedTags.length > 0 && (
+              {isFiltered && (
                 <button
-                  onClick={() => setSelectedTags([])}
+                  onClick={() => {
+                    setSelectedTags([]);
+                    setSearchQuery('');
+                  }}
                   className="text-primary hover:text-primary/80 text-sm"
                 >
                   Clear the filter
@@ -489,9 +716,15 @@ export default function DashboardPage() {
         </Container>
       </main>
 
+      {/* Comparison selection */}
+      <CompareBar clients={clients ?? []} timeRange={timeRange} />
+
       <AnimatePresence mode="wait">
         {expandedClientId && (() => {
-          const detail = selectedClientDetail || clientDetailsMap.get(expandedClientId);
+          const detail =
+            selectedClientDetail?.clientId === expandedClientId
+              ? selectedClientDetail
+              : clientDetailsMap.get(expandedClientId);
           if (!detail) return null;
           return (
             <>
@@ -512,159 +745,34 @@ export default function DashboardPage() {
                   className="w-full max-w-6xl max-h-[90vh] overflow-y-auto rounded-xl border border-border bg-card shadow-2xl"
                   onClick={(e) => e.stopPropagation()}
                 >
-                  <div className="p-6 tablet:p-8">
-                    {/* Detail Header */}
-                    <div className="flex items-start justify-between mb-6 gap-4">
-                      <div className="space-y-1">
-                        <h2 className="text-2xl font-bold">{'hostname' in detail ? detail.hostname : 'unnamed client'}</h2>
-                        <p className="text-foreground-secondary">
-                          {'platform' in detail ? detail.platform : 'unknown platform'}
-                          {'clientPurpose' in detail && detail.clientPurpose ? ` • ${detail.clientPurpose}` : 'unknown purpose'}
-                        </p>
-                        {'staticInfo' in detail && detail.staticInfo.location && (
-                          <p className="text-sm text-foreground-secondary">
-                            {detail.staticInfo.location}
-                          </p>
-                        )}
-                      </div>
-
-                      <button
-                        onClick={handleCloseDetail}
-                        className="p-2 rounded-md hover:bg-background-secondary transition-colors"
-                      >
-                        <X className="w-5 h-5" />
-                      </button>
-                    </div>
-
-                    {/* Detailed System Info */}
-                    <div className="grid grid-cols-1 tablet:grid-cols-2 desktop:grid-cols-4 gap-4 mb-6">
-                      <div className="space-y-1">
-                        <p className="text-sm text-foreground-secondary">CPU</p>
-                        <p className="font-medium">{'staticInfo' in detail ? detail.staticInfo.cpuModel : 'unknown cpu model'}</p>
-                        <p className="text-xs text-foreground-secondary">
-                          {'staticInfo' in detail ? detail.staticInfo.cpuCores : 'unknown cpu cores'} C •{' '}
-                          {'staticInfo' in detail ? detail.staticInfo.cpuArch : 'unknown cpu arch'}
-                        </p>
-                      </div>
-
-                      <div className="space-y-1">
-                        <p className="text-sm text-foreground-secondary">System</p>
-                        <p className="font-medium">{'staticInfo' in detail ? detail.staticInfo.systemVersion : 'unknown system version'}</p>
-                        <p className="text-xs text-foreground-secondary">
-                          {'staticInfo' in detail ? detail.staticInfo.systemModel : 'unknown system model'}
-                        </p>
-                      </div>
-
-                      <div className="space-y-1">
-                        <p className="text-sm text-foreground-secondary">Memory</p>
-                        <p className="font-medium">
-                          {('staticInfo' in detail ? (detail.staticInfo.totalMemory / 1024 ** 3).toFixed(1) : 'unknown memory')} GB
-                        </p>
-                        <p className="text-xs text-foreground-secondary">
-                          {'staticInfo' in detail ? `Swap: ${(detail.staticInfo.totalSwap / 1024 ** 3).toFixed(1)} GB` : 'unknown swap'}
-                        </p>
-                      </div>
-
-                      <div className="space-y-1">
-                        <p className="text-sm text-foreground-secondary">Disk</p>
-                        <p className="font-medium">
-                          {'staticInfo' in detail ? (detail.staticInfo.totalDisk / 1024 ** 3).toFixed(1) : 'unknown disk'} GB
-                        </p>
-                        <p className="text-xs text-foreground-secondary">
-                          {'staticInfo' in detail && detail.staticInfo.disks ? 
-                            `${detail.staticInfo.disks.length} disk(s)` : 
-                            'unknown disk count'
-                          }
-                        </p>
-                      </div>
-                    </div>
-
-                    {/* Metric Modules */}
-                    <div className="grid grid-cols-1 tablet:grid-cols-2 desktop:grid-cols-5 gap-4 mb-6">
-                      <MetricModule
-                        type="cpu"
-                        value={('currentStatus' in detail ? detail.currentStatus.cpuUsage : 'unknown cpu usage') as number}
-                        onExpand={() => handleMetricClick('cpu')}
-                        expanded={expandedMetric === 'cpu'}
-                      />
-
-                      <MetricModule
-                        type="memory"
-                        value={('currentStatus' in detail ? detail.currentStatus.memoryUsage : 'unknown memory usage') as number}
-                        onExpand={() => handleMetricClick('memory')}
-                        expanded={expandedMetric === 'memory'}
-                      />
-
-                      <MetricModule
-                        type="disk"
-                        value={('currentStatus' in detail ? detail.currentStatus.diskUsage : 'unknown disk usage') as number}
-                        onExpand={() => handleMetricClick('disk')}
-                        expanded={expandedMetric === 'disk'}
-                      />
-
-                      <MetricModule
-                        type="network"
-                        value={('currentStatus' in detail ? detail.currentStatus.networkUpload : 'unknown upload rate') as number}
-                        secondaryValue={('currentStatus' in detail ? detail.currentStatus.networkDownload : 'unknown download rate') as number}
-                        onExpand={() => handleMetricClick('network')}
-                        expanded={expandedMetric === 'network'}
-                      />
-
-                      <MetricModule
-                        type="swap"
-                        value={('currentStatus' in detail ? detail.currentStatus.swapUsage : 'unknown swap usage') as number}
-                        onExpand={() => handleMetricClick('swap')}
-                        expanded={expandedMetric === 'swap'}
-                      />
-                    </div>
-
-                    {/* History Chart */}
-                    {expandedMetric && (
-                      <motion.div
-                        key={`${expandedClientId}-${expandedMetric}`}
-                        className="w-full"
-                        initial="hidden"
-                        animate="visible"
-                        exit="exit"
-                        variants={slideVariants}
-                        transition={smoothTransition}
-                        style={{
-                          willChange: 'transform, opacity',
-                        }}
-                      >
-                        {/* Time Range Selector */}
-                        <div className="flex items-center justify-end mb-4">
-                          <label className="text-sm text-foreground-secondary mr-2 flex items-center gap-1">
-                            <Clock className="w-4 h-4" />
-                          </label>
-                          <div className="relative min-w-[120px]">
-                            {/* Dropdown state management */}
-                            <TimeRangeSelector
-                              availableTimeRanges={availableTimeRanges}
-                              selectedRange={timeRange}
-                              onRangeChange={handleTimeRangeChange}
-                              clientId={expandedClientId}
-                            />
-                          </div>
-                        </div>
-                        
-                        {expandedMetric === 'disk' ? (
-                          <MultiDiskDetail
-                            disks={'staticInfo' in detail ? detail.staticInfo.disks || [] : []}
-                            diskUsages={'currentStatus' in detail ? detail.currentStatus.diskUsages || [] : []}
-                          />
-                        ) : (
-                          // Always render HistoryChart, even with empty data
-                          // This maintains stable layout and allows interactions
-                          <HistoryChart 
-                            type={expandedMetric as any} 
-                            data={clientHistory || []} 
-                            timeRange={timeRange}
-                          />
-                        )}
-                      </motion.div>
-                    )}
-                  </div>
+                  <ClientDetailPanel
+                    detail={detail}
+                    history={clientHistory || []}
+                    expandedMetric={expandedMetric}
+                    onMetricClick={handleMetricClick}
+                    timeRange={timeRange}
+                    availableTimeRanges={TIME_RANGE_OPTIONS}
+                    onTimeRangeChange={handleTimeRangeChange}
+                    actions={
+                      <>
+                        <Link
+                          href={getClientPageHref(detail.clientId, expandedMetric, timeRange)}
+                          className="p-2 rounded-md hover:bg-background-secondary transition-colors"
+                          aria-label="Open full page"
+                          title="Open full page"
+                        >
+                          <Maximize2 className="w-5 h-5" />
+                        </Link>
+                        <button
+                          onClick={handleCloseDetail}
+                          className="p-2 rounded-md hover:bg-background-secondary transition-colors"
+                          aria-label="Close"
+                        >
+                          <X className="w-5 h-5" />
+                        </button>
+                      </>
+                    }
+                  />
                 </motion.div>
               </div>
             </>
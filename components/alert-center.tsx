@@ -0,0 +1,317 @@
+'use client';
+
+import { ChangeEvent, FormEvent, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Bell, BellRing, CheckCircle2, Download, Trash2, Upload, X } from 'lucide-react';
+import { AlertInstance, AlertRule, formatRule, getMetricLabel } from '@/lib/alert-rules';
+import { fadeVariants, fastTransition, smoothTransition } from '@/lib/animation-config';
+import { cn, formatRelativeTime } from '@/lib/utils';
+
+interface AlertCenterProps {
+  rules: AlertRule[];
+  alerts: AlertInstance[];
+  onAddRule: (expression: string) => void;
+  onToggleRule: (ruleId: string) => void;
+  onRemoveRule: (ruleId: string) => void;
+  onImportRules: (json: string) => number;
+  onExportRules: () => string;
+}
+
+/**
+ * Drawer animation variants
+ */
+const drawerVariants = {
+  hidden: { x: '100%' },
+  visible: { x: 0, transition: smoothTransition },
+  exit: { x: '100%', transition: fastTransition },
+};
+
+/**
+ * Format the observed value of an alert
+ */
+function formatAlertValue(alert: AlertInstance, rule?: AlertRule): string {
+  if (alert.value === null) return '';
+  if (rule?.metric === 'offline') return `silent for ${formatRelativeTime(alert.activeSince)}`;
+  return `${alert.value.toFixed(1)}%`;
+}
+
+/**
+ * Single alert row
+ */
+function AlertRow({ alert, rule }: { alert: AlertInstance; rule?: AlertRule }) {
+  const isFiring = alert.state === 'firing';
+
+  return (
+    <li
+      className={cn(
+        'rounded-md border p-3 text-sm',
+        isFiring ? 'border-danger/40 bg-danger/5' : 'border-border bg-background-secondary'
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-semibold truncate">{alert.clientName}</span>
+        <span className={cn('text-xs font-medium', isFiring ? 'text-danger' : 'text-success')}>
+          {isFiring ? 'Firing' : 'Resolved'}
+        </span>
+      </div>
+      <p className="text-xs text-foreground-secondary mt-1">
+        {rule ? `${getMetricLabel(rule.metric)} • ${formatRule(rule)}` : 'Deleted rule'}
+      </p>
+      <p className="text-xs text-foreground-secondary mt-0.5">
+        {formatAlertValue(alert, rule)}
+        {isFiring && alert.firedAt
+          ? ` • since ${new Date(alert.firedAt).toLocaleTimeString('en-US')}`
+          : ''}
+        {!isFiring && alert.resolvedAt
+          ? ` • resolved ${new Date(alert.resolvedAt).toLocaleTimeString('en-US')}`
+          : ''}
+      </p>
+    </li>
+  );
+}
+
+/**
+ * AlertCenter Component
+ * Header button with a drawer listing active alerts and managing alert rules
+ */
+export function AlertCenter({
+  rules,
+  alerts,
+  onAddRule,
+  onToggleRule,
+  onRemoveRule,
+  onImportRules,
+  onExportRules,
+}: AlertCenterProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [expression, setExpression] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const rulesById = new Map(rules.map((r) => [r.id, r]));
+  const firing = alerts.filter((a) => a.state === 'firing');
+  const resolved = alerts.filter((a) => a.state === 'resolved');
+
+  const handleAddRule = (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      onAddRule(expression);
+      setExpression('');
+      setMessage(null);
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : 'Invalid rule', isError: true });
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([onExportRules()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'alert-rules.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const count = onImportRules(await file.text());
+      setMessage({ text: `Imported ${count} rule(s)`, isError: false });
+    } catch (error) {
+      setMessage({
+        text: `Import failed: ${error instanceof Error ? error.message : 'invalid file'}`,
+        isError: true,
+      });
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="relative rounded-lg p-2 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+        aria-label="Open alert center"
+      >
+        {firing.length > 0 ? (
+          <BellRing className="h-5 w-5 text-danger" />
+        ) : (
+          <Bell className="h-5 w-5" />
+        )}
+        {firing.length > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-danger text-white text-[10px] font-bold flex items-center justify-center">
+            {firing.length}
+          </span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <>
+            <motion.div
+              className="fixed inset-0 z-[60] bg-black/50 backdrop-blur-sm"
+              variants={fadeVariants}
+              initial="hidden"
+              animate="visible"
+              exit="exit"
+              onClick={() => setIsOpen(false)}
+            />
+            <motion.aside
+              className="fixed inset-y-0 right-0 z-[70] w-full max-w-md overflow-y-auto border-l border-border bg-card shadow-2xl"
+              variants={drawerVariants}
+              initial="hidden"
+              animate="visible"
+              exit="exit"
+            >
+              <div className="p-6 space-y-6">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-xl font-bold">Alerts</h2>
+                  <button
+                    onClick={() => setIsOpen(false)}
+                    className="p-2 rounded-md hover:bg-background-secondary transition-colors"
+                  >
+                    <X className="w-5 h-5" />
+                  </button>
+                </div>
+
+                {/* Active alerts */}
+                <section className="space-y-2">
+                  <h3 className="text-sm font-semibold text-foreground-secondary">
+                    Firing ({firing.length})
+                  </h3>
+                  {firing.length === 0 ? (
+                    <p className="flex items-center gap-2 text-sm text-foreground-secondary">
+                      <CheckCircle2 className="w-4 h-4 text-success" />
+                      All clear
+                    </p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {firing.map((alert) => (
+                        <AlertRow
+                          key={alert.key}
+                          alert={alert}
+                          rule={rulesById.get(alert.ruleId)}
+                        />
+                      ))}
+                    </ul>
+                  )}
+                </section>
+
+                {resolved.length > 0 && (
+                  <section className="space-y-2">
+                    <h3 className="text-sm font-semibold text-foreground-secondary">
+                      Recently resolved
+                    </h3>
+                    <ul className="space-y-2">
+                      {resolved.map((alert) => (
+                        <AlertRow
+                          key={alert.key}
+                          alert={alert}
+                          rule={rulesById.get(alert.ruleId)}
+                        />
+                      ))}
+                    </ul>
+                  </section>
+                )}
+
+                {/* Rules */}
+                <section className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-semibold text-foreground-secondary">
+                      Rules ({rules.length})
+                    </h3>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded-md hover:bg-background-secondary transition-colors"
+                      >
+                        <Upload className="w-3.5 h-3.5" />
+                        Import
+                      </button>
+                      <button
+                        onClick={handleExport}
+                        disabled={rules.length === 0}
+                        className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded-md hover:bg-background-secondary transition-colors disabled:opacity-50"
+                      >
+                        <Download className="w-3.5 h-3.5" />
+                        Export
+                      </button>
+                      <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        className="hidden"
+                        onChange={handleImport}
+                      />
+                    </div>
+                  </div>
+
+                  <form onSubmit={handleAddRule} className="flex gap-2">
+                    <input
+                      value={expression}
+                      onChange={(e) => setExpression(e.target.value)}
+                      placeholder="cpu > 90 for 5m on tag=prod"
+                      className="flex-1 min-w-0 px-3 py-1.5 text-sm rounded-md border border-border bg-background focus:outline-none focus:border-primary"
+                    />
+                    <button
+                      type="submit"
+                      disabled={!expression.trim()}
+                      className="px-3 py-1.5 text-sm font-medium rounded-md bg-primary text-white disabled:opacity-50"
+                    >
+                      Add
+                    </button>
+                  </form>
+                  <p className="text-xs text-foreground-secondary">
+                    Metrics: cpu, memory, swap, disk, anyDisk, offline (e.g. &quot;offline &gt;
+                    10m&quot;)
+                  </p>
+
+                  {message && (
+                    <p className={cn('text-xs', message.isError ? 'text-danger' : 'text-success')}>
+                      {message.text}
+                    </p>
+                  )}
+
+                  <ul className="space-y-2">
+                    {rules.map((rule) => (
+                      <li
+                        key={rule.id}
+                        className="flex items-center gap-2 rounded-md border border-border p-2 text-sm"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={rule.enabled}
+                          onChange={() => onToggleRule(rule.id)}
+                          aria-label="Enable rule"
+                        />
+                        <code
+                          className={cn(
+                            'flex-1 truncate text-xs',
+                            !rule.enabled && 'text-foreground-secondary line-through'
+                          )}
+                          title={formatRule(rule)}
+                        >
+                          {formatRule(rule)}
+                        </code>
+                        <button
+                          onClick={() => onRemoveRule(rule.id)}
+                          className="p-1 rounded hover:bg-background-secondary text-foreground-secondary hover:text-danger transition-colors"
+                          aria-label="Delete rule"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              </div>
+            </motion.aside>
+          </>
+        )}
+      </AnimatePresence>
+    </>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2 } from 'lucide-react';
+import { OidcAuthProvider, authProvider } from '@/lib/auth';
+import { UserFriendlyError, handleApiError, logError } from '@/lib/error-handler';
+import { ErrorDisplay } from './error-display';
+
+/**
+ * AuthCallback Component
+ * Exchanges the authorization code for tokens, then returns to the page the sign-in
+ * started from
+ */
+export function AuthCallback() {
+  const router = useRouter();
+  const [error, setError] = useState<UserFriendlyError | null>(null);
+  // The code can only be exchanged once; guards against effects running twice in dev
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    if (startedRef.current) return;
+    startedRef.current = true;
+
+    if (!(authProvider instanceof OidcAuthProvider)) {
+      router.replace('/');
+      return;
+    }
+
+    authProvider
+      .completeSignIn(window.location.href)
+      .then((returnTo) => router.replace(returnTo))
+      .catch((err) => {
+        logError(err, 'AuthCallback');
+        setError(handleApiError(err));
+      });
+  }, [router]);
+
+  return (
+    <main className="min-h-screen flex items-center justify-center p-6">
+      {error ? (
+        <ErrorDisplay error={error} />
+      ) : (
+        <div className="flex items-center gap-2 text-foreground-secondary">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          Signing in…
+        </div>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { memo } from 'react';
+import { BackendHealth as BackendHealthEntry } from '@/lib/api-client';
+import { formatFieldTerm, hasQueryTerms, toggleQueryTerms } from '@/lib/client-query';
+import { cn, formatRelativeTime } from '@/lib/utils';
+
+interface BackendHealthProps {
+  health: BackendHealthEntry[];
+  query: string;
+  onQueryChange: (query: string) => void;
+}
+
+const STATE_COLORS: Record<BackendHealthEntry['state'], string> = {
+  unknown: 'bg-foreground-secondary/50',
+  ok: 'bg-success',
+  error: 'bg-danger',
+};
+
+function getStateLabel(entry: BackendHealthEntry): string {
+  if (entry.state === 'unknown') return 'Connecting';
+  if (entry.state === 'ok') return entry.streamState === 'open' ? 'Live' : 'Polling';
+  return entry.lastSuccess
+    ? `Unreachable, last answered ${formatRelativeTime(entry.lastSuccess)}`
+    : 'Unreachable';
+}
+
+/**
+ * BackendHealth Component
+ * One chip per federated backend with its reachability and client count, so a region
+ * that is down is visible while the others keep updating
+ * Clicking a chip toggles the `backend:` filter
+ */
+export const BackendHealth = memo(function BackendHealth({
+  health,
+  query,
+  onQueryChange,
+}: BackendHealthProps) {
+  return (
+    <section className="flex flex-wrap items-center gap-2" aria-label="Backend health">
+      {health.map((entry) => {
+        const terms = [formatFieldTerm('backend', entry.backend.id)];
+        const active = hasQueryTerms(query, terms);
+        return (
+          <button
+            key={entry.backend.id}
+            onClick={() => onQueryChange(toggleQueryTerms(query, terms))}
+            aria-pressed={active}
+            title={entry.error ? `${entry.backend.url}: ${entry.error}` : entry.backend.url}
+            className={cn(
+              'inline-flex items-center gap-2 rounded-md border px-3 py-1.5 text-sm transition-colors',
+              active ? 'border-primary bg-primary/10' : 'border-border hover:border-primary/50',
+              entry.state === 'error' && !active && 'border-danger/50 bg-danger/5'
+            )}
+          >
+            <span className={cn('w-2 h-2 rounded-full', STATE_COLORS[entry.state])} />
+            <span className="font-medium">{entry.backend.name}</span>
+            <span className="tabular-nums text-foreground-secondary">{entry.clientCount}</span>
+            <span
+              className={cn(
+                'text-xs',
+                entry.state === 'error' ? 'text-danger' : 'text-foreground-secondary'
+              )}
+            >
+              {getStateLabel(entry)}
+            </span>
+          </button>
+        );
+      })}
+    </section>
+  );
+});
@@ -0,0 +1,315 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
+import { ArrowLeft, Loader2, RefreshCw, TrendingUp } from 'lucide-react';
+import { apiClient } from '@/lib/api-client';
+import { UserFriendlyError, handleApiError, logError } from '@/lib/error-handler';
+import {
+  CAPACITY_METRICS,
+  CAPACITY_TIME_RANGES,
+  ClientCapacity,
+  MetricTrend,
+  analyzeClientCapacity,
+  rankByDaysToSaturation,
+} from '@/lib/capacity';
+import { fetchCachedHistories } from '@/lib/history-cache';
+import { getRuntimeConfig } from '@/lib/runtime-config';
+import { isRelativeTimeRange, resolveTimeRange } from '@/lib/time-range';
+import { getClientPageHref } from '@/lib/use-dashboard-url-state';
+import { cn } from '@/lib/utils';
+import { Header } from './header';
+import { Container } from './container';
+import { ErrorDisplay } from './error-display';
+
+/**
+ * Props for CapacityView component
+ */
+export interface CapacityViewProps {
+  initialTimeRange: string;
+}
+
+/**
+ * Results are published in batches so large fleets do not re-render per client
+ */
+const PUBLISH_EVERY = 25;
+
+function getDaysColor(days: number | null): string {
+  if (days === null) return 'text-foreground-secondary';
+  if (days <= 7) return 'text-danger';
+  if (days <= 30) return 'text-warning';
+  return 'text-foreground';
+}
+
+function formatDays(days: number | null): string {
+  if (days === null) return '-';
+  if (days < 1) return '< 1 day';
+  if (days > 365) return '> 1 year';
+  return `${Math.round(days)} days`;
+}
+
+/**
+ * Current usage and daily change of one metric
+ */
+function TrendCell({ trend }: { trend: MetricTrend | null }) {
+  if (!trend) {
+    return <span className="text-foreground-secondary">-</span>;
+  }
+
+  return (
+    <div
+      className="leading-tight"
+      title={`R² ${trend.r2.toFixed(2)}${trend.mountpoint ? ` · ${trend.mountpoint}` : ''}`}
+    >
+      <span className="font-medium tabular-nums">{trend.current.toFixed(1)}%</span>
+      <span
+        className={cn(
+          'block text-xs tabular-nums',
+          trend.rising ? 'text-warning' : 'text-foreground-secondary'
+        )}
+      >
+        {trend.slopePerDay >= 0 ? '+' : ''}
+        {trend.slopePerDay.toFixed(2)}%/day
+      </span>
+    </div>
+  );
+}
+
+/**
+ * CapacityView Component
+ * Fetches long-range history for every client, fits usage trends in the browser and lists
+ * clients by how soon memory, swap or disk would saturate
+ */
+export function CapacityView({ initialTimeRange }: CapacityViewProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [timeRange, setTimeRange] = useState(initialTimeRange);
+  const [results, setResults] = useState<ClientCapacity[]>([]);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [failedCount, setFailedCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<UserFriendlyError | null>(null);
+  const [risingOnly, setRisingOnly] = useState(true);
+  const [reloadCount, setReloadCount] = useState(0);
+  // Set by Refresh so the next load bypasses the history cache
+  const forceReloadRef = useRef(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const analyzed: ClientCapacity[] = [];
+    const force = forceReloadRef.current;
+    forceReloadRef.current = false;
+    let failed = 0;
+
+    const run = async () => {
+      setLoading(true);
+      setError(null);
+      setResults([]);
+      setFailedCount(0);
+      setProgress({ done: 0, total: 0 });
+
+      try {
+        const clients = await apiClient.fetchAllClients();
+        if (controller.signal.aborted) return;
+        setProgress({ done: 0, total: clients.length });
+
+        const names = new Map(clients.map((c) => [c.clientId, c.clientName || c.hostname]));
+        await fetchCachedHistories(
+          clients.map((c) => c.clientId),
+          resolveTimeRange(timeRange),
+          (clientId, history) => {
+            if (history) {
+              analyzed.push(
+                analyzeClientCapacity(clientId, names.get(clientId) ?? clientId, history)
+              );
+            } else {
+              failed++;
+            }
+            const done = analyzed.length + failed;
+            if (done % PUBLISH_EVERY === 0 || done === clients.length) {
+              setResults([...analyzed]);
+              setFailedCount(failed);
+              setProgress({ done, total: clients.length });
+            }
+          },
+          { force, relative: isRelativeTimeRange(timeRange), signal: controller.signal }
+        );
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        logError(err, 'CapacityView');
+        setError(handleApiError(err));
+      }
+
+      if (!controller.signal.aborted) {
+        setLoading(false);
+      }
+    };
+
+    run();
+    return () => controller.abort();
+  }, [timeRange, reloadCount]);
+
+  const handleRefresh = () => {
+    forceReloadRef.current = true;
+    setReloadCount((count) => count + 1);
+  };
+
+  const handleTimeRangeChange = (range: string) => {
+    setTimeRange(range);
+    router.replace(
+      range === getRuntimeConfig().defaultCapacityTimeRange
+        ? pathname
+        : `${pathname}?range=${range}`,
+      { scroll: false }
+    );
+  };
+
+  const ranked = useMemo(() => rankByDaysToSaturation(results), [results]);
+  const risingCount = ranked.filter((c) => c.rising).length;
+  const rows = risingOnly ? ranked.filter((c) => c.rising) : ranked;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header
+        actions={
+          <Link
+            href="/"
+            className="flex items-center gap-1 rounded-lg px-3 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Dashboard
+          </Link>
+        }
+      />
+
+      <main className="py-8">
+        <Container>
+          <div className="flex items-center justify-between gap-4 flex-wrap mb-6">
+            <div>
+              <h2 className="text-2xl font-bold">Capacity</h2>
+              <p className="text-sm text-foreground-secondary mt-1">
+                {loading
+                  ? `Analyzing ${progress.done} of ${progress.total || '…'} clients`
+                  : `${risingCount} of ${ranked.length} clients with steadily rising usage`}
+                {failedCount > 0 && (
+                  <span className="text-warning"> · {failedCount} could not be loaded</span>
+                )}
+              </p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              {loading && <Loader2 className="w-4 h-4 animate-spin text-primary" />}
+              <div
+                className="inline-flex rounded-md border border-border overflow-hidden text-sm"
+                role="group"
+                aria-label="Time range"
+              >
+                {CAPACITY_TIME_RANGES.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => handleTimeRangeChange(option.value)}
+                    aria-pressed={timeRange === option.value}
+                    className={cn(
+                      'px-3 py-1.5 transition-colors',
+                      timeRange === option.value
+                        ? 'bg-primary text-white'
+                        : 'bg-card hover:bg-background-secondary'
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={handleRefresh}
+                disabled={loading}
+                className={cn(
+                  'inline-flex items-center gap-2 px-3 py-1.5 rounded-md text-sm',
+                  'bg-card border border-border hover:bg-card-hover transition-colors',
+                  'disabled:opacity-50 disabled:cursor-not-allowed'
+                )}
+              >
+                <RefreshCw className="w-4 h-4" />
+                Refresh
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="mb-6">
+              <ErrorDisplay error={error} onRetry={handleRefresh} />
+            </div>
+          )}
+
+          <label className="inline-flex items-center gap-2 mb-4 text-sm">
+            <input
+              type="checkbox"
+              checked={risingOnly}
+              onChange={(e) => setRisingOnly(e.target.checked)}
+            />
+            Only clients with rising usage
+          </label>
+
+          <div className="rounded-lg border border-border bg-card overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border text-left text-foreground-secondary">
+                  <th className="px-4 py-2 font-medium">Client</th>
+                  {CAPACITY_METRICS.map(({ metric, label }) => (
+                    <th key={metric} className="px-4 py-2 font-medium">
+                      {label}
+                    </th>
+                  ))}
+                  <th className="px-4 py-2 font-medium">Saturates in</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((client) => (
+                  <tr key={client.clientId} className="border-b border-border last:border-0">
+                    <td className="px-4 py-2">
+                      <Link
+                        href={getClientPageHref(
+                          client.clientId,
+                          client.saturatingMetric,
+                          timeRange
+                        )}
+                        className="font-medium hover:text-primary"
+                      >
+                        {client.clientName}
+                      </Link>
+                    </td>
+                    {CAPACITY_METRICS.map(({ metric }) => (
+                      <td key={metric} className="px-4 py-2">
+                        <TrendCell trend={client.trends[metric]} />
+                      </td>
+                    ))}
+                    <td className={cn('px-4 py-2', getDaysColor(client.daysToSaturation))}>
+                      {client.rising ? (
+                        <span className="inline-flex items-center gap-1 font-medium">
+                          <TrendingUp className="w-4 h-4" />
+                          {formatDays(client.daysToSaturation)}
+                          <span className="text-xs font-normal text-foreground-secondary">
+                            ({client.saturatingMetric})
+                          </span>
+                        </span>
+                      ) : (
+                        '-'
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {rows.length === 0 && !loading && (
+              <p className="px-4 py-10 text-center text-foreground-secondary">
+                {risingOnly ? 'No client shows steadily rising usage' : 'No history available'}
+              </p>
+            )}
+          </div>
+        </Container>
+      </main>
+    </div>
+  );
+}
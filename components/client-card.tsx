@@ -2,7 +2,7 @@
 
 import { memo, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Circle, Tag, Activity, Server, Monitor, Smartphone, Globe } from 'lucide-react';
+import { Circle, Tag, Activity, Server, Monitor, Smartphone, Globe, BellRing } from 'lucide-react';
 import {
   Cell,
   Line,
@@ -16,13 +16,17 @@ import {
   CartesianGrid,
 } from 'recharts';
 import { ClientSummary, ClientDetail } from '@/lib/api-client';
-import { cn } from '@/lib/utils';
+import { getUsageLevel } from '@/lib/runtime-config';
+import { useClientSamples } from '@/lib/sample-buffer';
+import { CompareCheckbox } from './compare-checkbox';
+import { cn, formatRelativeTime } from '@/lib/utils';
 import { cardVariants, tapAnimation } from '@/lib/animation-config';
 
 interface ClientCardProps {
   client: ClientSummary | ClientDetail;
   onClick?: (clientId: string) => void;
   index?: number;
+  alertCount?: number;
 }
 
 /**
@@ -96,8 +100,9 @@ function formatSpeed(bytesPerSecond: number): string {
  * Get usage color based on percentage
  */
 function getUsageColor(value: number): string {
-  if (value >= 80) return 'rgb(var(--danger))';
-  if (value >= 60) return 'rgb(var(--warning))';
+  const level = getUsageLevel(value);
+  if (level === 'critical') return 'rgb(var(--danger))';
+  if (level === 'warning') return 'rgb(var(--warning))';
   return 'rgb(var(--success))';
 }
 
@@ -257,33 +262,34 @@ function MultiDiskUsage({
   );
 }
 
+/**
+ * Samples shown in the card chart
+ */
+const NETWORK_CHART_SAMPLES = 30;
+
 /**
  * Network line chart for mini view
+ * Reads the shared rolling sample buffer, so it only re-renders when this client gets a new sample
  */
-function NetworkLineChart({
-  upload,
-  download,
-  history,
-}: {
-  upload?: number;
-  download?: number;
-  history?: Array<{ timestamp: number; upload: number; download: number }>;
-}) {
-  // Generate mock history data if not provided (for preview)
-  const chartData = history
-    ? history.slice(-20).map((h) => ({
-        time: new Date(h.timestamp).toLocaleTimeString('en-US', {
-          hour: '2-digit',
-          minute: '2-digit',
-        }),
-        upload: h.upload,
-        download: h.download,
-      }))
-    : Array.from({ length: 20 }, (_, i) => ({
-        time: `${i}`,
-        upload: (upload || 0) * (0.8 + Math.random() * 0.4),
-        download: (download || 0) * (0.8 + Math.random() * 0.4),
-      }));
+function NetworkLineChart({ clientId }: { clientId: string }) {
+  const samples = useClientSamples(clientId);
+
+  if (samples.length < 2) {
+    return (
+      <div className="h-32 w-full flex items-center justify-center text-xs text-foreground-secondary">
+        Collecting samples...
+      </div>
+    );
+  }
+
+  const chartData = samples.slice(-NETWORK_CHART_SAMPLES).map((sample) => ({
+    time: new Date(sample.timestamp).toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+    }),
+    upload: sample.networkUpload,
+    download: sample.networkDownload,
+  }));
 
   const maxValue = Math.max(...chartData.map((d) => Math.max(d.upload, d.download)), 1);
 
@@ -327,6 +333,7 @@ function NetworkLineChart({
             stroke="rgb(var(--primary))"
             strokeWidth={2}
             dot={false}
+            isAnimationActive={false}
             name="Upload"
           />
           <Line
@@ -335,6 +342,7 @@ function NetworkLineChart({
             stroke="rgb(var(--success))"
             strokeWidth={2}
             dot={false}
+            isAnimationActive={false}
             name="Download"
           />
         </LineChart>
@@ -355,8 +363,10 @@ function isClientDetail(client: ClientSummary | ClientDetail): client is ClientD
  * Modern card design with donut charts and line graphs
  */
 export const ClientCard = memo(
-  function ClientCard({ client, onClick, index = 0 }: ClientCardProps) {
-    const isOnline = client.status === 'online';
+  function ClientCard({ client, onClick, index = 0, alertCount = 0 }: ClientCardProps) {
+    // Stale clients are still up, but their last report is older than expected
+    const isOnline = client.status !== 'offline';
+    const isStale = client.status === 'stale';
     const hasDetailedInfo = isClientDetail(client);
     const status = hasDetailedInfo
       ? 'currentStatus' in client
@@ -433,18 +443,45 @@ export const ClientCard = memo(
         whileHover={onClick ? { borderColor: 'rgb(59, 130, 246)' } : undefined}
         className={cn(
           'rounded-xl border-2 border-border bg-card p-5',
+          isStale && 'border-dashed border-warning/60',
           'shadow-sm hover:shadow-lg transition-all duration-300',
-          onClick && 'cursor-pointer'
+          onClick && 'cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-primary'
         )}
         onClick={() => onClick?.(client.clientId)}
+        onKeyDown={(e) => {
+          if (onClick && e.target === e.currentTarget && (e.key === 'Enter' || e.key === ' ')) {
+            e.preventDefault();
+            onClick(client.clientId);
+          }
+        }}
+        tabIndex={onClick ? 0 : undefined}
+        role={onClick ? 'button' : undefined}
+        aria-label={onClick ? `Open ${client.clientName}` : undefined}
+        data-client-id={client.clientId}
         style={{
           willChange: 'transform, opacity',
           transform: 'translateZ(0)',
         }}
       >
         {/* Client Name - Centered at top */}
-        <div className="text-center mb-3">
+        <div className="relative text-center mb-3">
+          {onClick && (
+            <CompareCheckbox
+              clientId={client.clientId}
+              clientName={client.clientName}
+              className="absolute left-0 top-1/2 -translate-y-1/2"
+            />
+          )}
           <h3 className="text-lg font-bold">{client.clientName}</h3>
+          {alertCount > 0 && (
+            <span
+              className="absolute right-0 top-1/2 -translate-y-1/2 inline-flex items-center gap-1 px-2 py-0.5 text-xs font-semibold rounded-full bg-danger/10 text-danger"
+              title={`${alertCount} firing alert${alertCount > 1 ? 's' : ''}`}
+            >
+              <BellRing className="w-3 h-3" />
+              {alertCount}
+            </span>
+          )}
         </div>
 
         {/* Status and Time */}
@@ -452,16 +489,27 @@ export const ClientCard = memo(
           <Circle
             className={cn(
               'w-2.5 h-2.5',
-              isOnline ? 'fill-success text-success' : 'fill-danger text-danger'
+              isStale
+                ? 'fill-warning text-warning'
+                : isOnline
+                  ? 'fill-success text-success'
+                  : 'fill-danger text-danger'
             )}
           />
           <span
             className={cn(
               'text-xs font-medium px-2 py-0.5 rounded-full',
-              isOnline ? 'bg-success/10 text-success' : 'bg-danger/10 text-danger'
+              isStale
+                ? 'bg-warning/10 text-warning'
+                : isOnline
+                  ? 'bg-success/10 text-success'
+                  : 'bg-danger/10 text-danger'
             )}
+            title={isStale ? `Last report ${formatRelativeTime(client.lastUpdate)}` : undefined}
           >
-            {isOnline ? 'Online' : 'Offline'} {calculateStatusDuration()}
+            {isStale
+              ? `Stale, last report ${formatRelativeTime(client.lastUpdate)}`
+              : `${isOnline ? 'Online' : 'Offline'} ${calculateStatusDuration()}`}
           </span>
         </div>
 
@@ -541,7 +589,7 @@ export const ClientCard = memo(
                   </div>
                 </div>
               </div>
-              <NetworkLineChart upload={status.networkUpload} download={status.networkDownload} />
+              <NetworkLineChart clientId={client.clientId} />
             </div>
 
             {/* Disk Section - Multiple Disks */}
@@ -579,7 +627,8 @@ export const ClientCard = memo(
       prevProps.client.clientName === nextProps.client.clientName &&
       JSON.stringify(prevProps.client.clientTags) === JSON.stringify(nextProps.client.clientTags) &&
       prevProps.client.clientPurpose === nextProps.client.clientPurpose &&
-      prevProps.index === nextProps.index
+      prevProps.index === nextProps.index &&
+      prevProps.alertCount === nextProps.alertCount
     );
   }
 );
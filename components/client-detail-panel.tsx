@@ -0,0 +1,292 @@
+'use client';
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { ChevronLeft, ChevronRight, Clock, RotateCcw, ZoomOut } from 'lucide-react';
+import { slideVariants, smoothTransition } from '@/lib/animation-config';
+import { ClientDetail, DynamicSystemStatus } from '@/lib/api-client';
+import { getExportBaseName } from '@/lib/export';
+import { TimeRangeOption } from '@/lib/time-range';
+import { useZoomStack } from '@/lib/use-zoom-stack';
+import { MetricModule, MetricType } from './metric-module';
+import { ExportMenu } from './export-menu';
+import { HistoryChart } from './history-chart';
+import { MultiDiskDetail } from './multi-disk-detail';
+import { TimeRangeSelector } from './time-range-selector';
+
+/**
+ * Props for ClientDetailPanel component
+ */
+export interface ClientDetailPanelProps {
+  detail: ClientDetail;
+  history: DynamicSystemStatus[];
+  expandedMetric: string | null;
+  onMetricClick: (metric: string) => void;
+  timeRange: string;
+  availableTimeRanges: TimeRangeOption[];
+  onTimeRangeChange: (range: string) => void;
+  actions?: React.ReactNode;
+}
+
+/**
+ * ClientDetailPanel Component
+ * Static info, metric modules and history for one client
+ * Shared by the dashboard modal and the /clients/[id] page
+ */
+export function ClientDetailPanel({
+  detail,
+  history,
+  expandedMetric,
+  onMetricClick,
+  timeRange,
+  availableTimeRanges,
+  onTimeRangeChange,
+  actions,
+}: ClientDetailPanelProps) {
+  const { isZoomed, zoomTo, pan, zoomOut, resetZoom, selectRange } = useZoomStack(
+    timeRange,
+    onTimeRangeChange
+  );
+  const exportClient = {
+    clientId: detail.clientId,
+    clientName: detail.clientName || detail.hostname || detail.clientId,
+  };
+
+  return (
+    <div className="p-6 tablet:p-8">
+      {/* Detail Header */}
+      <div className="flex items-start justify-between mb-6 gap-4">
+        <div className="space-y-1">
+          <h2 className="text-2xl font-bold">
+            {'hostname' in detail ? detail.hostname : 'unnamed client'}
+          </h2>
+          <p className="text-foreground-secondary">
+            {'platform' in detail ? detail.platform : 'unknown platform'}
+            {'clientPurpose' in detail && detail.clientPurpose
+              ? ` • ${detail.clientPurpose}`
+              : 'unknown purpose'}
+          </p>
+          {'staticInfo' in detail && detail.staticInfo.location && (
+            <p className="text-sm text-foreground-secondary">{detail.staticInfo.location}</p>
+          )}
+        </div>
+
+        <div className="flex items-center gap-1 print:hidden">
+          <ExportMenu
+            baseName={getExportBaseName(exportClient.clientName, timeRange)}
+            loadSeries={() => [{ ...exportClient, history }]}
+          />
+          {actions}
+        </div>
+      </div>
+
+      {/* Detailed System Info */}
+      <div className="grid grid-cols-1 tablet:grid-cols-2 desktop:grid-cols-4 print:grid-cols-4 gap-4 mb-6">
+        <div className="space-y-1">
+          <p className="text-sm text-foreground-secondary">CPU</p>
+          <p className="font-medium">
+            {'staticInfo' in detail ? detail.staticInfo.cpuModel : 'unknown cpu model'}
+          </p>
+          <p className="text-xs text-foreground-secondary">
+            {'staticInfo' in detail ? detail.staticInfo.cpuCores : 'unknown cpu cores'} C •{' '}
+            {'staticInfo' in detail ? detail.staticInfo.cpuArch : 'unknown cpu arch'}
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <p className="text-sm text-foreground-secondary">System</p>
+          <p className="font-medium">
+            {'staticInfo' in detail ? detail.staticInfo.systemVersion : 'unknown system version'}
+          </p>
+          <p className="text-xs text-foreground-secondary">
+            {'staticInfo' in detail ? detail.staticInfo.systemModel : 'unknown system model'}
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <p className="text-sm text-foreground-secondary">Memory</p>
+          <p className="font-medium">
+            {'staticInfo' in detail
+              ? (detail.staticInfo.totalMemory / 1024 ** 3).toFixed(1)
+              : 'unknown memory'}{' '}
+            GB
+          </p>
+          <p className="text-xs text-foreground-secondary">
+            {'staticInfo' in detail
+              ? `Swap: ${(detail.staticInfo.totalSwap / 1024 ** 3).toFixed(1)} GB`
+              : 'unknown swap'}
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <p className="text-sm text-foreground-secondary">Disk</p>
+          <p className="font-medium">
+            {'staticInfo' in detail
+              ? (detail.staticInfo.totalDisk / 1024 ** 3).toFixed(1)
+              : 'unknown disk'}{' '}
+            GB
+          </p>
+          <p className="text-xs text-foreground-secondary">
+            {'staticInfo' in detail && detail.staticInfo.disks
+              ? `${detail.staticInfo.disks.length} disk(s)`
+              : 'unknown disk count'}
+          </p>
+        </div>
+      </div>
+
+      {/* Metric Modules */}
+      <div className="grid grid-cols-1 tablet:grid-cols-2 desktop:grid-cols-5 print:grid-cols-5 gap-4 mb-6">
+        <MetricModule
+          type="cpu"
+          value={
+            ('currentStatus' in detail
+              ? detail.currentStatus.cpuUsage
+              : 'unknown cpu usage') as number
+          }
+          onExpand={() => onMetricClick('cpu')}
+          expanded={expandedMetric === 'cpu'}
+        />
+
+        <MetricModule
+          type="memory"
+          value={
+            ('currentStatus' in detail
+              ? detail.currentStatus.memoryUsage
+              : 'unknown memory usage') as number
+          }
+          onExpand={() => onMetricClick('memory')}
+          expanded={expandedMetric === 'memory'}
+        />
+
+        <MetricModule
+          type="disk"
+          value={
+            ('currentStatus' in detail
+              ? detail.currentStatus.diskUsage
+              : 'unknown disk usage') as number
+          }
+          onExpand={() => onMetricClick('disk')}
+          expanded={expandedMetric === 'disk'}
+        />
+
+        <MetricModule
+          type="network"
+          value={
+            ('currentStatus' in detail
+              ? detail.currentStatus.networkUpload
+              : 'unknown upload rate') as number
+          }
+          secondaryValue={
+            ('currentStatus' in detail
+              ? detail.currentStatus.networkDownload
+              : 'unknown download rate') as number
+          }
+          onExpand={() => onMetricClick('network')}
+          expanded={expandedMetric === 'network'}
+        />
+
+        <MetricModule
+          type="swap"
+          value={
+            ('currentStatus' in detail
+              ? detail.currentStatus.swapUsage
+              : 'unknown swap usage') as number
+          }
+          onExpand={() => onMetricClick('swap')}
+          expanded={expandedMetric === 'swap'}
+        />
+      </div>
+
+      {/* History Chart */}
+      {expandedMetric && (
+        <motion.div
+          key={`${detail.clientId}-${expandedMetric}`}
+          className="w-full break-inside-avoid"
+          initial="hidden"
+          animate="visible"
+          exit="exit"
+          variants={slideVariants}
+          transition={smoothTransition}
+          style={{
+            willChange: 'transform, opacity',
+          }}
+        >
+          {/* Time Range Selector */}
+          <div className="flex items-center justify-end gap-1 mb-4 print:hidden">
+            {expandedMetric !== 'disk' && (
+              <>
+                {isZoomed && (
+                  <>
+                    <button
+                      onClick={zoomOut}
+                      className="p-1.5 rounded-md hover:bg-background-secondary transition-colors"
+                      aria-label="Zoom out"
+                      title="Zoom out"
+                    >
+                      <ZoomOut className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={resetZoom}
+                      className="p-1.5 rounded-md hover:bg-background-secondary transition-colors"
+                      aria-label="Reset zoom"
+                      title="Reset zoom"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={() => pan(-1)}
+                  className="p-1.5 rounded-md hover:bg-background-secondary transition-colors"
+                  aria-label="Pan earlier"
+                  title="Pan earlier (Shift+←)"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => pan(1)}
+                  className="p-1.5 rounded-md hover:bg-background-secondary transition-colors mr-2"
+                  aria-label="Pan later"
+                  title="Pan later (Shift+→)"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </>
+            )}
+            <label className="text-sm text-foreground-secondary mr-2 flex items-center gap-1">
+              <Clock className="w-4 h-4" />
+            </label>
+            <div className="relative min-w-[120px]">
+              <TimeRangeSelector
+                availableTimeRanges={availableTimeRanges}
+                selectedRange={timeRange}
+                onRangeChange={selectRange}
+                clientId={detail.clientId}
+              />
+            </div>
+          </div>
+
+          {expandedMetric === 'disk' ? (
+            <MultiDiskDetail
+              disks={'staticInfo' in detail ? detail.staticInfo.disks || [] : []}
+              diskUsages={'currentStatus' in detail ? detail.currentStatus.diskUsages || [] : []}
+              history={history}
+              timeRange={timeRange}
+            />
+          ) : (
+            // Always render HistoryChart, even with empty data
+            // This maintains stable layout and allows interactions
+            <HistoryChart
+              type={expandedMetric as MetricType}
+              data={history}
+              timeRange={timeRange}
+              onZoom={zoomTo}
+              onPan={pan}
+              exportClient={exportClient}
+            />
+          )}
+        </motion.div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
+import { ArrowLeft, Printer } from 'lucide-react';
+import { ClientDetail, DynamicSystemStatus } from '@/lib/api-client';
+import { UserFriendlyError } from '@/lib/error-handler';
+import { useClientHistory } from '@/lib/use-api';
+import { getRuntimeConfig } from '@/lib/runtime-config';
+import { TIME_RANGE_OPTIONS, isRelativeTimeRange, resolveTimeRange } from '@/lib/time-range';
+import { Header } from './header';
+import { Container } from './container';
+import { ErrorDisplay } from './error-display';
+import { ClientDetailPanel } from './client-detail-panel';
+
+/**
+ * Props for ClientDetailView component
+ */
+export interface ClientDetailViewProps {
+  clientId: string;
+  initialDetail: ClientDetail | null;
+  initialHistory: DynamicSystemStatus[];
+  initialMetric: string;
+  initialTimeRange: string;
+  error: UserFriendlyError | null;
+}
+
+/**
+ * ClientDetailView Component
+ * Interactive part of the /clients/[id] page, hydrated from server-fetched data
+ * Chart and time range changes are kept in the URL so the page stays bookmarkable
+ */
+export function ClientDetailView({
+  clientId,
+  initialDetail,
+  initialHistory,
+  initialMetric,
+  initialTimeRange,
+  error,
+}: ClientDetailViewProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [expandedMetric, setExpandedMetric] = useState(initialMetric);
+  const [timeRange, setTimeRange] = useState(initialTimeRange);
+  const { data: history, fetchHistory } = useClientHistory(clientId);
+
+  // The server already fetched history for the initial range
+  const fetchedRangeRef = useRef(initialTimeRange);
+
+  useEffect(() => {
+    if (fetchedRangeRef.current === timeRange) return;
+    fetchedRangeRef.current = timeRange;
+
+    fetchHistory(clientId, resolveTimeRange(timeRange), {
+      relative: isRelativeTimeRange(timeRange),
+    }).catch(() => {
+      // Error state is tracked by useClientHistory
+    });
+  }, [clientId, timeRange, fetchHistory]);
+
+  const replaceQuery = useCallback(
+    (metric: string, range: string) => {
+      const params = new URLSearchParams();
+      if (metric !== 'network') params.set('metric', metric);
+      if (range !== getRuntimeConfig().defaultTimeRange) params.set('range', range);
+      const query = params.toString();
+      router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+    },
+    [router, pathname]
+  );
+
+  const handleMetricClick = useCallback(
+    (metric: string) => {
+      setExpandedMetric(metric);
+      replaceQuery(metric, timeRange);
+    },
+    [replaceQuery, timeRange]
+  );
+
+  const handleTimeRangeChange = useCallback(
+    (range: string) => {
+      setTimeRange(range);
+      replaceQuery(expandedMetric, range);
+    },
+    [replaceQuery, expandedMetric]
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header
+        actions={
+          <>
+            <Link
+              href="/"
+              className="flex items-center gap-1 rounded-lg px-3 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Dashboard
+            </Link>
+            {initialDetail && (
+              <button
+                onClick={() => window.print()}
+                className="rounded-lg p-2 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                aria-label="Print report"
+                title="Print report"
+              >
+                <Printer className="h-5 w-5" />
+              </button>
+            )}
+          </>
+        }
+      />
+
+      <main className="py-8 print:py-0">
+        <Container>
+          {error && <ErrorDisplay error={error} onRetry={() => router.refresh()} />}
+          {initialDetail && (
+            <div className="rounded-xl border border-border bg-card shadow-sm print:border-0 print:shadow-none">
+              <ClientDetailPanel
+                detail={initialDetail}
+                history={history ?? initialHistory}
+                expandedMetric={expandedMetric}
+                onMetricClick={handleMetricClick}
+                timeRange={timeRange}
+                availableTimeRanges={TIME_RANGE_OPTIONS}
+                onTimeRangeChange={handleTimeRangeChange}
+              />
+            </div>
+          )}
+        </Container>
+      </main>
+    </div>
+  );
+}
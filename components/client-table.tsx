@@ -0,0 +1,532 @@
+'use client';
+
+import {
+  DragEvent,
+  PointerEvent as ReactPointerEvent,
+  ReactNode,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { List, RowComponentProps } from 'react-window';
+import { ArrowDown, ArrowUp, BellRing, Columns3, GripVertical } from 'lucide-react';
+import { ClientDetail, ClientSummary } from '@/lib/api-client';
+import { ClientSort, DEFAULT_SORT_DIRECTIONS, SortKey } from '@/lib/client-sort';
+import { getUsageLevel } from '@/lib/runtime-config';
+import { MetricSample, useClientSamples } from '@/lib/sample-buffer';
+import { useTableLayout } from '@/lib/use-table-layout';
+import { cn, formatBytes } from '@/lib/utils';
+import { Sparkline } from './sparkline';
+import { CompareCheckbox } from './compare-checkbox';
+
+type ColumnId =
+  'name' | 'status' | 'platform' | 'cpu' | 'memory' | 'swap' | 'disk' | 'network' | 'lastUpdate';
+
+interface ColumnDefinition {
+  id: ColumnId;
+  label: string;
+  defaultWidth: number;
+  minWidth: number;
+  sortKey?: SortKey;
+  align?: 'right';
+  render: (client: ClientSummary | ClientDetail, samples: MetricSample[]) => ReactNode;
+}
+
+interface ClientTableProps {
+  clients: ClientSummary[];
+  onClientClick: (clientId: string) => void;
+  alertCounts?: Map<string, number>;
+  sort: ClientSort;
+  onSortChange: (sort: ClientSort) => void;
+}
+
+const ROW_HEIGHT = 44;
+const HEADER_HEIGHT = 40;
+
+/**
+ * Fixed leading column holding the compare checkbox
+ */
+const SELECT_COLUMN_WIDTH = 36;
+
+function getStatus(client: ClientSummary | ClientDetail) {
+  return 'currentStatus' in client && client.currentStatus ? client.currentStatus : null;
+}
+
+/**
+ * Text color for a usage percentage, matching the card thresholds
+ */
+function getUsageClassName(value: number): string {
+  const level = getUsageLevel(value);
+  if (level === 'critical') return 'text-danger';
+  if (level === 'warning') return 'text-warning';
+  return 'text-foreground';
+}
+
+function formatSpeed(bytesPerSecond: number): string {
+  return bytesPerSecond >= 1 ? `${formatBytes(bytesPerSecond, 1)}/s` : '0 B/s';
+}
+
+function renderUsage(value: number | undefined, trend: number[]): ReactNode {
+  if (value === undefined || !Number.isFinite(value)) {
+    return <span className="text-foreground-secondary">-</span>;
+  }
+  return (
+    <div className="flex items-center justify-end gap-2">
+      <Sparkline values={trend} max={100} />
+      <span className={cn('tabular-nums w-12 text-right', getUsageClassName(value))}>
+        {value.toFixed(1)}%
+      </span>
+    </div>
+  );
+}
+
+const COLUMNS: ColumnDefinition[] = [
+  {
+    id: 'name',
+    label: 'Name',
+    defaultWidth: 220,
+    minWidth: 120,
+    sortKey: 'name',
+    render: (client) => (
+      <div className="min-w-0">
+        <div className="font-medium truncate">{client.clientName}</div>
+        <div className="text-xs text-foreground-secondary truncate">{client.hostname}</div>
+      </div>
+    ),
+  },
+  {
+    id: 'status',
+    label: 'Status',
+    defaultWidth: 100,
+    minWidth: 80,
+    sortKey: 'status',
+    render: (client) => (
+      <span className="inline-flex items-center gap-1.5">
+        <span
+          className={cn(
+            'h-2 w-2 rounded-full',
+            client.status === 'online'
+              ? 'bg-success'
+              : client.status === 'stale'
+                ? 'bg-warning'
+                : 'bg-danger'
+          )}
+        />
+        {client.status === 'online' ? 'Online' : client.status === 'stale' ? 'Stale' : 'Offline'}
+      </span>
+    ),
+  },
+  {
+    id: 'platform',
+    label: 'Platform',
+    defaultWidth: 120,
+    minWidth: 80,
+    render: (client) => <span className="truncate">{client.platform || '-'}</span>,
+  },
+  {
+    id: 'cpu',
+    label: 'CPU',
+    defaultWidth: 150,
+    minWidth: 80,
+    sortKey: 'cpu',
+    align: 'right',
+    render: (client, samples) =>
+      renderUsage(
+        getStatus(client)?.cpuUsage,
+        samples.map((s) => s.cpuUsage)
+      ),
+  },
+  {
+    id: 'memory',
+    label: 'Memory',
+    defaultWidth: 150,
+    minWidth: 80,
+    sortKey: 'memory',
+    align: 'right',
+    render: (client, samples) =>
+      renderUsage(
+        getStatus(client)?.memoryUsage,
+        samples.map((s) => s.memoryUsage)
+      ),
+  },
+  {
+    id: 'swap',
+    label: 'Swap',
+    defaultWidth: 150,
+    minWidth: 80,
+    align: 'right',
+    render: (client, samples) =>
+      renderUsage(
+        getStatus(client)?.swapUsage,
+        samples.map((s) => s.swapUsage)
+      ),
+  },
+  {
+    id: 'disk',
+    label: 'Max disk',
+    defaultWidth: 150,
+    minWidth: 80,
+    sortKey: 'disk',
+    align: 'right',
+    render: (client, samples) => {
+      const status = getStatus(client);
+      const percents = (status?.diskUsages || []).map((d) => d.usagePercent);
+      return renderUsage(
+        percents.length > 0 ? Math.max(...percents) : status?.diskUsage,
+        samples.map((s) => s.diskUsage)
+      );
+    },
+  },
+  {
+    id: 'network',
+    label: '↑ / ↓',
+    defaultWidth: 220,
+    minWidth: 120,
+    sortKey: 'network',
+    align: 'right',
+    render: (client, samples) => {
+      const status = getStatus(client);
+      if (!status) return <span className="text-foreground-secondary">-</span>;
+      return (
+        <div className="flex items-center justify-end gap-2">
+          <Sparkline values={samples.map((s) => s.networkUpload + s.networkDownload)} />
+          <span className="tabular-nums text-xs text-right leading-tight">
+            <span className="block">↑ {formatSpeed(status.networkUpload)}</span>
+            <span className="block text-foreground-secondary">
+              ↓ {formatSpeed(status.networkDownload)}
+            </span>
+          </span>
+        </div>
+      );
+    },
+  },
+  {
+    id: 'lastUpdate',
+    label: 'Last update',
+    defaultWidth: 120,
+    minWidth: 90,
+    sortKey: 'lastUpdate',
+    align: 'right',
+    render: (client) => (
+      <span className="tabular-nums text-foreground-secondary">
+        {new Date(client.lastUpdate).toLocaleTimeString('en-US')}
+      </span>
+    ),
+  },
+];
+
+const COLUMN_IDS = COLUMNS.map((column) => column.id);
+const COLUMNS_BY_ID = new Map(COLUMNS.map((column) => [column.id, column]));
+
+interface TableRowProps {
+  clients: ClientSummary[];
+  columns: ColumnDefinition[];
+  gridTemplateColumns: string;
+  onClientClick: (clientId: string) => void;
+  alertCounts?: Map<string, number>;
+}
+
+/**
+ * One client row; subscribes to that client's samples for the sparklines
+ */
+function TableRow({
+  index,
+  style,
+  ariaAttributes,
+  clients,
+  columns,
+  gridTemplateColumns,
+  onClientClick,
+  alertCounts,
+}: RowComponentProps<TableRowProps>) {
+  const client = clients[index];
+  const samples = useClientSamples(client.clientId);
+  const alertCount = alertCounts?.get(client.clientId) ?? 0;
+
+  return (
+    <div
+      style={{ ...style, gridTemplateColumns }}
+      {...ariaAttributes}
+      role="row"
+      tabIndex={0}
+      onClick={() => onClientClick(client.clientId)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault();
+          onClientClick(client.clientId);
+        }
+      }}
+      className={cn(
+        'grid items-center border-b border-border text-sm cursor-pointer',
+        'hover:bg-card-hover focus:outline-none focus-visible:bg-card-hover',
+        client.status === 'offline' && 'bg-danger/5'
+      )}
+    >
+      <div role="cell" className="flex justify-center">
+        <CompareCheckbox clientId={client.clientId} clientName={client.clientName} />
+      </div>
+      {columns.map((column) => (
+        <div
+          key={column.id}
+          role="cell"
+          className={cn(
+            'px-3 min-w-0 overflow-hidden',
+            column.align === 'right' && 'text-right',
+            column.id === 'name' && 'flex items-center gap-2'
+          )}
+        >
+          {column.render(client, samples)}
+          {column.id === 'name' && alertCount > 0 && (
+            <span
+              className="shrink-0 inline-flex items-center gap-1 px-1.5 py-0.5 text-xs font-semibold rounded-full bg-danger/10 text-danger"
+              title={`${alertCount} firing alert(s)`}
+            >
+              <BellRing className="w-3 h-3" />
+              {alertCount}
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * ClientTable Component
+ * Dense one-row-per-client view with inline sparklines
+ * Columns can be resized, reordered by dragging their header and hidden; the layout persists
+ */
+export function ClientTable({
+  clients,
+  onClientClick,
+  alertCounts,
+  sort,
+  onSortChange,
+}: ClientTableProps) {
+  const { layout, setColumnWidth, toggleColumn, moveColumn, resetLayout } =
+    useTableLayout(COLUMN_IDS);
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [resizing, setResizing] = useState<{ id: ColumnId; width: number } | null>(null);
+  const [height, setHeight] = useState(600);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const draggedColumnRef = useRef<ColumnId | null>(null);
+
+  // Fill the viewport below the sticky header once scrolled into view
+  useEffect(() => {
+    const updateHeight = () => setHeight(Math.max(window.innerHeight - 96, 400));
+    updateHeight();
+    window.addEventListener('resize', updateHeight);
+    return () => window.removeEventListener('resize', updateHeight);
+  }, []);
+
+  // Close column menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsMenuOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const visibleColumns = useMemo(
+    () =>
+      layout.order.filter((id) => !layout.hidden.includes(id)).map((id) => COLUMNS_BY_ID.get(id)!),
+    [layout.order, layout.hidden]
+  );
+
+  const getWidth = useCallback(
+    (column: ColumnDefinition) =>
+      resizing?.id === column.id
+        ? resizing.width
+        : (layout.widths[column.id] ?? column.defaultWidth),
+    [layout.widths, resizing]
+  );
+
+  const gridTemplateColumns = [
+    `${SELECT_COLUMN_WIDTH}px`,
+    ...visibleColumns.map((column) => `${getWidth(column)}px`),
+  ].join(' ');
+  const totalWidth = visibleColumns.reduce(
+    (sum, column) => sum + getWidth(column),
+    SELECT_COLUMN_WIDTH
+  );
+
+  const handleResizeStart = (e: ReactPointerEvent<HTMLDivElement>, column: ColumnDefinition) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = getWidth(column);
+    let width = startWidth;
+
+    const handleMove = (event: PointerEvent) => {
+      width = Math.max(column.minWidth, startWidth + event.clientX - startX);
+      setResizing({ id: column.id, width });
+    };
+    const handleUp = () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      setColumnWidth(column.id, width);
+      setResizing(null);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+  };
+
+  const handleHeaderClick = (column: ColumnDefinition) => {
+    if (!column.sortKey) return;
+    if (sort.key === column.sortKey) {
+      onSortChange({ ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' });
+    } else {
+      onSortChange({
+        key: column.sortKey,
+        direction: DEFAULT_SORT_DIRECTIONS[column.sortKey],
+        secondaryKey: sort.secondaryKey === column.sortKey ? undefined : sort.secondaryKey,
+      });
+    }
+  };
+
+  const handleDragStart = (e: DragEvent<HTMLElement>, id: ColumnId) => {
+    draggedColumnRef.current = id;
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', id);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLElement>, id: ColumnId) => {
+    e.preventDefault();
+    if (draggedColumnRef.current) {
+      moveColumn(draggedColumnRef.current, id);
+    }
+    draggedColumnRef.current = null;
+  };
+
+  return (
+    <div className="rounded-lg border border-border bg-card">
+      {/* Column settings */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-border text-sm">
+        <span className="text-foreground-secondary">{clients.length} clients</span>
+        <div className="relative" ref={menuRef}>
+          <button
+            onClick={() => setIsMenuOpen(!isMenuOpen)}
+            className="inline-flex items-center gap-1.5 px-2 py-1 rounded-md hover:bg-background-secondary transition-colors"
+          >
+            <Columns3 className="w-4 h-4" />
+            Columns
+          </button>
+
+          <AnimatePresence>
+            {isMenuOpen && (
+              <motion.div
+                className="absolute right-0 mt-2 w-48 bg-card border border-border rounded-lg shadow-lg z-30 p-2 space-y-1"
+                initial={{ opacity: 0, y: -10, scale: 0.95 }}
+                animate={{ opacity: 1, y: 0, scale: 1 }}
+                exit={{ opacity: 0, y: -10, scale: 0.95 }}
+                transition={{ duration: 0.2 }}
+              >
+                {layout.order.map((id) => (
+                  <label
+                    key={id}
+                    className="flex items-center gap-2 px-2 py-1 rounded hover:bg-background-secondary"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={!layout.hidden.includes(id)}
+                      disabled={id === 'name'}
+                      onChange={() => toggleColumn(id)}
+                    />
+                    {COLUMNS_BY_ID.get(id)!.label}
+                  </label>
+                ))}
+                <button
+                  onClick={resetLayout}
+                  className="w-full text-left px-2 py-1 text-xs text-primary hover:text-primary/80"
+                >
+                  Reset columns
+                </button>
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto scrollbar-thin" role="table" aria-rowcount={clients.length}>
+        <div style={{ minWidth: totalWidth }}>
+          {/* Header */}
+          <div
+            role="row"
+            className="grid items-center border-b border-border bg-background-secondary text-xs font-semibold text-foreground-secondary select-none"
+            style={{ gridTemplateColumns, height: HEADER_HEIGHT }}
+          >
+            <div role="columnheader" aria-label="Compare" />
+            {visibleColumns.map((column) => (
+              <div
+                key={column.id}
+                role="columnheader"
+                className="relative h-full flex items-center min-w-0"
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => handleDrop(e, column.id)}
+                aria-sort={
+                  column.sortKey && sort.key === column.sortKey
+                    ? sort.direction === 'asc'
+                      ? 'ascending'
+                      : 'descending'
+                    : undefined
+                }
+              >
+                <span
+                  draggable
+                  onDragStart={(e) => handleDragStart(e, column.id)}
+                  onClick={() => handleHeaderClick(column)}
+                  className={cn(
+                    'flex-1 flex items-center gap-1 px-3 h-full min-w-0 cursor-grab',
+                    column.align === 'right' && 'justify-end',
+                    column.sortKey && 'hover:text-foreground'
+                  )}
+                  title={column.sortKey ? 'Click to sort, drag to reorder' : 'Drag to reorder'}
+                >
+                  <GripVertical className="w-3 h-3 shrink-0 opacity-40" />
+                  <span className="truncate">{column.label}</span>
+                  {column.sortKey &&
+                    sort.key === column.sortKey &&
+                    (sort.direction === 'asc' ? (
+                      <ArrowUp className="w-3 h-3 shrink-0" />
+                    ) : (
+                      <ArrowDown className="w-3 h-3 shrink-0" />
+                    ))}
+                </span>
+                <div
+                  onPointerDown={(e) => handleResizeStart(e, column)}
+                  className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-primary/50"
+                  aria-hidden
+                />
+              </div>
+            ))}
+          </div>
+
+          <List
+            rowComponent={TableRow}
+            rowCount={clients.length}
+            rowHeight={ROW_HEIGHT}
+            rowProps={{
+              clients,
+              columns: visibleColumns,
+              gridTemplateColumns,
+              onClientClick,
+              alertCounts,
+            }}
+            overscanCount={5}
+            defaultHeight={height}
+            className="scrollbar-thin"
+            style={{ height: Math.min(height, clients.length * ROW_HEIGHT + 2) }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import Link from 'next/link';
+import { motion, AnimatePresence } from 'framer-motion';
+import { GitCompare, X } from 'lucide-react';
+import { ClientSummary } from '@/lib/api-client';
+import { MAX_COMPARE_CLIENTS, MIN_COMPARE_CLIENTS, getCompareHref } from '@/lib/compare';
+import {
+  clearCompareSelection,
+  toggleCompareClient,
+  useCompareSelection,
+} from '@/lib/use-compare-selection';
+import { cn } from '@/lib/utils';
+
+interface CompareBarProps {
+  clients: ClientSummary[];
+  timeRange?: string;
+}
+
+/**
+ * CompareBar Component
+ * Floating bar listing the clients selected for comparison
+ */
+export function CompareBar({ clients, timeRange }: CompareBarProps) {
+  const selection = useCompareSelection();
+  const canCompare = selection.length >= MIN_COMPARE_CLIENTS;
+  const names = new Map(clients.map((c) => [c.clientId, c.clientName]));
+
+  return (
+    <AnimatePresence>
+      {selection.length > 0 && (
+        <motion.div
+          className="fixed inset-x-4 bottom-4 z-40 mx-auto max-w-3xl print:hidden"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          transition={{ duration: 0.2 }}
+        >
+          <div className="flex items-center gap-3 rounded-xl border border-border bg-card px-4 py-3 shadow-lg">
+            <div className="flex-1 flex flex-wrap items-center gap-1.5 min-w-0">
+              <span className="text-sm text-foreground-secondary mr-1">
+                {selection.length}/{MAX_COMPARE_CLIENTS} selected
+              </span>
+              {selection.map((id) => (
+                <span
+                  key={id}
+                  className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-background-secondary"
+                >
+                  <span className="truncate max-w-[8rem]">{names.get(id) ?? id}</span>
+                  <button
+                    onClick={() => toggleCompareClient(id)}
+                    className="hover:text-danger"
+                    aria-label={`Remove ${names.get(id) ?? id} from comparison`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+
+            <button
+              onClick={clearCompareSelection}
+              className="text-sm text-foreground-secondary hover:text-foreground"
+            >
+              Clear
+            </button>
+            <Link
+              href={canCompare ? getCompareHref(selection, timeRange) : '#'}
+              aria-disabled={!canCompare}
+              onClick={(e) => {
+                if (!canCompare) e.preventDefault();
+              }}
+              title={canCompare ? undefined : `Select at least ${MIN_COMPARE_CLIENTS} clients`}
+              className={cn(
+                'inline-flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium',
+                'bg-primary text-white transition-all duration-200',
+                canCompare ? 'hover:bg-primary/90' : 'opacity-50 cursor-not-allowed'
+              )}
+            >
+              <GitCompare className="w-4 h-4" />
+              Compare
+            </Link>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
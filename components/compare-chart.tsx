@@ -0,0 +1,163 @@
+'use client';
+
+import { memo } from 'react';
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  TooltipPayload,
+  TooltipPayloadEntry,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { AlignedPoint } from '@/lib/compare';
+import { formatChartTime } from '@/lib/time-range';
+import { cn, formatBytes } from '@/lib/utils';
+
+/**
+ * One compared client's line
+ */
+export interface CompareSeries {
+  key: string;
+  name: string;
+  color: string;
+  hidden?: boolean;
+}
+
+interface CompareChartProps {
+  title: string;
+  unit: 'percent' | 'speed';
+  data: AlignedPoint[];
+  series: CompareSeries[];
+  timeRange: string;
+  className?: string;
+}
+
+/**
+ * Charts sharing this id move their crosshair together, matched by timestamp
+ */
+const COMPARE_SYNC_ID = 'compare-clients';
+
+function formatValue(value: number, unit: CompareChartProps['unit']): string {
+  if (unit === 'percent') return `${value.toFixed(1)}%`;
+  return value >= 1 ? `${formatBytes(value, 1)}/s` : '0 B/s';
+}
+
+/**
+ * Props Recharts passes to the tooltip content, plus the chart's own
+ * The label is the hovered timestamp of the numeric time axis
+ */
+interface CompareTooltipProps {
+  active?: boolean;
+  payload?: TooltipPayload;
+  label?: number;
+  unit: CompareChartProps['unit'];
+  timeRange: string;
+}
+
+/**
+ * Tooltip listing every visible client at the hovered time, highest first
+ */
+function CompareTooltip({ active, payload, label, unit, timeRange }: CompareTooltipProps) {
+  if (!active || !payload || !payload.length || label === undefined) {
+    return null;
+  }
+
+  const rows = [...payload]
+    .filter(
+      (entry): entry is TooltipPayloadEntry & { value: number } => typeof entry.value === 'number'
+    )
+    .sort((a, b) => b.value - a.value);
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-3 shadow-lg text-sm">
+      <p className="font-medium mb-2">{formatChartTime(label, timeRange)}</p>
+      {rows.map((entry) => (
+        <div key={String(entry.dataKey)} className="flex items-center gap-2">
+          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: entry.color }} />
+          <span className="text-foreground-secondary truncate max-w-[10rem]">{entry.name}</span>
+          <span className="ml-auto pl-3 font-semibold tabular-nums">
+            {formatValue(entry.value, unit)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * CompareChart Component
+ * Overlays one metric for several clients on shared axes
+ */
+export const CompareChart = memo(function CompareChart({
+  title,
+  unit,
+  data,
+  series,
+  timeRange,
+  className,
+}: CompareChartProps) {
+  return (
+    <div className={cn('rounded-lg border border-border bg-card p-6', className)}>
+      <h3 className="text-lg font-semibold mb-4">{title}</h3>
+
+      {data.length === 0 ? (
+        <div className="flex items-center justify-center h-[260px]">
+          <p className="text-foreground-secondary text-sm">No historical data available</p>
+        </div>
+      ) : (
+        <ResponsiveContainer width="100%" height={260}>
+          <LineChart
+            data={data}
+            syncId={COMPARE_SYNC_ID}
+            syncMethod="value"
+            margin={{ top: 5, right: 20, left: 10, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke="rgb(var(--border))" opacity={0.3} />
+            <XAxis
+              dataKey="timestamp"
+              type="number"
+              scale="time"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={(value) => formatChartTime(value, timeRange)}
+              stroke="rgb(var(--foreground-secondary))"
+              tick={{ fill: 'rgb(var(--foreground-secondary))', fontSize: 12 }}
+              tickLine={{ stroke: 'rgb(var(--border))' }}
+            />
+            <YAxis
+              domain={unit === 'percent' ? [0, 100] : [0, 'auto']}
+              tickFormatter={(value) =>
+                unit === 'percent' ? `${value}%` : value >= 1 ? formatBytes(value, 0) : '0'
+              }
+              stroke="rgb(var(--foreground-secondary))"
+              tick={{ fill: 'rgb(var(--foreground-secondary))', fontSize: 12 }}
+              tickLine={{ stroke: 'rgb(var(--border))' }}
+              width={unit === 'percent' ? 48 : 72}
+            />
+            <Tooltip
+              content={<CompareTooltip unit={unit} timeRange={timeRange} />}
+              cursor={{ stroke: 'rgb(var(--foreground-secondary))', strokeWidth: 1 }}
+              animationDuration={0}
+            />
+            {series.map((s) => (
+              <Line
+                key={s.key}
+                type="monotone"
+                dataKey={s.key}
+                name={s.name}
+                stroke={s.color}
+                strokeWidth={2}
+                dot={false}
+                hide={s.hidden}
+                connectNulls
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,32 @@
+'use client';
+
+import { MAX_COMPARE_CLIENTS } from '@/lib/compare';
+import { toggleCompareClient, useIsCompareSelected } from '@/lib/use-compare-selection';
+import { cn } from '@/lib/utils';
+
+interface CompareCheckboxProps {
+  clientId: string;
+  clientName: string;
+  className?: string;
+}
+
+/**
+ * CompareCheckbox Component
+ * Adds a client to the comparison selection without opening it
+ */
+export function CompareCheckbox({ clientId, clientName, className }: CompareCheckboxProps) {
+  const selected = useIsCompareSelected(clientId);
+
+  return (
+    <input
+      type="checkbox"
+      checked={selected}
+      onChange={() => toggleCompareClient(clientId)}
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => e.stopPropagation()}
+      aria-label={`Compare ${clientName}`}
+      title={`Select 2-${MAX_COMPARE_CLIENTS} clients to compare`}
+      className={cn('h-4 w-4 cursor-pointer accent-primary', className)}
+    />
+  );
+}
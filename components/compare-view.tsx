@@ -0,0 +1,244 @@
+'use client';
+
+import { useCallback, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, Eye, EyeOff, Loader2 } from 'lucide-react';
+import { ClientDetail, DynamicSystemStatus, apiClient } from '@/lib/api-client';
+import { UserFriendlyError, handleApiError, logError } from '@/lib/error-handler';
+import {
+  COMPARE_COLORS,
+  COMPARE_METRICS,
+  MIN_COMPARE_CLIENTS,
+  alignSeries,
+  getCompareHref,
+  getSeriesKey,
+} from '@/lib/compare';
+import { getClientPageHref } from '@/lib/use-dashboard-url-state';
+import { TIME_RANGE_OPTIONS, resolveTimeRange } from '@/lib/time-range';
+import { cn } from '@/lib/utils';
+import { Header } from './header';
+import { Container } from './container';
+import { ErrorDisplay } from './error-display';
+import { TimeRangeSelector } from './time-range-selector';
+import { CompareChart, CompareSeries } from './compare-chart';
+
+/**
+ * Time window the histories were fetched for
+ */
+export interface CompareWindow {
+  startTime: number;
+  endTime: number;
+}
+
+/**
+ * Props for CompareView component
+ */
+export interface CompareViewProps {
+  clientIds: string[];
+  initialDetails: ClientDetail[];
+  /**
+   * Histories in the order of clientIds
+   */
+  initialHistories: DynamicSystemStatus[][];
+  initialWindow: CompareWindow;
+  initialTimeRange: string;
+  error: UserFriendlyError | null;
+}
+
+/**
+ * CompareView Component
+ * Interactive part of the /compare page: overlaid history charts for several clients
+ * with a shared legend and a crosshair synchronized across charts
+ */
+export function CompareView({
+  clientIds,
+  initialDetails,
+  initialHistories,
+  initialWindow,
+  initialTimeRange,
+  error: initialError,
+}: CompareViewProps) {
+  const router = useRouter();
+  const [timeRange, setTimeRange] = useState(initialTimeRange);
+  const [histories, setHistories] = useState(initialHistories);
+  const [timeWindow, setTimeWindow] = useState(initialWindow);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(initialError);
+  const [hiddenIds, setHiddenIds] = useState<string[]>([]);
+
+  // Only the latest range change may apply its results
+  const requestIdRef = useRef(0);
+
+  const names = useMemo(
+    () => new Map(initialDetails.map((d) => [d.clientId, d.clientName])),
+    [initialDetails]
+  );
+  const missingIds = clientIds.filter((id) => !names.has(id));
+
+  const series: CompareSeries[] = useMemo(
+    () =>
+      clientIds.map((id, index) => ({
+        key: getSeriesKey(index),
+        name: names.get(id) ?? id,
+        color: COMPARE_COLORS[index % COMPARE_COLORS.length],
+        hidden: hiddenIds.includes(id),
+      })),
+    [clientIds, names, hiddenIds]
+  );
+
+  const chartData = useMemo(
+    () =>
+      COMPARE_METRICS.map((option) => ({
+        ...option,
+        data: alignSeries(histories, option.metric, timeWindow.startTime, timeWindow.endTime),
+      })),
+    [histories, timeWindow]
+  );
+
+  const handleTimeRangeChange = useCallback(
+    async (range: string) => {
+      setTimeRange(range);
+      router.replace(getCompareHref(clientIds, range), { scroll: false });
+
+      const requestId = ++requestIdRef.current;
+      const { startTime, endTime } = resolveTimeRange(range);
+      setLoading(true);
+      const results = await Promise.allSettled(
+        clientIds.map((id) => apiClient.fetchClientHistory(id, { startTime, endTime }))
+      );
+      if (requestId !== requestIdRef.current) return;
+
+      const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+      if (failed) {
+        logError(failed.reason, 'CompareView');
+        setError(handleApiError(failed.reason));
+      } else {
+        setError(null);
+      }
+      setHistories(results.map((r) => (r.status === 'fulfilled' ? r.value : [])));
+      setTimeWindow({ startTime, endTime });
+      setLoading(false);
+    },
+    [clientIds, router]
+  );
+
+  const toggleSeries = (clientId: string) => {
+    setHiddenIds((prev) =>
+      prev.includes(clientId) ? prev.filter((id) => id !== clientId) : [...prev, clientId]
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header
+        actions={
+          <Link
+            href="/"
+            className="flex items-center gap-1 rounded-lg px-3 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Dashboard
+          </Link>
+        }
+      />
+
+      <main className="py-8">
+        <Container>
+          {clientIds.length < MIN_COMPARE_CLIENTS ? (
+            <div className="text-center py-20">
+              <p className="text-foreground-secondary text-lg mb-2">
+                Select at least {MIN_COMPARE_CLIENTS} clients on the dashboard to compare them
+              </p>
+              <Link href="/" className="text-primary hover:text-primary/80 text-sm">
+                Back to dashboard
+              </Link>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between gap-4 flex-wrap mb-6">
+                <div>
+                  <h2 className="text-2xl font-bold">Compare clients</h2>
+                  {missingIds.length > 0 && (
+                    <p className="text-sm text-warning mt-1">
+                      Could not load: {missingIds.join(', ')}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-3">
+                  {loading && <Loader2 className="w-4 h-4 animate-spin text-primary" />}
+                  <TimeRangeSelector
+                    availableTimeRanges={TIME_RANGE_OPTIONS}
+                    selectedRange={timeRange}
+                    onRangeChange={handleTimeRangeChange}
+                    clientId={null}
+                  />
+                </div>
+              </div>
+
+              {error && (
+                <div className="mb-6">
+                  <ErrorDisplay error={error} onRetry={() => handleTimeRangeChange(timeRange)} />
+                </div>
+              )}
+
+              {/* Shared legend; click to hide or show a client in every chart */}
+              <div className="flex flex-wrap gap-2 mb-6">
+                {clientIds.map((id, index) => {
+                  const hidden = hiddenIds.includes(id);
+                  return (
+                    <div
+                      key={id}
+                      className={cn(
+                        'inline-flex items-center gap-2 rounded-full border border-border bg-card pl-3 pr-1 py-1 text-sm',
+                        hidden && 'opacity-50'
+                      )}
+                    >
+                      <span
+                        className="w-3 h-3 rounded-full"
+                        style={{ backgroundColor: series[index].color }}
+                      />
+                      <Link
+                        href={getClientPageHref(id, undefined, timeRange)}
+                        className="hover:text-primary"
+                      >
+                        {series[index].name}
+                      </Link>
+                      <button
+                        onClick={() => toggleSeries(id)}
+                        className="p-1 rounded-full hover:bg-background-secondary"
+                        aria-label={
+                          hidden ? `Show ${series[index].name}` : `Hide ${series[index].name}`
+                        }
+                        aria-pressed={!hidden}
+                      >
+                        {hidden ? (
+                          <EyeOff className="w-3.5 h-3.5" />
+                        ) : (
+                          <Eye className="w-3.5 h-3.5" />
+                        )}
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="grid grid-cols-1 desktop:grid-cols-2 gap-6">
+                {chartData.map(({ metric, label, unit, data }) => (
+                  <CompareChart
+                    key={metric}
+                    title={label}
+                    unit={unit}
+                    data={data}
+                    series={series}
+                    timeRange={timeRange}
+                  />
+                ))}
+              </div>
+            </>
+          )}
+        </Container>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+'use client';
+
+import { memo, useMemo } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  TooltipPayload,
+  TooltipPayloadEntry,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { COMPARE_COLORS } from '@/lib/compare';
+import { SeriesRow } from '@/lib/downsample';
+import { DiskSeries } from '@/lib/disk-trend';
+import { formatChartTime } from '@/lib/time-range';
+import { useDownsampledRows } from '@/lib/use-downsampled-rows';
+import { useElementWidth } from '@/lib/use-element-width';
+import { cn } from '@/lib/utils';
+
+interface DiskHistoryChartProps {
+  series: DiskSeries[];
+  timeRange: string;
+  className?: string;
+}
+
+function getLineKey(index: number): string {
+  return `d${index}`;
+}
+
+/**
+ * Rows keyed by timestamp with each disk's usage percent under its line key
+ */
+function buildRows(series: DiskSeries[]): SeriesRow[] {
+  const rows = new Map<number, SeriesRow>();
+  series.forEach((disk, index) => {
+    disk.samples.forEach((sample) => {
+      if (!rows.has(sample.timestamp)) {
+        rows.set(sample.timestamp, { timestamp: sample.timestamp });
+      }
+      rows.get(sample.timestamp)![getLineKey(index)] = sample.usagePercent;
+    });
+  });
+  return Array.from(rows.values()).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Props Recharts passes to the tooltip content, plus the chart's time range
+ * The label is the hovered timestamp of the numeric time axis
+ */
+interface DiskTooltipProps {
+  active?: boolean;
+  payload?: TooltipPayload;
+  label?: number;
+  timeRange: string;
+}
+
+/**
+ * Tooltip listing every disk at the hovered time, fullest first
+ */
+function DiskTooltip({ active, payload, label, timeRange }: DiskTooltipProps) {
+  if (!active || !payload || !payload.length || label === undefined) {
+    return null;
+  }
+
+  const rows = [...payload]
+    .filter(
+      (entry): entry is TooltipPayloadEntry & { value: number } => typeof entry.value === 'number'
+    )
+    .sort((a, b) => b.value - a.value);
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-3 shadow-lg text-sm">
+      <p className="font-medium mb-2">{formatChartTime(label, timeRange)}</p>
+      {rows.map((entry) => (
+        <div key={String(entry.dataKey)} className="flex items-center gap-2">
+          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: entry.color }} />
+          <span className="text-foreground-secondary truncate max-w-[12rem]">{entry.name}</span>
+          <span className="ml-auto pl-3 font-semibold tabular-nums">{entry.value.toFixed(1)}%</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * DiskHistoryChart Component
+ * Usage history with one line per device/mountpoint
+ */
+export const DiskHistoryChart = memo(function DiskHistoryChart({
+  series,
+  timeRange,
+  className,
+}: DiskHistoryChartProps) {
+  const [containerRef, width] = useElementWidth<HTMLDivElement>();
+  const rows = useMemo(() => buildRows(series), [series]);
+  const keys = useMemo(() => series.map((_, index) => getLineKey(index)), [series]);
+  const { rows: chartData } = useDownsampledRows(
+    rows,
+    keys,
+    'lttb',
+    Math.max((width || 800) - 80, 100)
+  );
+
+  return (
+    <div className={cn('rounded-lg border border-border bg-card p-6', className)}>
+      <h3 className="text-lg font-semibold mb-4">Disk Usage History</h3>
+
+      {rows.length === 0 ? (
+        <div className="flex items-center justify-center h-[260px]">
+          <p className="text-foreground-secondary text-sm">No historical data available</p>
+        </div>
+      ) : (
+        <div ref={containerRef}>
+          <ResponsiveContainer width="100%" height={260}>
+            <LineChart data={chartData} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgb(var(--border))" opacity={0.3} />
+              <XAxis
+                dataKey="timestamp"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={(value) => formatChartTime(value, timeRange)}
+                stroke="rgb(var(--foreground-secondary))"
+                tick={{ fill: 'rgb(var(--foreground-secondary))', fontSize: 12 }}
+                tickLine={{ stroke: 'rgb(var(--border))' }}
+              />
+              <YAxis
+                domain={[0, 100]}
+                tickFormatter={(value) => `${value}%`}
+                stroke="rgb(var(--foreground-secondary))"
+                tick={{ fill: 'rgb(var(--foreground-secondary))', fontSize: 12 }}
+                tickLine={{ stroke: 'rgb(var(--border))' }}
+                width={48}
+              />
+              <Tooltip
+                content={<DiskTooltip timeRange={timeRange} />}
+                cursor={{ stroke: 'rgb(var(--foreground-secondary))', strokeWidth: 1 }}
+                animationDuration={0}
+              />
+              <Legend
+                wrapperStyle={{ paddingTop: '12px' }}
+                iconType="line"
+                formatter={(value) => (
+                  <span style={{ color: 'rgb(var(--foreground))' }}>{value}</span>
+                )}
+              />
+              {series.map((disk, index) => (
+                <Line
+                  key={disk.key}
+                  type="monotone"
+                  dataKey={getLineKey(index)}
+                  name={disk.label}
+                  stroke={COMPARE_COLORS[index % COMPARE_COLORS.length]}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                  isAnimationActive={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+});
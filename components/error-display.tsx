@@ -5,8 +5,9 @@
 
 'use client';
 
-import { AlertCircle, RefreshCw, WifiOff, Clock, ServerCrash } from 'lucide-react';
+import { AlertCircle, RefreshCw, WifiOff, Clock, ServerCrash, Lock, LogIn } from 'lucide-react';
 import { UserFriendlyError, ErrorType } from '@/lib/error-handler';
+import { authProvider } from '@/lib/auth';
 
 interface ErrorDisplayProps {
   error: UserFriendlyError;
@@ -25,15 +26,29 @@ function getErrorIcon(type: ErrorType) {
       return <Clock className="h-8 w-8" />;
     case ErrorType.SERVER:
       return <ServerCrash className="h-8 w-8" />;
+    case ErrorType.AUTH:
+      return <Lock className="h-8 w-8" />;
     default:
       return <AlertCircle className="h-8 w-8" />;
   }
 }
 
+/**
+ * Start the interactive sign-in, when the configured provider has one
+ */
+function getSignInHandler(error: UserFriendlyError): (() => void) | null {
+  if (error.type !== ErrorType.AUTH || !authProvider?.signIn) return null;
+  return () => {
+    authProvider?.signIn?.();
+  };
+}
+
 /**
  * Error Display Component
  */
 export function ErrorDisplay({ error, onRetry, className = '' }: ErrorDisplayProps) {
+  const handleSignIn = getSignInHandler(error);
+
   return (
     <div
       className={`flex flex-col items-center justify-center p-8 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-950/20 ${className}`}
@@ -55,6 +70,16 @@ export function ErrorDisplay({ error, onRetry, className = '' }: ErrorDisplayPro
           Retry
         </button>
       )}
+
+      {handleSignIn && (
+        <button
+          onClick={handleSignIn}
+          className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 dark:bg-red-700 dark:hover:bg-red-600 text-white rounded-md transition-colors"
+        >
+          <LogIn className="h-4 w-4" />
+          Sign in again
+        </button>
+      )}
     </div>
   );
 }
@@ -63,6 +88,8 @@ export function ErrorDisplay({ error, onRetry, className = '' }: ErrorDisplayPro
  * Inline Error Display (smaller version)
  */
 export function InlineErrorDisplay({ error, onRetry, className = '' }: ErrorDisplayProps) {
+  const handleSignIn = getSignInHandler(error);
+
   return (
     <div
       className={`flex items-center gap-3 p-4 rounded-md border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-950/20 ${className}`}
@@ -85,6 +112,16 @@ export function InlineErrorDisplay({ error, onRetry, className = '' }: ErrorDisp
           <RefreshCw className="h-4 w-4" />
         </button>
       )}
+
+      {handleSignIn && (
+        <button
+          onClick={handleSignIn}
+          className="flex-shrink-0 p-2 text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 transition-colors"
+          title="Sign in again"
+        >
+          <LogIn className="h-4 w-4" />
+        </button>
+      )}
     </div>
   );
 }
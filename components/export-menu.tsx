@@ -0,0 +1,148 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Download, Loader2 } from 'lucide-react';
+import {
+  DATA_EXPORT_FORMATS,
+  DataExportFormat,
+  ExportSeries,
+  IMAGE_EXPORT_FORMATS,
+  ImageExportFormat,
+  downloadChartSnapshot,
+  downloadHistory,
+} from '@/lib/export';
+import { cn } from '@/lib/utils';
+
+interface ExportMenuProps {
+  /**
+   * File name without extension
+   */
+  baseName: string;
+  /**
+   * History to export; may fetch it first
+   */
+  loadSeries: () => ExportSeries[] | Promise<ExportSeries[]>;
+  /**
+   * Chart container and title for PNG/SVG snapshots
+   */
+  chart?: { element: HTMLElement | null; title: string };
+  label?: string;
+  className?: string;
+}
+
+/**
+ * ExportMenu Component
+ * Dropdown exporting history as CSV, NDJSON or OpenMetrics, and the chart as PNG or SVG
+ */
+export function ExportMenu({ baseName, loadSeries, chart, label, className }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const run = async (task: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await task();
+      setIsOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDataExport = (format: DataExportFormat) =>
+    run(async () => {
+      const series = await loadSeries();
+      if (series.every((entry) => entry.history.length === 0)) {
+        throw new Error('No history in the selected range');
+      }
+      downloadHistory(series, format, baseName);
+    });
+
+  const handleImageExport = (format: ImageExportFormat) =>
+    run(async () => {
+      if (!chart?.element) throw new Error('No chart to export');
+      await downloadChartSnapshot(chart.element, chart.title, format, baseName);
+    });
+
+  const itemClassName =
+    'w-full text-left px-2 py-1 rounded hover:bg-background-secondary disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className={cn('relative print:hidden', className)} ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={cn(
+          'inline-flex items-center gap-1.5 rounded-md transition-colors',
+          label
+            ? 'px-4 py-2 text-sm font-medium bg-card border border-border hover:bg-card-hover'
+            : 'p-1.5 hover:bg-background-secondary'
+        )}
+        aria-label="Export"
+        aria-expanded={isOpen}
+        title="Export"
+      >
+        {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        {label}
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            className="absolute right-0 mt-2 w-48 bg-card border border-border rounded-lg shadow-lg z-30 p-2 space-y-1 text-sm"
+            initial={{ opacity: 0, y: -10, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -10, scale: 0.95 }}
+            transition={{ duration: 0.2 }}
+          >
+            <p className="px-2 pt-1 text-xs font-semibold text-foreground-secondary">Data</p>
+            {DATA_EXPORT_FORMATS.map((format) => (
+              <button
+                key={format.value}
+                onClick={() => handleDataExport(format.value)}
+                disabled={isBusy}
+                className={itemClassName}
+              >
+                {format.label}
+              </button>
+            ))}
+
+            {chart && (
+              <>
+                <p className="px-2 pt-2 text-xs font-semibold text-foreground-secondary">Chart</p>
+                {IMAGE_EXPORT_FORMATS.map((format) => (
+                  <button
+                    key={format.value}
+                    onClick={() => handleImageExport(format.value)}
+                    disabled={isBusy}
+                    className={itemClassName}
+                  >
+                    {format.label}
+                  </button>
+                ))}
+              </>
+            )}
+
+            {error && <p className="px-2 pt-1 text-xs text-danger">{error}</p>}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -2,12 +2,15 @@
 
 import { useEffect, useState } from 'react';
 import { useTheme } from './theme-provider';
+import { useUnhealthyCount } from '@/lib/favicon-badge';
 
 /**
  * Dynamic favicon component that changes color based on theme and network status
+ * Shows a badge with the number of unhealthy clients published by the dashboard
  */
 export function FaviconManager() {
   const { theme } = useTheme();
+  const unhealthyCount = useUnhealthyCount();
   const [isOnline, setIsOnline] = useState(navigator.onLine);
 
   // Listen for network status changes
@@ -40,6 +43,16 @@ export function FaviconManager() {
       fillColor = '#2563EB'; // Dark blue for light mode
     }
 
+    // Badge with unhealthy client count in the top-right corner
+    const badgeText = unhealthyCount > 99 ? '99+' : String(unhealthyCount);
+    const badge =
+      unhealthyCount > 0
+        ? `
+        <circle cx="11.5" cy="4.5" r="4.5" fill="#EF4444" />
+        <text x="11.5" y="6.4" text-anchor="middle" font-family="Arial, sans-serif" font-weight="bold"
+          font-size="${badgeText.length > 1 ? 4.2 : 5.6}" fill="#FFFFFF">${badgeText}</text>`
+        : '';
+
     // SVG content with dynamic fill color
     const svgContent = `
       <svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 16 16">
@@ -48,7 +61,7 @@ export function FaviconManager() {
           fill-rule="evenodd" 
           d="M7.999 1a.75.75 0 0 1 .715.521L12 11.79l1.286-4.018A.75.75 0 0 1 14 7.25h1.25a.75.75 0 0 1 0 1.5h-.703l-1.833 5.729a.75.75 0 0 1-1.428 0L8.005 4.226l-2.29 7.25a.75.75 0 0 1-1.42.03L3.031 8.03l-.07.208a.75.75 0 0 1-.711.513H.75a.75.75 0 0 1 0-1.5h.96l.578-1.737a.75.75 0 0 1 1.417-.02L4.95 8.919l2.335-7.394A.75.75 0 0 1 7.999 1" 
           clip-rule="evenodd"
-        />
+        />${badge}
       </svg>
     `;
 
@@ -66,7 +79,7 @@ export function FaviconManager() {
     if (appleIcon) {
       appleIcon.href = dataUrl;
     }
-  }, [theme, isOnline]);
+  }, [theme, isOnline, unhealthyCount]);
 
   return null;
 }
\ No newline at end of file
@@ -0,0 +1,420 @@
+'use client';
+
+import { KeyboardEvent, MouseEvent, memo, useEffect, useMemo, useRef, useState } from 'react';
+import { ClientSummary } from '@/lib/api-client';
+import {
+  getHeatmapGroupOptions,
+  HEATMAP_METRICS,
+  HeatmapGroupBy,
+  HeatmapMetric,
+  formatHeatmapValue,
+  getHeatmapIntensity,
+  getHeatmapScaleMax,
+  getHeatmapValue,
+} from '@/lib/heatmap';
+import { useElementWidth } from '@/lib/use-element-width';
+import { cn } from '@/lib/utils';
+import { getPlatformDisplayName, getSortedGroups } from './group-view';
+import { useTheme } from './theme-provider';
+
+interface FleetHeatmapProps {
+  clients: ClientSummary[];
+  metric: HeatmapMetric;
+  onMetricChange: (metric: HeatmapMetric) => void;
+  groupBy: HeatmapGroupBy;
+  onGroupByChange: (groupBy: HeatmapGroupBy) => void;
+  onClientClick: (clientId: string) => void;
+}
+
+const TILE_SIZE = 16;
+const TILE_GAP = 2;
+const TILE_STEP = TILE_SIZE + TILE_GAP;
+
+/**
+ * Width of the hover card, used to keep it inside the canvas
+ */
+const TOOLTIP_WIDTH = 220;
+
+type Rgb = [number, number, number];
+
+interface HeatmapColors {
+  low: Rgb;
+  mid: Rgb;
+  high: Rgb;
+  empty: Rgb;
+  offline: Rgb;
+  outline: Rgb;
+}
+
+/**
+ * Theme colors from the CSS variables, which hold space-separated RGB channels
+ */
+function readHeatmapColors(): HeatmapColors {
+  const style = window.getComputedStyle(document.documentElement);
+  const read = (name: string): Rgb => {
+    const channels = style.getPropertyValue(name).trim().split(/\s+/).map(Number);
+    return channels.length === 3 && channels.every(Number.isFinite)
+      ? (channels as Rgb)
+      : [128, 128, 128];
+  };
+
+  return {
+    low: read('--success'),
+    mid: read('--warning'),
+    high: read('--danger'),
+    empty: read('--border'),
+    offline: read('--foreground-secondary'),
+    outline: read('--foreground'),
+  };
+}
+
+function mix(a: Rgb, b: Rgb, t: number): string {
+  const channel = (i: number) => Math.round(a[i] + (b[i] - a[i]) * t);
+  return `rgb(${channel(0)}, ${channel(1)}, ${channel(2)})`;
+}
+
+/**
+ * Green to amber to red as intensity rises
+ */
+function getScaleColor(colors: HeatmapColors, intensity: number): string {
+  return intensity <= 0.5
+    ? mix(colors.low, colors.mid, intensity * 2)
+    : mix(colors.mid, colors.high, (intensity - 0.5) * 2);
+}
+
+function toCss([r, g, b]: Rgb, alpha = 1): string {
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+/**
+ * HeatmapTooltip Component
+ * Details of the hovered tile
+ */
+function HeatmapTooltip({
+  client,
+  metric,
+  left,
+  top,
+}: {
+  client: ClientSummary;
+  metric: HeatmapMetric;
+  left: number;
+  top: number;
+}) {
+  const metricLabel = HEATMAP_METRICS.find((option) => option.metric === metric)?.label;
+
+  return (
+    <div
+      className="absolute z-10 pointer-events-none rounded-md border border-border bg-card p-3 text-xs shadow-lg"
+      style={{ left, top, width: TOOLTIP_WIDTH }}
+      role="tooltip"
+    >
+      <div className="flex items-center gap-2 mb-1">
+        <span
+          className={cn(
+            'w-2 h-2 rounded-full shrink-0',
+            client.status === 'online'
+              ? 'bg-success'
+              : client.status === 'stale'
+                ? 'bg-warning'
+                : 'bg-danger'
+          )}
+        />
+        <span className="font-semibold truncate">{client.clientName}</span>
+      </div>
+      <p className="text-foreground-secondary truncate mb-2">
+        {client.hostname} · {client.platform}
+      </p>
+      <p>
+        <span className="text-foreground-secondary">{metricLabel}: </span>
+        <span className="font-semibold tabular-nums">
+          {formatHeatmapValue(getHeatmapValue(client, metric), metric)}
+        </span>
+      </p>
+      {metric !== 'cpu' && (
+        <p>
+          <span className="text-foreground-secondary">CPU: </span>
+          <span className="tabular-nums">
+            {formatHeatmapValue(getHeatmapValue(client, 'cpu'), 'cpu')}
+          </span>
+        </p>
+      )}
+      {metric !== 'memory' && (
+        <p>
+          <span className="text-foreground-secondary">Memory: </span>
+          <span className="tabular-nums">
+            {formatHeatmapValue(getHeatmapValue(client, 'memory'), 'memory')}
+          </span>
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * HeatmapCanvas Component
+ * Draws one tile per client on a canvas, so thousands of clients cost a single element
+ * Arrow keys move between tiles and Enter opens the highlighted client
+ */
+const HeatmapCanvas = memo(function HeatmapCanvas({
+  clients,
+  metric,
+  scaleMax,
+  label,
+  onClientClick,
+}: {
+  clients: ClientSummary[];
+  metric: HeatmapMetric;
+  scaleMax: number;
+  label: string;
+  onClientClick: (clientId: string) => void;
+}) {
+  const { theme } = useTheme();
+  const [containerRef, width] = useElementWidth<HTMLDivElement>();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+
+  const columns = Math.max(1, Math.floor((width + TILE_GAP) / TILE_STEP));
+  const rows = Math.ceil(clients.length / columns);
+  const height = Math.max(rows * TILE_STEP - TILE_GAP, 0);
+
+  // Drawn in the next frame so theme classes applied in the same commit are picked up
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) return;
+
+    const frame = requestAnimationFrame(() => {
+      const context = canvas.getContext('2d');
+      if (!context) return;
+
+      const colors = readHeatmapColors();
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.round(width * ratio);
+      canvas.height = Math.round(height * ratio);
+      context.setTransform(ratio, 0, 0, ratio, 0, 0);
+      context.clearRect(0, 0, width, height);
+
+      clients.forEach((client, index) => {
+        const x = (index % columns) * TILE_STEP;
+        const y = Math.floor(index / columns) * TILE_STEP;
+        const value = getHeatmapValue(client, metric);
+
+        if (client.status === 'offline') {
+          context.fillStyle = toCss(colors.offline, 0.35);
+        } else if (value === null) {
+          context.fillStyle = toCss(colors.empty);
+        } else {
+          context.fillStyle = getScaleColor(colors, getHeatmapIntensity(value, metric, scaleMax));
+        }
+        // Stale data keeps its colour, faded
+        context.globalAlpha = client.status === 'stale' ? 0.45 : 1;
+        context.fillRect(x, y, TILE_SIZE, TILE_SIZE);
+        context.globalAlpha = 1;
+      });
+
+      if (activeIndex !== null && activeIndex < clients.length) {
+        context.strokeStyle = toCss(colors.outline);
+        context.lineWidth = 2;
+        context.strokeRect(
+          (activeIndex % columns) * TILE_STEP + 1,
+          Math.floor(activeIndex / columns) * TILE_STEP + 1,
+          TILE_SIZE - 2,
+          TILE_SIZE - 2
+        );
+      }
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [clients, metric, scaleMax, width, height, columns, activeIndex, theme]);
+
+  const getIndexAt = (event: MouseEvent<HTMLCanvasElement>): number | null => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = event.clientX - rect.left;
+    const y = event.clientY - rect.top;
+    // Points in the gaps between tiles hit nothing
+    if (x % TILE_STEP > TILE_SIZE || y % TILE_STEP > TILE_SIZE) return null;
+
+    const column = Math.floor(x / TILE_STEP);
+    const index = Math.floor(y / TILE_STEP) * columns + column;
+    return column < columns && index >= 0 && index < clients.length ? index : null;
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLCanvasElement>) => {
+    const current = activeIndex ?? 0;
+    const moves: Record<string, number> = {
+      ArrowLeft: -1,
+      ArrowRight: 1,
+      ArrowUp: -columns,
+      ArrowDown: columns,
+    };
+
+    if (event.key in moves) {
+      event.preventDefault();
+      const next = activeIndex === null ? 0 : current + moves[event.key];
+      setActiveIndex(Math.min(Math.max(next, 0), clients.length - 1));
+    } else if ((event.key === 'Enter' || event.key === ' ') && activeIndex !== null) {
+      event.preventDefault();
+      onClientClick(clients[activeIndex].clientId);
+    }
+  };
+
+  const activeClient = activeIndex !== null ? clients[activeIndex] : undefined;
+  const tileLeft = activeIndex !== null ? (activeIndex % columns) * TILE_STEP : 0;
+  const tileTop = activeIndex !== null ? Math.floor(activeIndex / columns) * TILE_STEP : 0;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <canvas
+        ref={canvasRef}
+        style={{ width, height }}
+        className={cn(
+          'block rounded-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-primary',
+          activeIndex !== null && 'cursor-pointer'
+        )}
+        tabIndex={0}
+        role="img"
+        aria-label={`${label}: ${clients.length} clients. Use the arrow keys to browse and Enter to open a client.`}
+        onMouseMove={(event) => setActiveIndex(getIndexAt(event))}
+        onMouseLeave={() => setActiveIndex(null)}
+        onBlur={() => setActiveIndex(null)}
+        onClick={(event) => {
+          const index = getIndexAt(event);
+          if (index !== null) onClientClick(clients[index].clientId);
+        }}
+        onKeyDown={handleKeyDown}
+      />
+      {activeClient && (
+        <HeatmapTooltip
+          client={activeClient}
+          metric={metric}
+          left={Math.max(
+            0,
+            tileLeft + TILE_STEP + TOOLTIP_WIDTH > width
+              ? tileLeft - TOOLTIP_WIDTH - TILE_GAP
+              : tileLeft + TILE_STEP
+          )}
+          top={tileTop + TILE_STEP}
+        />
+      )}
+    </div>
+  );
+});
+
+/**
+ * HeatmapLegend Component
+ * Colour scale of the chosen metric plus the offline and no-data swatches
+ */
+function HeatmapLegend({ metric, scaleMax }: { metric: HeatmapMetric; scaleMax: number }) {
+  return (
+    <div className="flex items-center gap-4 flex-wrap text-xs text-foreground-secondary">
+      <div className="flex items-center gap-2">
+        <span className="tabular-nums">{formatHeatmapValue(0, metric)}</span>
+        <span
+          className="h-2 w-32 rounded-full"
+          style={{
+            background:
+              'linear-gradient(to right, rgb(var(--success)), rgb(var(--warning)), rgb(var(--danger)))',
+          }}
+        />
+        <span className="tabular-nums">{formatHeatmapValue(scaleMax, metric)}</span>
+      </div>
+      <span className="inline-flex items-center gap-1">
+        <span className="w-3 h-3 rounded-sm bg-warning/45" />
+        Stale
+      </span>
+      <span className="inline-flex items-center gap-1">
+        <span className="w-3 h-3 rounded-sm bg-foreground-secondary/35" />
+        Offline
+      </span>
+      <span className="inline-flex items-center gap-1">
+        <span className="w-3 h-3 rounded-sm bg-border" />
+        No data
+      </span>
+    </div>
+  );
+}
+
+/**
+ * FleetHeatmap Component
+ * Every client as a small tile coloured by one metric, grouped like GroupView
+ * Hovering a tile shows its details and clicking opens the client
+ */
+export function FleetHeatmap({
+  clients,
+  metric,
+  onMetricChange,
+  groupBy,
+  onGroupByChange,
+  onClientClick,
+}: FleetHeatmapProps) {
+  const groups = useMemo(() => getSortedGroups(clients, groupBy), [clients, groupBy]);
+  const scaleMax = useMemo(() => getHeatmapScaleMax(clients, metric), [clients, metric]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-center gap-2 flex-wrap">
+          <div
+            className="inline-flex rounded-md border border-border overflow-hidden text-sm"
+            role="group"
+            aria-label="Heatmap metric"
+          >
+            {HEATMAP_METRICS.map((option) => (
+              <button
+                key={option.metric}
+                onClick={() => onMetricChange(option.metric)}
+                aria-pressed={metric === option.metric}
+                className={cn(
+                  'px-3 py-1.5 transition-colors',
+                  metric === option.metric
+                    ? 'bg-primary text-white'
+                    : 'bg-card hover:bg-background-secondary'
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <label className="inline-flex items-center gap-2 text-sm">
+            <span className="text-foreground-secondary">Group by</span>
+            <select
+              value={groupBy}
+              onChange={(e) => onGroupByChange(e.target.value as HeatmapGroupBy)}
+              className="rounded-md border border-border bg-card px-2 py-1.5 text-sm"
+            >
+              {getHeatmapGroupOptions().map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <HeatmapLegend metric={metric} scaleMax={scaleMax} />
+      </div>
+
+      {groups.map(([groupName, groupClients]) => {
+        const displayName = groupBy === 'platform' ? getPlatformDisplayName(groupName) : groupName;
+        return (
+          <section key={groupName} className="rounded-lg border border-border bg-card p-4">
+            <h3 className="flex items-baseline gap-2 mb-3">
+              <span className="font-semibold">{displayName}</span>
+              <span className="text-sm text-foreground-secondary">
+                {groupClients.length} clients
+              </span>
+            </h3>
+            <HeatmapCanvas
+              clients={groupClients}
+              metric={metric}
+              scaleMax={scaleMax}
+              label={displayName}
+              onClientClick={onClientClick}
+            />
+          </section>
+        );
+      })}
+    </div>
+  );
+}
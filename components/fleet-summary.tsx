@@ -0,0 +1,263 @@
+'use client';
+
+import { memo, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Flame } from 'lucide-react';
+import { ClientDetail, ClientSummary } from '@/lib/api-client';
+import { hasQueryTerms, toggleQueryTerms } from '@/lib/client-query';
+import {
+  SUMMARY_METRICS,
+  SummaryMetric,
+  SummarySegment,
+  summarizeFleet,
+} from '@/lib/fleet-summary';
+import { cn, formatBytes } from '@/lib/utils';
+
+interface FleetSummaryProps {
+  clients: Array<ClientSummary | ClientDetail>;
+  query: string;
+  onQueryChange: (query: string) => void;
+  onClientClick: (clientId: string) => void;
+}
+
+/**
+ * Bucket colors, lowest usage first
+ */
+const BUCKET_COLORS = ['bg-success', 'bg-success/60', 'bg-primary/60', 'bg-warning', 'bg-danger'];
+
+const STATUS_COLORS: Record<string, string> = {
+  Online: 'bg-success',
+  Stale: 'bg-warning',
+  Offline: 'bg-danger',
+};
+
+/**
+ * Breakdown chips shown before "more"
+ */
+const COLLAPSED_CHIP_COUNT = 8;
+
+function formatSpeed(bytesPerSecond: number): string {
+  return bytesPerSecond >= 1 ? `${formatBytes(bytesPerSecond, 1)}/s` : '0 B/s';
+}
+
+function SectionTitle({ children }: { children: React.ReactNode }) {
+  return <h3 className="text-xs font-semibold text-foreground-secondary mb-2">{children}</h3>;
+}
+
+/**
+ * Chips with counts; a chip toggles its filter
+ */
+function SegmentChips({
+  segments,
+  query,
+  onToggle,
+}: {
+  segments: SummarySegment[];
+  query: string;
+  onToggle: (terms: string[]) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const shown = expanded ? segments : segments.slice(0, COLLAPSED_CHIP_COUNT);
+
+  if (segments.length === 0) {
+    return <p className="text-sm text-foreground-secondary">None</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {shown.map((segment) => {
+        const active = hasQueryTerms(query, segment.terms);
+        return (
+          <button
+            key={segment.label}
+            onClick={() => onToggle(segment.terms)}
+            aria-pressed={active}
+            className={cn(
+              'inline-flex items-center gap-1.5 rounded-full border px-2.5 py-0.5 text-xs transition-colors',
+              active
+                ? 'bg-primary text-white border-primary'
+                : 'border-border hover:border-primary/50'
+            )}
+          >
+            {segment.label}
+            <span className={cn('tabular-nums', !active && 'text-foreground-secondary')}>
+              {segment.count}
+            </span>
+          </button>
+        );
+      })}
+      {segments.length > COLLAPSED_CHIP_COUNT && (
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-xs text-primary hover:text-primary/80 px-1"
+        >
+          {expanded ? 'Show less' : `+${segments.length - COLLAPSED_CHIP_COUNT} more`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * FleetSummary Component
+ * Summary strip above the client list: status counts, usage distributions, total network
+ * throughput, hottest hosts and platform/tag breakdowns
+ * Clicking a segment toggles the matching search terms
+ */
+export const FleetSummary = memo(function FleetSummary({
+  clients,
+  query,
+  onQueryChange,
+  onClientClick,
+}: FleetSummaryProps) {
+  const summary = useMemo(() => summarizeFleet(clients), [clients]);
+  const [hotMetric, setHotMetric] = useState<SummaryMetric>('cpu');
+
+  const handleToggle = (terms: string[]) => onQueryChange(toggleQueryTerms(query, terms));
+
+  return (
+    <section
+      className="rounded-lg border border-border bg-card p-4 grid grid-cols-1 tablet:grid-cols-2 desktop:grid-cols-4 gap-6"
+      aria-label="Fleet summary"
+    >
+      {/* Status and network */}
+      <div className="space-y-4">
+        <div>
+          <SectionTitle>Clients</SectionTitle>
+          <p className="text-2xl font-bold tabular-nums mb-2">{summary.total}</p>
+          <div className="flex flex-wrap gap-2">
+            {summary.statusSegments.map((segment) => {
+              const active = hasQueryTerms(query, segment.terms);
+              return (
+                <button
+                  key={segment.label}
+                  onClick={() => handleToggle(segment.terms)}
+                  aria-pressed={active}
+                  className={cn(
+                    'inline-flex items-center gap-1.5 rounded-md border px-2 py-1 text-sm transition-colors',
+                    active
+                      ? 'border-primary bg-primary/10'
+                      : 'border-border hover:border-primary/50'
+                  )}
+                >
+                  <span className={cn('w-2 h-2 rounded-full', STATUS_COLORS[segment.label])} />
+                  {segment.label}
+                  <span className="font-semibold tabular-nums">{segment.count}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div>
+          <SectionTitle>Network (online clients)</SectionTitle>
+          <div className="flex gap-4 text-sm">
+            <span className="inline-flex items-center gap-1">
+              <ArrowUp className="w-4 h-4 text-primary" />
+              <span className="font-semibold tabular-nums">
+                {formatSpeed(summary.networkUpload)}
+              </span>
+            </span>
+            <span className="inline-flex items-center gap-1">
+              <ArrowDown className="w-4 h-4 text-success" />
+              <span className="font-semibold tabular-nums">
+                {formatSpeed(summary.networkDownload)}
+              </span>
+            </span>
+          </div>
+        </div>
+      </div>
+
+      {/* Usage distribution */}
+      <div>
+        <SectionTitle>Usage distribution</SectionTitle>
+        <div className="space-y-3">
+          {SUMMARY_METRICS.map(({ metric, label }) => {
+            const buckets = summary.usage[metric];
+            const counted = buckets.reduce((sum, bucket) => sum + bucket.count, 0);
+            return (
+              <div key={metric}>
+                <div className="flex justify-between text-xs mb-1">
+                  <span>{label}</span>
+                  <span className="text-foreground-secondary tabular-nums">{counted}</span>
+                </div>
+                <div className="flex h-3 w-full overflow-hidden rounded-full bg-background-secondary">
+                  {buckets.map((bucket, index) =>
+                    bucket.count === 0 ? null : (
+                      <button
+                        key={bucket.label}
+                        onClick={() => handleToggle(bucket.terms)}
+                        title={`${label} ${bucket.label}: ${bucket.count}`}
+                        aria-label={`${label} ${bucket.label}: ${bucket.count} clients`}
+                        aria-pressed={hasQueryTerms(query, bucket.terms)}
+                        className={cn(
+                          'h-full transition-opacity hover:opacity-80',
+                          BUCKET_COLORS[index],
+                          hasQueryTerms(query, bucket.terms) && 'ring-2 ring-inset ring-foreground'
+                        )}
+                        style={{ width: `${(bucket.count / counted) * 100}%` }}
+                      />
+                    )
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Hottest hosts */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-xs font-semibold text-foreground-secondary flex items-center gap-1">
+            <Flame className="w-3.5 h-3.5 text-danger" />
+            Hottest
+          </h3>
+          <div className="inline-flex rounded-md border border-border overflow-hidden text-xs">
+            {SUMMARY_METRICS.map(({ metric, label }) => (
+              <button
+                key={metric}
+                onClick={() => setHotMetric(metric)}
+                aria-pressed={hotMetric === metric}
+                className={cn(
+                  'px-2 py-0.5 transition-colors',
+                  hotMetric === metric ? 'bg-primary text-white' : 'hover:bg-background-secondary'
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {summary.hottest[hotMetric].length === 0 ? (
+          <p className="text-sm text-foreground-secondary">No metrics loaded yet</p>
+        ) : (
+          <ol className="space-y-1 text-sm">
+            {summary.hottest[hotMetric].map((client) => (
+              <li key={client.clientId}>
+                <button
+                  onClick={() => onClientClick(client.clientId)}
+                  className="w-full flex items-center justify-between gap-2 rounded px-1 hover:bg-background-secondary"
+                >
+                  <span className="truncate">{client.clientName}</span>
+                  <span className="font-semibold tabular-nums">{client.value.toFixed(1)}%</span>
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {/* Platform and tag breakdown */}
+      <div className="space-y-4">
+        <div>
+          <SectionTitle>Platforms</SectionTitle>
+          <SegmentChips segments={summary.platforms} query={query} onToggle={handleToggle} />
+        </div>
+        <div>
+          <SectionTitle>Tags</SectionTitle>
+          <SegmentChips segments={summary.tags} query={query} onToggle={handleToggle} />
+        </div>
+      </div>
+    </section>
+  );
+});
@@ -4,21 +4,23 @@ import { motion } from 'framer-motion';
 import { ChevronDown, Layers } from 'lucide-react';
 import { useState } from 'react';
 import { ClientSummary } from '@/lib/api-client';
+import { getBackendName } from '@/lib/backends';
 import { ClientCard } from './client-card';
 import { cn } from '@/lib/utils';
 
 interface GroupViewProps {
   clients: ClientSummary[];
-  groupBy: 'tags' | 'purpose' | 'platform';
+  groupBy: 'tags' | 'purpose' | 'platform' | 'backend';
   onClientClick?: (clientId: string) => void;
+  alertCounts?: Map<string, number>;
 }
 
 /**
  * Group clients by the specified criteria
  */
-function groupClients(
+export function groupClients(
   clients: ClientSummary[],
-  groupBy: 'tags' | 'purpose' | 'platform'
+  groupBy: 'tags' | 'purpose' | 'platform' | 'backend'
 ): Map<string, ClientSummary[]> {
   const groups = new Map<string, ClientSummary[]>();
 
@@ -54,6 +56,13 @@ function groupClients(
         groups.set(platform, []);
       }
       groups.get(platform)!.push(client);
+    } else if (groupBy === 'backend') {
+      // Group by the backend the client was loaded from
+      const backend = client.source ? getBackendName(client.source) : 'Uncategorized';
+      if (!groups.has(backend)) {
+        groups.set(backend, []);
+      }
+      groups.get(backend)!.push(client);
     }
   });
 
@@ -63,7 +72,7 @@ function groupClients(
 /**
  * Get display name for platform
  */
-function getPlatformDisplayName(platform: string): string {
+export function getPlatformDisplayName(platform: string): string {
   const platformLower = platform.toLowerCase();
 
   if (platformLower.includes('windows') || platformLower === 'win32') {
@@ -77,6 +86,20 @@ function getPlatformDisplayName(platform: string): string {
   return platform;
 }
 
+/**
+ * Groups sorted by name, with uncategorized clients last
+ */
+export function getSortedGroups(
+  clients: ClientSummary[],
+  groupBy: 'tags' | 'purpose' | 'platform' | 'backend'
+): Array<[string, ClientSummary[]]> {
+  return Array.from(groupClients(clients, groupBy).entries()).sort((a, b) => {
+    if (a[0].startsWith('Uncategorized')) return 1;
+    if (b[0].startsWith('Uncategorized')) return -1;
+    return a[0].localeCompare(b[0], 'en-US');
+  });
+}
+
 /**
  * GroupSection Component
  * Displays a collapsible group of clients
@@ -85,11 +108,13 @@ function GroupSection({ groupName,
 clients,
 groupBy,
 onClientClick,
+alertCounts,
 index }: {
   groupName: string,
   clients: ClientSummary[],
-  groupBy: 'tags' | 'purpose' | 'platform',
+  groupBy: 'tags' | 'purpose' | 'platform' | 'backend',
   onClientClick?: (clientId: string) => void,
+  alertCounts?: Map<string, number>,
   index: number
 }) {
   const [isExpanded, setIsExpanded] = useState(true);
@@ -154,6 +179,7 @@ index }: {
               client={client}
               onClick={onClientClick}
               index={clientIndex}
+              alertCount={alertCounts?.get(client.clientId)}
             />
           ))}
         </div>
@@ -164,17 +190,10 @@ index }: {
 
 /**
  * GroupView Component
- * Displays clients grouped by tags, purpose, or platform
+ * Displays clients grouped by tags, purpose, platform or backend
  */
-export function GroupView({ clients, groupBy, onClientClick }: GroupViewProps) {
-  const groups = groupClients(clients, groupBy);
-
-  // Sort groups by name
-  const sortedGroups = Array.from(groups.entries()).sort((a, b) => {
-    if (a[0].startsWith('Uncategorized')) return 1;
-    if (b[0].startsWith('Uncategorized')) return -1;
-    return a[0].localeCompare(b[0], 'en-US');
-  });
+export function GroupView({ clients, groupBy, onClientClick, alertCounts }: GroupViewProps) {
+  const sortedGroups = getSortedGroups(clients, groupBy);
 
   if (sortedGroups.length === 0) {
     return (
@@ -193,6 +212,7 @@ export function GroupView({ clients, groupBy, onClientClick }: GroupViewProps) {
           clients={groupClients}
           groupBy={groupBy}
           onClientClick={onClientClick}
+          alertCounts={alertCounts}
           index={index}
         />
       ))}
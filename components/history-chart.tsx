@@ -1,9 +1,10 @@
 'use client';
 
-import React from 'react';
+import React, { KeyboardEvent, useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import {
-  LineChart,
+  ComposedChart,
+  Area,
   Line,
   XAxis,
   YAxis,
@@ -11,9 +12,23 @@ import {
   Tooltip,
   ResponsiveContainer,
   Legend,
+  ReferenceArea,
 } from 'recharts';
 import { DynamicSystemStatus } from '@/lib/api-client';
+import { formatChartTime, resolveTimeRange } from '@/lib/time-range';
+import {
+  DOWNSAMPLE_MODES,
+  DownsampleMode,
+  DownsampledRow,
+  SeriesRow,
+  getBandKey,
+} from '@/lib/downsample';
+import { useDownsampledRows } from '@/lib/use-downsampled-rows';
+import { useElementWidth } from '@/lib/use-element-width';
 import { cn } from '@/lib/utils';
+import { Loader2 } from 'lucide-react';
+import { getExportBaseName } from '@/lib/export';
+import { ExportMenu } from './export-menu';
 import { MetricType } from './metric-module';
 
 /**
@@ -24,6 +39,18 @@ export interface HistoryChartProps {
   data: DynamicSystemStatus[];
   className?: string;
   timeRange?: string;
+  /**
+   * Called with the window selected by dragging across the chart
+   */
+  onZoom?: (startTime: number, endTime: number) => void;
+  /**
+   * Called on Shift+Left/Right while the chart has focus
+   */
+  onPan?: (direction: -1 | 1) => void;
+  /**
+   * Client to export the chart's data and snapshot for; no export menu without it
+   */
+  exportClient?: { clientId: string; clientName: string };
 }
 
 /**
@@ -55,28 +82,6 @@ function formatSpeed(bytesPerSecond: number): string {
   return `${formatBytes(bytesPerSecond)}/s`;
 }
 
-/**
- * Format timestamp to time string based on time range
- */
-function formatTime(timestamp: number, timeRange: string): string {
-  const date = new Date(timestamp);
-  
-  // Short time ranges (hours): show only hour and minute
-  if (timeRange === '1h' || timeRange === '4h' || timeRange === '8h' || timeRange === '12h' || timeRange === '24h') {
-    return date.toLocaleTimeString('en-US', {
-      hour: '2-digit',
-      minute: '2-digit',
-    });
-  }
-  // Long time ranges (days or more): show month and day
-  else {
-    return date.toLocaleDateString('en-US', {
-      month: '2-digit',
-      day: '2-digit',
-    });
-  }
-}
-
 /**
  * Get chart title based on metric type
  */
@@ -110,11 +115,10 @@ function getYAxisLabel(type: MetricType): string {
 /**
  * Transform data for chart based on metric type
  */
-function transformData(type: MetricType, data: DynamicSystemStatus[], timeRange: string) {
+function transformData(type: MetricType, data: DynamicSystemStatus[]): SeriesRow[] {
   return data.map((status) => {
     const baseData = {
       timestamp: status.timestamp,
-      time: formatTime(status.timestamp, timeRange),
     };
 
     switch (type) {
@@ -150,6 +154,32 @@ function transformData(type: MetricType, data: DynamicSystemStatus[], timeRange:
   });
 }
 
+/**
+ * Value and, for aggregated charts, the bucket's min-max band of one series
+ */
+function TooltipValue({
+  row,
+  dataKey,
+  format,
+}: {
+  row: DownsampledRow | undefined;
+  dataKey: string;
+  format: (value: number) => string;
+}) {
+  const value = row?.[dataKey];
+  const band = row?.[getBandKey(dataKey)];
+  return (
+    <span className="font-semibold">
+      {typeof value === 'number' ? format(value) : '-'}
+      {Array.isArray(band) && (
+        <span className="ml-1 font-normal text-foreground-secondary">
+          ({format(band[0])} – {format(band[1])})
+        </span>
+      )}
+    </span>
+  );
+}
+
 /**
  * Custom tooltip component
  */
@@ -158,28 +188,31 @@ function CustomTooltip({ active, payload, label, type }: any) {
     return null;
   }
 
+  const row = payload[0]?.payload;
+  const formatPercent = (value: number) => `${value.toFixed(1)}%`;
+
   return (
     <div className="bg-card border border-border rounded-lg p-3 shadow-lg">
-      <p className="text-sm font-medium mb-2">{label}</p>
+      <p className="text-sm font-medium mb-2">{new Date(label).toLocaleString('en-US')}</p>
 
       {type === 'network' ? (
         <>
           <div className="flex items-center gap-2 text-sm">
             <div className="w-3 h-3 rounded-full bg-primary" />
             <span className="text-foreground-secondary">Upload:</span>
-            <span className="font-semibold">{formatSpeed(payload?.[0]?.value ?? 0)}</span>
+            <TooltipValue row={row} dataKey="upload" format={formatSpeed} />
           </div>
           <div className="flex items-center gap-2 text-sm mt-1">
             <div className="w-3 h-3 rounded-full bg-success" />
             <span className="text-foreground-secondary">Download:</span>
-            <span className="font-semibold">{formatSpeed(payload?.[1]?.value ?? 0)}</span>
+            <TooltipValue row={row} dataKey="download" format={formatSpeed} />
           </div>
         </>
       ) : (
         <div className="flex items-center gap-2 text-sm">
           <div className="w-3 h-3 rounded-full bg-primary" />
           <span className="text-foreground-secondary">Usage:</span>
-          <span className="font-semibold">{payload?.[0]?.value?.toFixed(1) ?? 0}%</span>
+          <TooltipValue row={row} dataKey="value" format={formatPercent} />
         </div>
       )}
     </div>
@@ -187,33 +220,16 @@ function CustomTooltip({ active, payload, label, type }: any) {
 }
 
 /**
- * Calculate start time based on time range
+ * Series keys per metric type
  */
-function calculateStartTime(range: string): number {
-  const endTime = Date.now();
-  switch (range) {
-    case '1h':
-      return endTime - 1 * 60 * 60 * 1000;
-    case '4h':
-      return endTime - 4 * 60 * 60 * 1000;
-    case '8h':
-      return endTime - 8 * 60 * 60 * 1000;
-    case '12h':
-      return endTime - 12 * 60 * 60 * 1000;
-    case '24h':
-      return endTime - 24 * 60 * 60 * 1000;
-    case '7days':
-      return endTime - 7 * 24 * 60 * 60 * 1000;
-    case '30days':
-      return endTime - 30 * 24 * 60 * 60 * 1000;
-    default:
-      return endTime - 1 * 60 * 60 * 1000;
-  }
-}
+const NETWORK_KEYS = ['upload', 'download'];
+const VALUE_KEYS = ['value'];
 
 /**
  * HistoryChart Component
  * Displays historical trend data for monitoring metrics
+ * Long ranges are downsampled to the chart width, either with LTTB or aggregated per
+ * bucket with a min-max band. With onZoom, dragging across the chart selects a window to zoom into
  */
 // Animation variants for chart container
 export const HistoryChart = React.memo(function HistoryChart({
@@ -221,14 +237,32 @@ export const HistoryChart = React.memo(function HistoryChart({
   data,
   className,
   timeRange = '4h',
+  onZoom,
+  onPan,
+  exportClient,
 }: HistoryChartProps) {
+  // Window currently being dragged out, in timestamps
+  const [selection, setSelection] = useState<{ start: number; end: number } | null>(null);
+  const [mode, setMode] = useState<DownsampleMode>('lttb');
+  const [containerRef, width, container] = useElementWidth<HTMLDivElement>();
+
   // Filter data based on time range
-  const filteredData = data.filter((item) => {
-    const startTime = calculateStartTime(timeRange);
-    return item.timestamp >= startTime;
-  });
+  const filteredData = useMemo(() => {
+    const { startTime, endTime } = resolveTimeRange(timeRange);
+    return data.filter((item) => item.timestamp >= startTime && item.timestamp <= endTime);
+  }, [data, timeRange]);
+
+  const rows = useMemo(() => transformData(type, filteredData), [type, filteredData]);
+  const keys = type === 'network' ? NETWORK_KEYS : VALUE_KEYS;
+  // One point per pixel of plot area; a rough default until the container is measured
+  const { rows: chartData, pending } = useDownsampledRows(
+    rows,
+    keys,
+    mode,
+    Math.max((width || 800) - 80, 100)
+  );
+  const showBand = mode !== 'lttb';
 
-  const chartData = transformData(type, filteredData, timeRange);
   const title = getChartTitle(type);
   const yAxisLabel = getYAxisLabel(type);
 
@@ -250,9 +284,36 @@ export const HistoryChart = React.memo(function HistoryChart({
     );
   }
 
+  const toTimestamp = (label: string | number | undefined): number | null => {
+    const value = Number(label);
+    return label === undefined || !Number.isFinite(value) ? null : value;
+  };
+
+  const handleMouseUp = () => {
+    if (selection && onZoom && selection.start !== selection.end) {
+      onZoom(Math.min(selection.start, selection.end), Math.max(selection.start, selection.end));
+    }
+    setSelection(null);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (!onPan || !e.shiftKey) return;
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      e.preventDefault();
+      onPan(e.key === 'ArrowLeft' ? -1 : 1);
+    }
+  };
+
   return (
     <motion.div
-      className={cn('rounded-lg border border-border bg-card p-6', className)}
+      className={cn(
+        'rounded-lg border border-border bg-card p-6',
+        onZoom && 'select-none',
+        onPan && 'focus:outline-none focus-visible:ring-2 focus-visible:ring-primary',
+        className
+      )}
+      tabIndex={onPan ? 0 : undefined}
+      onKeyDown={handleKeyDown}
       initial={{ opacity: 0, height: 0 }}
       animate={{ opacity: 1, height: 'auto' }}
       transition={{
@@ -262,84 +323,169 @@ export const HistoryChart = React.memo(function HistoryChart({
       }}
     >
       {/* Chart Title */}
-      <h3 className="text-lg font-semibold mb-4">{title}</h3>
+      <div className="flex items-center justify-between gap-4 mb-4 flex-wrap">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          {title}
+          {pending && <Loader2 className="w-4 h-4 animate-spin text-foreground-secondary" />}
+        </h3>
+        <div className="flex items-center gap-3 print:hidden">
+          {(onZoom || onPan) && (
+            <p className="text-xs text-foreground-secondary">
+              {[onZoom && 'Drag to zoom', onPan && 'Shift+←/→ to pan'].filter(Boolean).join(' · ')}
+            </p>
+          )}
+          {/* Aggregation per bucket, or LTTB to keep the shape */}
+          <div
+            className="inline-flex rounded-md border border-border overflow-hidden text-xs"
+            role="group"
+            aria-label="Aggregation"
+          >
+            {DOWNSAMPLE_MODES.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setMode(option.value)}
+                aria-pressed={mode === option.value}
+                className={cn(
+                  'px-2 py-1 transition-colors',
+                  mode === option.value ? 'bg-primary text-white' : 'hover:bg-background-secondary'
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {exportClient && (
+            <ExportMenu
+              baseName={`${getExportBaseName(exportClient.clientName, timeRange)}-${type}`}
+              loadSeries={() => [{ ...exportClient, history: filteredData }]}
+              chart={{ element: container, title: `${exportClient.clientName} – ${title}` }}
+            />
+          )}
+        </div>
+      </div>
 
       {/* Chart Container */}
-      <ResponsiveContainer width="100%" height={300}>
-        <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
-          <CartesianGrid strokeDasharray="3 3" stroke="rgb(var(--border))" opacity={0.3} />
-
-          <XAxis
-            dataKey="time"
-            stroke="rgb(var(--foreground-secondary))"
-            tick={{ fill: 'rgb(var(--foreground-secondary))', fontSize: 12 }}
-            tickLine={{ stroke: 'rgb(var(--border))' }}
-          />
-
-          <YAxis
-            stroke="rgb(var(--foreground-secondary))"
-            tick={{ fill: 'rgb(var(--foreground-secondary))', fontSize: 12 }}
-            tickLine={{ stroke: 'rgb(var(--border))' }}
-            label={{
-              value: yAxisLabel,
-              angle: -90,
-              position: 'insideLeft',
-              style: { fill: 'rgb(var(--foreground-secondary))', fontSize: 12 },
+      <div ref={containerRef}>
+        <ResponsiveContainer width="100%" height={300}>
+          <ComposedChart
+            data={chartData}
+            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+            onMouseDown={(state) => {
+              const timestamp = toTimestamp(state.activeLabel);
+              if (onZoom && timestamp !== null) setSelection({ start: timestamp, end: timestamp });
             }}
-            tickFormatter={type === 'network' ? formatBytes : undefined}
-          />
-
-          <Tooltip
-            content={<CustomTooltip type={type} />}
-            cursor={{ stroke: 'rgb(var(--border))', strokeWidth: 1 }}
-            animationDuration={0}
-          />
-
-          {/* Network chart: dual curves for upload and download */}
-          {type === 'network' ? (
-            <>
-              <Legend
-                wrapperStyle={{ paddingTop: '20px' }}
-                iconType="line"
-                formatter={(value) => {
-                  return <span style={{ color: 'rgb(var(--foreground))' }}>{value}</span>;
-                }}
-              />
+            onMouseMove={(state) => {
+              const timestamp = toTimestamp(state.activeLabel);
+              if (selection && timestamp !== null) setSelection({ ...selection, end: timestamp });
+            }}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={() => setSelection(null)}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke="rgb(var(--border))" opacity={0.3} />
+
+            <XAxis
+              dataKey="timestamp"
+              type="number"
+              scale="time"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={(value) => formatChartTime(value, timeRange)}
+              stroke="rgb(var(--foreground-secondary))"
+              tick={{ fill: 'rgb(var(--foreground-secondary))', fontSize: 12 }}
+              tickLine={{ stroke: 'rgb(var(--border))' }}
+            />
+
+            <YAxis
+              stroke="rgb(var(--foreground-secondary))"
+              tick={{ fill: 'rgb(var(--foreground-secondary))', fontSize: 12 }}
+              tickLine={{ stroke: 'rgb(var(--border))' }}
+              label={{
+                value: yAxisLabel,
+                angle: -90,
+                position: 'insideLeft',
+                style: { fill: 'rgb(var(--foreground-secondary))', fontSize: 12 },
+              }}
+              tickFormatter={type === 'network' ? formatBytes : undefined}
+            />
+
+            <Tooltip
+              content={<CustomTooltip type={type} />}
+              cursor={{ stroke: 'rgb(var(--border))', strokeWidth: 1 }}
+              animationDuration={0}
+            />
+
+            {/* Min-max band per bucket when aggregating */}
+            {showBand &&
+              keys.map((key) => (
+                <Area
+                  key={getBandKey(key)}
+                  type="monotone"
+                  dataKey={getBandKey(key)}
+                  stroke="none"
+                  fill={key === 'download' ? 'rgb(var(--success))' : 'rgb(var(--primary))'}
+                  fillOpacity={0.15}
+                  legendType="none"
+                  tooltipType="none"
+                  isAnimationActive={false}
+                />
+              ))}
+
+            {/* Network chart: dual curves for upload and download */}
+            {type === 'network' ? (
+              <>
+                <Legend
+                  wrapperStyle={{ paddingTop: '20px' }}
+                  iconType="line"
+                  formatter={(value) => {
+                    return <span style={{ color: 'rgb(var(--foreground))' }}>{value}</span>;
+                  }}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="upload"
+                  name="Upload"
+                  stroke="rgb(var(--primary))"
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={true}
+                  animationDuration={400}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="download"
+                  name="Download"
+                  stroke="rgb(var(--success))"
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={true}
+                  animationDuration={400}
+                />
+              </>
+            ) : (
+              // Single curve for other metrics
               <Line
                 type="monotone"
-                dataKey="upload"
-                name="Upload"
+                dataKey="value"
                 stroke="rgb(var(--primary))"
                 strokeWidth={2}
                 dot={false}
                 isAnimationActive={true}
                 animationDuration={400}
               />
-              <Line
-                type="monotone"
-                dataKey="download"
-                name="Download"
-                stroke="rgb(var(--success))"
-                strokeWidth={2}
-                dot={false}
-                isAnimationActive={true}
-                animationDuration={400}
+            )}
+
+            {selection && (
+              <ReferenceArea
+                x1={selection.start}
+                x2={selection.end}
+                fill="rgb(var(--primary))"
+                fillOpacity={0.15}
+                stroke="rgb(var(--primary))"
+                strokeOpacity={0.4}
               />
-            </>
-          ) : (
-            // Single curve for other metrics
-            <Line
-              type="monotone"
-              dataKey="value"
-              stroke="rgb(var(--primary))"
-              strokeWidth={2}
-              dot={false}
-              isAnimationActive={true}
-              animationDuration={400}
-            />
-          )}
-        </LineChart>
-      </ResponsiveContainer>
+            )}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
     </motion.div>
   );
 });
@@ -3,6 +3,7 @@
 import { memo } from 'react';
 import { motion } from 'framer-motion';
 import { Cpu, MemoryStick, HardDrive, Network, Droplet, ChevronDown } from 'lucide-react';
+import { getUsageLevel } from '@/lib/runtime-config';
 import { cn } from '@/lib/utils';
 import { hoverAnimation, tapAnimation } from '@/lib/animation-config';
 
@@ -112,8 +113,9 @@ function formatMetricValue(type: MetricType, value: number, secondaryValue?: num
  * Get color class based on usage percentage
  */
 function getUsageColor(value: number): string {
-  if (value >= 80) return 'text-danger';
-  if (value >= 60) return 'text-warning';
+  const level = getUsageLevel(value);
+  if (level === 'critical') return 'text-danger';
+  if (level === 'warning') return 'text-warning';
   return 'text-success';
 }
 
@@ -121,8 +123,9 @@ function getUsageColor(value: number): string {
  * Get progress bar color class based on usage percentage
  */
 function getProgressColor(value: number): string {
-  if (value >= 80) return 'bg-danger';
-  if (value >= 60) return 'bg-warning';
+  const level = getUsageLevel(value);
+  if (level === 'critical') return 'bg-danger';
+  if (level === 'warning') return 'bg-warning';
   return 'bg-success';
 }
 
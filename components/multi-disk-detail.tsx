@@ -1,10 +1,22 @@
 'use client';
 
-import { memo } from 'react';
+import { memo, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { HardDrive } from 'lucide-react';
+import { HardDrive, TrendingUp } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { DiskInfo, DiskUsage } from '@/lib/api-client';
+import { DiskInfo, DiskUsage, DynamicSystemStatus } from '@/lib/api-client';
+import {
+  DiskForecast,
+  buildDiskSeries,
+  forecastDisk,
+  getDiskKey,
+  getDiskLabel,
+  getForecastSeverity,
+} from '@/lib/disk-trend';
+import { formatTimeUntil } from '@/lib/trend';
+import { getRuntimeConfig, getUsageLevel } from '@/lib/runtime-config';
+import { resolveTimeRange } from '@/lib/time-range';
+import { DiskHistoryChart } from './disk-history-chart';
 
 /**
  * Props for MultiDiskDetail component
@@ -12,6 +24,11 @@ import { DiskInfo, DiskUsage } from '@/lib/api-client';
 export interface MultiDiskDetailProps {
   disks: DiskInfo[];
   diskUsages: DiskUsage[];
+  /**
+   * History samples; enables the per-disk chart and fill projections
+   */
+  history?: DynamicSystemStatus[];
+  timeRange?: string;
   className?: string;
 }
 
@@ -19,7 +36,7 @@ export interface MultiDiskDetailProps {
  * Format bytes to human readable format
  */
 function formatBytes(bytes: number): string {
-  if (bytes === 0) return '0 B';
+  if (bytes < 1) return '0 B';
   const k = 1024;
   const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
   const i = Math.floor(Math.log(bytes) / Math.log(k));
@@ -30,11 +47,44 @@ function formatBytes(bytes: number): string {
  * Get usage color based on percentage
  */
 function getUsageColor(value: number): string {
-  if (value >= 80) return 'rgb(var(--danger))';
-  if (value >= 60) return 'rgb(var(--warning))';
+  const level = getUsageLevel(value);
+  if (level === 'critical') return 'rgb(var(--danger))';
+  if (level === 'warning') return 'rgb(var(--warning))';
   return 'rgb(var(--success))';
 }
 
+/**
+ * Color for a fill projection
+ */
+function getForecastColor(forecast: DiskForecast | null): string {
+  switch (getForecastSeverity(forecast)) {
+    case 'critical':
+      return 'text-danger';
+    case 'warning':
+      return 'text-warning';
+    default:
+      return 'text-foreground-secondary';
+  }
+}
+
+/**
+ * Growth per day, signed, in bytes and percentage points
+ */
+function formatGrowth(forecast: DiskForecast): string {
+  const sign = forecast.growthBytesPerDay < 0 ? '-' : '+';
+  const percent = Math.abs(forecast.growthPercentPerDay).toFixed(2);
+  return `${sign}${formatBytes(Math.abs(forecast.growthBytesPerDay))}/day (${sign}${percent}%)`;
+}
+
+/**
+ * When the disk is projected to be full
+ */
+function getProjectionLabel(forecast: DiskForecast): string {
+  if (forecast.timeUntilFull === null) return 'Not growing';
+  if (forecast.timeUntilFull === 0) return 'Full';
+  return `Full in ${formatTimeUntil(forecast.timeUntilFull)}`;
+}
+
 /**
  * Get free color - visible in both light and dark mode
  */
@@ -45,15 +95,32 @@ function getFreeColor(): string {
 /**
  * MultiDiskDetail Component
  * Displays detailed information for multiple disks
+ * With history, adds per-disk usage lines and a linear-regression projection of
+ * growth and time until full for each mountpoint
  */
 export const MultiDiskDetail = memo(function MultiDiskDetail({
   disks,
   diskUsages,
+  history,
+  timeRange = getRuntimeConfig().defaultTimeRange,
   className
 }: MultiDiskDetailProps) {
   // Sort disks by device name (A-Z order)
   const sortedDisks = [...diskUsages].sort((a, b) => a.device.localeCompare(b.device));
 
+  const diskSeries = useMemo(() => {
+    if (!history) return [];
+    const { startTime, endTime } = resolveTimeRange(timeRange);
+    return buildDiskSeries(
+      history.filter((item) => item.timestamp >= startTime && item.timestamp <= endTime)
+    );
+  }, [history, timeRange]);
+
+  const forecasts = useMemo(
+    () => new Map(diskSeries.map((series) => [series.key, forecastDisk(series)])),
+    [diskSeries]
+  );
+
   return (
     <div className={cn('space-y-4', className)}>
       <div className="flex items-center gap-2 mb-4">
@@ -66,12 +133,10 @@ export const MultiDiskDetail = memo(function MultiDiskDetail({
           // Find matching disk info
           const diskInfo = disks.find(d => d.device === diskUsage.device);
           const usedColor = getUsageColor(diskUsage.usagePercent);
-          
+          const forecast = forecasts.get(getDiskKey(diskUsage)) ?? null;
+
           // Format device name for display
-          let displayName = diskUsage.device;
-          if (diskUsage.mountpoint && diskUsage.mountpoint !== diskUsage.device) {
-            displayName = `${diskUsage.device} (${diskUsage.mountpoint})`;
-          }
+          const displayName = getDiskLabel(diskUsage);
 
           return (
             <motion.div
@@ -134,11 +199,35 @@ export const MultiDiskDetail = memo(function MultiDiskDetail({
                     Interface: {diskInfo.interfaceType}
                   </div>
                 )}
+
+                {/* Growth and fill projection */}
+                {history && (
+                  <div
+                    className="flex items-center justify-between gap-2 pt-2 border-t border-border text-xs"
+                    title={forecast ? `Linear fit, R² ${forecast.r2.toFixed(2)}` : undefined}
+                  >
+                    {forecast ? (
+                      <>
+                        <span className="flex items-center gap-1 text-foreground-secondary">
+                          <TrendingUp className="w-3.5 h-3.5" />
+                          {formatGrowth(forecast)}
+                        </span>
+                        <span className={cn('font-medium', getForecastColor(forecast))}>
+                          {getProjectionLabel(forecast)}
+                        </span>
+                      </>
+                    ) : (
+                      <span className="text-foreground-secondary">Not enough history to project</span>
+                    )}
+                  </div>
+                )}
               </div>
             </motion.div>
           );
         })}
       </div>
+
+      {history && <DiskHistoryChart series={diskSeries} timeRange={timeRange} />}
     </div>
   );
 });
\ No newline at end of file
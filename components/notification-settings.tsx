@@ -0,0 +1,168 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Megaphone } from 'lucide-react';
+import { NotificationSettings as Settings } from '@/lib/use-notifications';
+import { cn } from '@/lib/utils';
+
+interface NotificationSettingsProps {
+  settings: Settings;
+  permission: NotificationPermission | 'unsupported';
+  onChange: (patch: Partial<Settings>) => void;
+  onRequestPermission: () => Promise<boolean>;
+}
+
+const THROTTLE_OPTIONS = [
+  { value: 60 * 1000, label: '1 minute' },
+  { value: 5 * 60 * 1000, label: '5 minutes' },
+  { value: 15 * 60 * 1000, label: '15 minutes' },
+  { value: 60 * 60 * 1000, label: '1 hour' },
+];
+
+/**
+ * NotificationSettings Component
+ * Header popover for desktop notification and sound preferences
+ */
+export function NotificationSettings({
+  settings,
+  permission,
+  onChange,
+  onRequestPermission,
+}: NotificationSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close popover when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const handleToggleNotifications = async () => {
+    if (settings.enabled) {
+      onChange({ enabled: false });
+    } else if (permission === 'granted') {
+      onChange({ enabled: true });
+    } else {
+      await onRequestPermission();
+    }
+  };
+
+  const isActive = settings.enabled || settings.sound;
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="rounded-lg p-2 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+        aria-label="Notification settings"
+      >
+        <Megaphone className={cn('h-5 w-5', isActive && 'text-primary')} />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            className="absolute right-0 mt-2 w-72 bg-card border border-border rounded-lg shadow-lg z-50 p-4 space-y-4 text-sm"
+            initial={{ opacity: 0, y: -10, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -10, scale: 0.95 }}
+            transition={{ duration: 0.2 }}
+          >
+            <h3 className="font-semibold">Notifications</h3>
+
+            <label className="flex items-center justify-between gap-2">
+              <span>Desktop notifications</span>
+              <input
+                type="checkbox"
+                checked={settings.enabled && permission === 'granted'}
+                disabled={permission === 'unsupported' || permission === 'denied'}
+                onChange={handleToggleNotifications}
+              />
+            </label>
+            {permission === 'denied' && (
+              <p className="text-xs text-danger">
+                Notifications are blocked in the browser settings for this site
+              </p>
+            )}
+            {permission === 'unsupported' && (
+              <p className="text-xs text-foreground-secondary">
+                This browser does not support notifications
+              </p>
+            )}
+
+            <label className="flex items-center justify-between gap-2">
+              <span>Sound</span>
+              <input
+                type="checkbox"
+                checked={settings.sound}
+                onChange={() => onChange({ sound: !settings.sound })}
+              />
+            </label>
+
+            <label className="flex items-center justify-between gap-2">
+              <span>Repeat at most every</span>
+              <select
+                value={settings.throttleMs}
+                onChange={(e) => onChange({ throttleMs: Number(e.target.value) })}
+                className="px-2 py-1 rounded-md border border-border bg-background"
+              >
+                {THROTTLE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <div className="space-y-2">
+              <label className="flex items-center justify-between gap-2">
+                <span>Quiet hours</span>
+                <input
+                  type="checkbox"
+                  checked={settings.quietHours.enabled}
+                  onChange={() =>
+                    onChange({
+                      quietHours: { ...settings.quietHours, enabled: !settings.quietHours.enabled },
+                    })
+                  }
+                />
+              </label>
+              <div
+                className={cn(
+                  'flex items-center gap-2',
+                  !settings.quietHours.enabled && 'opacity-50 pointer-events-none'
+                )}
+              >
+                <input
+                  type="time"
+                  value={settings.quietHours.start}
+                  onChange={(e) =>
+                    onChange({ quietHours: { ...settings.quietHours, start: e.target.value } })
+                  }
+                  className="flex-1 px-2 py-1 rounded-md border border-border bg-background"
+                />
+                <span className="text-foreground-secondary">to</span>
+                <input
+                  type="time"
+                  value={settings.quietHours.end}
+                  onChange={(e) =>
+                    onChange({ quietHours: { ...settings.quietHours, end: e.target.value } })
+                  }
+                  className="flex-1 px-2 py-1 rounded-md border border-border bg-background"
+                />
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
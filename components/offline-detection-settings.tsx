@@ -0,0 +1,349 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Timer, X } from 'lucide-react';
+import { ClientSummary } from '@/lib/api-client';
+import {
+  ClientDetectionOverride,
+  OfflineDetectionSettings as Settings,
+  OfflineThresholds,
+  StatusSource,
+} from '@/lib/offline-detection';
+import { cn } from '@/lib/utils';
+
+interface OfflineDetectionSettingsProps {
+  settings: Settings;
+  tags: string[];
+  clients: ClientSummary[];
+  onDefaultsChange: (patch: Partial<OfflineThresholds> & { source?: StatusSource }) => void;
+  onTagOverrideChange: (tag: string, override: Partial<OfflineThresholds> | null) => void;
+  onClientOverrideChange: (clientId: string, override: ClientDetectionOverride | null) => void;
+  onReset: () => void;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const SOURCE_OPTIONS: Array<{ value: StatusSource; label: string }> = [
+  { value: 'client', label: 'Last report age' },
+  { value: 'server', label: 'Server status' },
+];
+
+const inputClassName = 'px-2 py-1 rounded-md border border-border bg-background';
+
+/**
+ * Threshold input in minutes; empty inherits the placeholder value unless required
+ */
+function MinutesInput({
+  value,
+  inherited,
+  required,
+  label,
+  onChange,
+}: {
+  value: number | undefined;
+  inherited?: number;
+  required?: boolean;
+  label: string;
+  onChange: (value: number | undefined) => void;
+}) {
+  return (
+    <input
+      type="number"
+      min={1}
+      step={1}
+      value={value === undefined ? '' : Math.round(value / MINUTE_MS)}
+      placeholder={inherited === undefined ? undefined : String(Math.round(inherited / MINUTE_MS))}
+      aria-label={label}
+      onChange={(e) => {
+        const minutes = Number(e.target.value);
+        if (e.target.value === '' || !(minutes > 0)) {
+          if (!required) onChange(undefined);
+          return;
+        }
+        onChange(minutes * MINUTE_MS);
+      }}
+      className={cn(inputClassName, 'w-16 text-right')}
+    />
+  );
+}
+
+function OverrideHeader() {
+  return (
+    <div className="grid grid-cols-[1fr_4rem_4rem_1.5rem] gap-2 text-xs text-foreground-secondary">
+      <span />
+      <span className="text-right">Stale</span>
+      <span className="text-right">Offline</span>
+      <span />
+    </div>
+  );
+}
+
+/**
+ * OfflineDetectionSettings Component
+ * Header popover for stale/offline thresholds, globally, per tag and per client
+ */
+export function OfflineDetectionSettings({
+  settings,
+  tags,
+  clients,
+  onDefaultsChange,
+  onTagOverrideChange,
+  onClientOverrideChange,
+  onReset,
+}: OfflineDetectionSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newTag, setNewTag] = useState('');
+  const [newClient, setNewClient] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close popover when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const clientNames = new Map(clients.map((c) => [c.clientId, c.clientName]));
+  const availableTags = tags.filter((tag) => !settings.tags[tag]);
+  const hasOverrides =
+    Object.keys(settings.tags).length > 0 || Object.keys(settings.clients).length > 0;
+
+  const handleAddTag = () => {
+    if (!newTag) return;
+    onTagOverrideChange(newTag, {
+      staleAfterMs: settings.staleAfterMs,
+      offlineAfterMs: settings.offlineAfterMs,
+    });
+    setNewTag('');
+  };
+
+  const handleAddClient = () => {
+    const query = newClient.trim().toLowerCase();
+    const client = clients.find(
+      (c) => c.clientName.toLowerCase() === query || c.clientId.toLowerCase() === query
+    );
+    if (!client) return;
+    onClientOverrideChange(client.clientId, { source: settings.source });
+    setNewClient('');
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="rounded-lg p-2 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+        aria-label="Status detection settings"
+      >
+        <Timer className={cn('h-5 w-5', hasOverrides && 'text-primary')} />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            className="absolute right-0 mt-2 w-96 max-h-[70vh] overflow-y-auto bg-card border border-border rounded-lg shadow-lg z-50 p-4 space-y-4 text-sm"
+            initial={{ opacity: 0, y: -10, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -10, scale: 0.95 }}
+            transition={{ duration: 0.2 }}
+          >
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold">Status detection</h3>
+              <button
+                onClick={onReset}
+                className="text-xs text-foreground-secondary hover:text-foreground"
+              >
+                Reset
+              </button>
+            </div>
+
+            <label className="flex items-center justify-between gap-2">
+              <span>Status from</span>
+              <select
+                value={settings.source}
+                onChange={(e) => onDefaultsChange({ source: e.target.value as StatusSource })}
+                className={inputClassName}
+              >
+                {SOURCE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex items-center justify-between gap-2">
+              <span>Stale after (minutes)</span>
+              <MinutesInput
+                value={settings.staleAfterMs}
+                required
+                label="Stale after, minutes"
+                onChange={(staleAfterMs) => onDefaultsChange({ staleAfterMs })}
+              />
+            </label>
+
+            <label className="flex items-center justify-between gap-2">
+              <span>Offline after (minutes)</span>
+              <MinutesInput
+                value={settings.offlineAfterMs}
+                required
+                label="Offline after, minutes"
+                onChange={(offlineAfterMs) => onDefaultsChange({ offlineAfterMs })}
+              />
+            </label>
+
+            {/* Tag overrides */}
+            <div className="space-y-2 border-t border-border pt-3">
+              <h4 className="font-medium">By tag</h4>
+              {Object.keys(settings.tags).length > 0 && <OverrideHeader />}
+              {Object.entries(settings.tags).map(([tag, override]) => (
+                <div key={tag} className="grid grid-cols-[1fr_4rem_4rem_1.5rem] gap-2 items-center">
+                  <span className="truncate">{tag}</span>
+                  <MinutesInput
+                    value={override.staleAfterMs}
+                    inherited={settings.staleAfterMs}
+                    label={`${tag}: stale after, minutes`}
+                    onChange={(staleAfterMs) =>
+                      onTagOverrideChange(tag, { ...override, staleAfterMs })
+                    }
+                  />
+                  <MinutesInput
+                    value={override.offlineAfterMs}
+                    inherited={settings.offlineAfterMs}
+                    label={`${tag}: offline after, minutes`}
+                    onChange={(offlineAfterMs) =>
+                      onTagOverrideChange(tag, { ...override, offlineAfterMs })
+                    }
+                  />
+                  <button
+                    onClick={() => onTagOverrideChange(tag, null)}
+                    className="text-foreground-secondary hover:text-danger"
+                    aria-label={`Remove override for ${tag}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              {availableTags.length > 0 && (
+                <div className="flex gap-2">
+                  <select
+                    value={newTag}
+                    onChange={(e) => setNewTag(e.target.value)}
+                    className={cn(inputClassName, 'flex-1')}
+                    aria-label="Tag to override"
+                  >
+                    <option value="">Choose a tag…</option>
+                    {availableTags.map((tag) => (
+                      <option key={tag} value={tag}>
+                        {tag}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleAddTag}
+                    disabled={!newTag}
+                    className="px-3 py-1 rounded-md border border-border hover:bg-card-hover disabled:opacity-50"
+                  >
+                    Add
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {/* Client overrides */}
+            <div className="space-y-2 border-t border-border pt-3">
+              <h4 className="font-medium">By client</h4>
+              {Object.entries(settings.clients).map(([clientId, override]) => {
+                const name = clientNames.get(clientId) ?? clientId;
+                return (
+                  <div key={clientId} className="space-y-1">
+                    <div className="grid grid-cols-[1fr_4rem_4rem_1.5rem] gap-2 items-center">
+                      <span className="truncate" title={clientId}>
+                        {name}
+                      </span>
+                      <MinutesInput
+                        value={override.staleAfterMs}
+                        inherited={settings.staleAfterMs}
+                        label={`${name}: stale after, minutes`}
+                        onChange={(staleAfterMs) =>
+                          onClientOverrideChange(clientId, { ...override, staleAfterMs })
+                        }
+                      />
+                      <MinutesInput
+                        value={override.offlineAfterMs}
+                        inherited={settings.offlineAfterMs}
+                        label={`${name}: offline after, minutes`}
+                        onChange={(offlineAfterMs) =>
+                          onClientOverrideChange(clientId, { ...override, offlineAfterMs })
+                        }
+                      />
+                      <button
+                        onClick={() => onClientOverrideChange(clientId, null)}
+                        className="text-foreground-secondary hover:text-danger"
+                        aria-label={`Remove override for ${name}`}
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <select
+                      value={override.source ?? settings.source}
+                      onChange={(e) =>
+                        onClientOverrideChange(clientId, {
+                          ...override,
+                          source: e.target.value as StatusSource,
+                        })
+                      }
+                      className={cn(inputClassName, 'w-full text-xs')}
+                      aria-label={`${name}: status from`}
+                    >
+                      {SOURCE_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          Status from: {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                );
+              })}
+              <div className="flex gap-2">
+                <input
+                  list="offline-detection-clients"
+                  value={newClient}
+                  onChange={(e) => setNewClient(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAddClient()}
+                  placeholder="Client name or ID"
+                  className={cn(inputClassName, 'flex-1 min-w-0')}
+                  aria-label="Client to override"
+                />
+                <datalist id="offline-detection-clients">
+                  {clients
+                    .filter((c) => !settings.clients[c.clientId])
+                    .map((c) => (
+                      <option key={c.clientId} value={c.clientName} />
+                    ))}
+                </datalist>
+                <button
+                  onClick={handleAddClient}
+                  disabled={!newClient.trim()}
+                  className="px-3 py-1 rounded-md border border-border hover:bg-card-hover disabled:opacity-50"
+                >
+                  Add
+                </button>
+              </div>
+            </div>
+
+            <p className="text-xs text-foreground-secondary">
+              Empty fields inherit the default. With several overridden tags, the longest threshold
+              applies; client settings win over tags.
+            </p>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { createContext, useCallback, useContext, useState } from 'react';
+import { AlertCircle, Loader2, RefreshCw } from 'lucide-react';
+import { configureApiClient } from '@/lib/api-client';
+import { configureAuth } from '@/lib/auth';
+import { queryCache } from '@/lib/query-cache';
+import {
+  DEFAULT_RUNTIME_CONFIG,
+  RuntimeConfig,
+  describeRuntimeConfigError,
+  fetchRuntimeConfig,
+  setRuntimeConfig,
+} from '@/lib/runtime-config';
+
+const RuntimeConfigContext = createContext<RuntimeConfig>(DEFAULT_RUNTIME_CONFIG);
+
+/**
+ * Make the configuration current for code outside React and repoint the API client,
+ * authenticated as configured
+ */
+function applyRuntimeConfig(config: RuntimeConfig): void {
+  setRuntimeConfig(config);
+  configureAuth(config.auth);
+  configureApiClient({ apiUrl: config.apiUrl, backends: config.backends });
+}
+
+/**
+ * Shown instead of the app when the configuration cannot be loaded or is invalid
+ */
+function RuntimeConfigErrors({ errors, onRetry }: { errors: string[]; onRetry: () => void }) {
+  return (
+    <main className="min-h-screen flex items-center justify-center p-6">
+      <div className="max-w-xl w-full p-8 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-950/20">
+        <div className="flex items-center gap-3 text-red-600 dark:text-red-400 mb-4">
+          <AlertCircle className="h-6 w-6 flex-shrink-0" />
+          <h1 className="text-lg font-semibold text-red-900 dark:text-red-100">
+            The dashboard configuration is invalid
+          </h1>
+        </div>
+        <ul className="list-disc pl-5 space-y-1 text-sm text-red-700 dark:text-red-300 mb-6">
+          {errors.map((error) => (
+            <li key={error} className="font-mono break-words">
+              {error}
+            </li>
+          ))}
+        </ul>
+        <button
+          onClick={onRetry}
+          className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 dark:bg-red-700 dark:hover:bg-red-600 text-white rounded-md transition-colors"
+        >
+          <RefreshCw className="h-4 w-4" />
+          Retry
+        </button>
+      </div>
+    </main>
+  );
+}
+
+interface RuntimeConfigProviderProps {
+  /**
+   * Configuration loaded by the server; `errors` when it is invalid
+   */
+  initialConfig: RuntimeConfig | null;
+  initialErrors?: string[];
+  children: React.ReactNode;
+}
+
+/**
+ * RuntimeConfigProvider Component
+ * Applies the configuration the server loaded before rendering the app, so every API
+ * request and default already uses it. It is fetched again only when retrying after errors
+ */
+export function RuntimeConfigProvider({
+  initialConfig,
+  initialErrors,
+  children,
+}: RuntimeConfigProviderProps) {
+  // Applied during the first render, before any child effect sends a request
+  const [config, setConfig] = useState<RuntimeConfig | null>(() => {
+    if (initialConfig) applyRuntimeConfig(initialConfig);
+    return initialConfig;
+  });
+  const [errors, setErrors] = useState<string[] | null>(initialErrors ?? null);
+  const [reloading, setReloading] = useState(false);
+
+  const reload = useCallback(() => {
+    setReloading(true);
+    fetchRuntimeConfig()
+      .then((loaded) => {
+        applyRuntimeConfig(loaded);
+        // Cached responses may come from the previous backends
+        queryCache.clear();
+        setConfig(loaded);
+        setErrors(null);
+      })
+      .catch((error) => setErrors(describeRuntimeConfigError(error)))
+      .finally(() => setReloading(false));
+  }, []);
+
+  if (reloading && !config) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (errors || !config) {
+    return <RuntimeConfigErrors errors={errors ?? []} onRetry={reload} />;
+  }
+
+  return <RuntimeConfigContext.Provider value={config}>{children}</RuntimeConfigContext.Provider>;
+}
+
+/**
+ * The loaded runtime configuration
+ */
+export function useRuntimeConfig(): RuntimeConfig {
+  return useContext(RuntimeConfigContext);
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FileWarning } from 'lucide-react';
+import { SchemaDriftEntry, SchemaProblem } from '@/lib/schema';
+import { cn, formatRelativeTime } from '@/lib/utils';
+
+interface SchemaDriftPanelProps {
+  entries: SchemaDriftEntry[];
+  onClear: () => void;
+}
+
+const PROBLEM_LABELS: Record<SchemaProblem, string> = {
+  coerced: 'Converted',
+  defaulted: 'Defaulted',
+  dropped: 'Dropped',
+  rejected: 'Rejected',
+};
+
+const PROBLEM_COLORS: Record<SchemaProblem, string> = {
+  coerced: 'text-foreground-secondary',
+  defaulted: 'text-warning',
+  dropped: 'text-warning',
+  rejected: 'text-danger',
+};
+
+function DriftRow({ entry, showSource }: { entry: SchemaDriftEntry; showSource: boolean }) {
+  return (
+    <li className="rounded-md border border-border bg-background-secondary p-3 space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <code className="font-semibold truncate">
+          {entry.entity}.{entry.field}
+        </code>
+        <span className={cn('text-xs font-medium', PROBLEM_COLORS[entry.problem])}>
+          {PROBLEM_LABELS[entry.problem]} ×{entry.count}
+        </span>
+      </div>
+      <p className="text-xs text-foreground-secondary">
+        Expected {entry.expected}, got {entry.lastReceived}
+        {entry.lastClientId ? ` (${entry.lastClientId})` : ''}
+      </p>
+      <p className="text-xs text-foreground-secondary">
+        Last seen {formatRelativeTime(entry.lastSeen)}
+        {showSource ? ` • ${entry.source}` : ''}
+      </p>
+    </li>
+  );
+}
+
+/**
+ * SchemaDriftPanel Component
+ * Header popover listing fields where API responses differ from the expected schema,
+ * so a backend/dashboard version mismatch is visible without opening the console
+ * Hidden while no drift has been seen
+ */
+export function SchemaDriftPanel({ entries, onClear }: SchemaDriftPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close popover when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  if (entries.length === 0) return null;
+
+  const hasRejections = entries.some((entry) => entry.problem === 'rejected');
+  const showSource = new Set(entries.map((entry) => entry.source)).size > 1;
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative rounded-lg p-2 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+        aria-label={`Schema drift: ${entries.length} fields`}
+        title="API responses differ from the expected schema"
+      >
+        <FileWarning className={cn('h-5 w-5', hasRejections ? 'text-danger' : 'text-warning')} />
+        <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-warning text-white text-[10px] font-bold flex items-center justify-center">
+          {entries.length}
+        </span>
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            className="absolute right-0 mt-2 w-96 max-h-[70vh] overflow-y-auto bg-card border border-border rounded-lg shadow-lg z-50 p-4 space-y-3 text-sm"
+            initial={{ opacity: 0, y: -10, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -10, scale: 0.95 }}
+            transition={{ duration: 0.2 }}
+          >
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold">Schema drift</h3>
+              <button
+                onClick={onClear}
+                className="text-xs text-foreground-secondary hover:text-foreground"
+              >
+                Clear
+              </button>
+            </div>
+            <p className="text-xs text-foreground-secondary">
+              Fields the server sent in an unexpected format. Affected values were converted or
+              replaced with defaults, so clients still show but some numbers may be missing.
+            </p>
+            <ul className="space-y-2">
+              {entries.map((entry) => (
+                <DriftRow key={entry.key} entry={entry} showSource={showSource} />
+              ))}
+            </ul>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
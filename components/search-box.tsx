@@ -0,0 +1,244 @@
+'use client';
+
+import {
+  ChangeEvent,
+  KeyboardEvent,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Search, X } from 'lucide-react';
+import {
+  QuerySuggestion,
+  QuerySuggestionSource,
+  getQuerySuggestions,
+  parseClientQuery,
+} from '@/lib/client-query';
+import { cn } from '@/lib/utils';
+
+interface SearchBoxProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  suggestionSource: QuerySuggestionSource;
+  resultCount?: number;
+}
+
+/**
+ * Delay before the typed query is applied to the list
+ */
+const QUERY_DEBOUNCE_MS = 200;
+
+/**
+ * Replace the token being typed with the accepted suggestion
+ */
+function applySuggestion(value: string, suggestion: QuerySuggestion): string {
+  const lastSpace = value.search(/\S+$/);
+  const prefix = lastSpace === -1 ? value : value.slice(0, lastSpace);
+  const completesField =
+    suggestion.insertText.endsWith(':') || /[<>=]$/.test(suggestion.insertText);
+  return `${prefix}${suggestion.insertText}${completesField ? '' : ' '}`;
+}
+
+/**
+ * SearchBox Component
+ * Full-text and structured search for the client list with autocomplete
+ * Press "/" anywhere on the page to focus it
+ */
+export function SearchBox({ query, onQueryChange, suggestionSource, resultCount }: SearchBoxProps) {
+  const [value, setValue] = useState(query);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Last query sent upwards, so its echo does not overwrite newer typing
+  const sentQueryRef = useRef(query);
+
+  const applyQuery = useCallback(
+    (next: string) => {
+      sentQueryRef.current = next;
+      onQueryChange(next);
+    },
+    [onQueryChange]
+  );
+
+  // Follow external changes, e.g. back/forward navigation
+  useEffect(() => {
+    if (query === sentQueryRef.current) return;
+    sentQueryRef.current = query;
+    setValue(query);
+  }, [query]);
+
+  // Debounce applying the query while typing
+  useEffect(() => {
+    if (value === sentQueryRef.current) return;
+    const timeoutId = setTimeout(() => applyQuery(value), QUERY_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [value, applyQuery]);
+
+  // Focus with "/" unless the user is already typing somewhere
+  useEffect(() => {
+    const handleKeyDown = (event: globalThis.KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (
+        event.key !== '/' ||
+        target.isContentEditable ||
+        ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+      ) {
+        return;
+      }
+      event.preventDefault();
+      inputRef.current?.focus();
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Close suggestions when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const suggestions = useMemo(
+    () => getQuerySuggestions(value, suggestionSource),
+    [value, suggestionSource]
+  );
+  const errors = useMemo(() => parseClientQuery(value).errors, [value]);
+
+  const acceptSuggestion = (suggestion: QuerySuggestion) => {
+    setValue(applySuggestion(value, suggestion));
+    setActiveIndex(0);
+    inputRef.current?.focus();
+  };
+
+  const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
+    setValue(e.target.value);
+    setActiveIndex(0);
+    setIsOpen(true);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    const showingSuggestions = isOpen && suggestions.length > 0;
+
+    if (e.key === 'ArrowDown' && showingSuggestions) {
+      e.preventDefault();
+      setActiveIndex((activeIndex + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && showingSuggestions) {
+      e.preventDefault();
+      setActiveIndex((activeIndex - 1 + suggestions.length) % suggestions.length);
+    } else if ((e.key === 'Tab' || e.key === 'Enter') && showingSuggestions) {
+      e.preventDefault();
+      acceptSuggestion(suggestions[activeIndex]);
+    } else if (e.key === 'Enter') {
+      applyQuery(value);
+      setIsOpen(false);
+    } else if (e.key === 'Escape') {
+      if (isOpen) {
+        setIsOpen(false);
+      } else {
+        inputRef.current?.blur();
+      }
+    }
+  };
+
+  const handleClear = () => {
+    setValue('');
+    applyQuery('');
+    inputRef.current?.focus();
+  };
+
+  return (
+    <div className="relative w-full max-w-xl" ref={containerRef}>
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-foreground-secondary pointer-events-none" />
+        <input
+          ref={inputRef}
+          type="text"
+          value={value}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsOpen(true)}
+          placeholder='Search clients, e.g. tag:prod cpu>80 location:"Frankfurt"'
+          className={cn(
+            'w-full pl-9 pr-20 py-2 rounded-md text-sm',
+            'bg-card text-foreground border border-border',
+            'focus:outline-none focus:border-primary transition-colors'
+          )}
+          aria-label="Search clients"
+          aria-autocomplete="list"
+          aria-expanded={isOpen && suggestions.length > 0}
+          spellCheck={false}
+          autoComplete="off"
+        />
+        <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1">
+          {value && resultCount !== undefined && (
+            <span className="text-xs text-foreground-secondary tabular-nums">{resultCount}</span>
+          )}
+          {value ? (
+            <button
+              onClick={handleClear}
+              className="p-1 rounded hover:bg-background-secondary transition-colors"
+              aria-label="Clear search"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          ) : (
+            <kbd className="px-1.5 text-xs text-foreground-secondary border border-border rounded">
+              /
+            </kbd>
+          )}
+        </div>
+      </div>
+
+      {errors.length > 0 && <p className="mt-1 text-xs text-danger">{errors.join(' • ')}</p>}
+
+      <AnimatePresence>
+        {isOpen && suggestions.length > 0 && (
+          <motion.ul
+            className="absolute left-0 right-0 mt-1 bg-card border border-border rounded-md shadow-lg z-30 py-1 text-sm"
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            transition={{ duration: 0.15 }}
+            role="listbox"
+          >
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion.insertText}
+                role="option"
+                aria-selected={index === activeIndex}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  acceptSuggestion(suggestion);
+                }}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={cn(
+                  'flex items-center justify-between gap-4 px-3 py-1.5 cursor-pointer',
+                  index === activeIndex && 'bg-background-secondary'
+                )}
+              >
+                <span className="font-mono">{suggestion.label}</span>
+                {suggestion.description && (
+                  <span className="text-xs text-foreground-secondary truncate">
+                    {suggestion.description}
+                  </span>
+                )}
+              </li>
+            ))}
+          </motion.ul>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
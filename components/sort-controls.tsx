@@ -0,0 +1,91 @@
+'use client';
+
+import { ArrowDownWideNarrow, ArrowUpNarrowWide } from 'lucide-react';
+import { ClientSort, DEFAULT_SORT_DIRECTIONS, SORT_KEYS, SortKey } from '@/lib/client-sort';
+import { cn } from '@/lib/utils';
+
+interface SortControlsProps {
+  sort: ClientSort;
+  onSortChange: (sort: ClientSort) => void;
+}
+
+const selectClassName = cn(
+  'px-2 py-2 rounded-md text-sm',
+  'bg-card text-foreground border border-border',
+  'hover:border-primary/50 focus:outline-none focus:border-primary transition-colors'
+);
+
+/**
+ * SortControls Component
+ * Primary sort key with direction and an optional secondary key
+ */
+export function SortControls({ sort, onSortChange }: SortControlsProps) {
+  const handleKeyChange = (key: SortKey) => {
+    onSortChange({
+      key,
+      direction: DEFAULT_SORT_DIRECTIONS[key],
+      secondaryKey: sort.secondaryKey === key ? undefined : sort.secondaryKey,
+    });
+  };
+
+  const handleDirectionToggle = () => {
+    onSortChange({ ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' });
+  };
+
+  const handleSecondaryChange = (value: string) => {
+    onSortChange({ ...sort, secondaryKey: value ? (value as SortKey) : undefined });
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <label className="text-foreground-secondary" htmlFor="sort-key">
+        Sort
+      </label>
+      <select
+        id="sort-key"
+        value={sort.key}
+        onChange={(e) => handleKeyChange(e.target.value as SortKey)}
+        className={selectClassName}
+      >
+        {SORT_KEYS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      <button
+        onClick={handleDirectionToggle}
+        className={cn(
+          'p-2 rounded-md bg-card border border-border',
+          'hover:border-primary/50 transition-colors'
+        )}
+        aria-label={sort.direction === 'asc' ? 'Sort ascending' : 'Sort descending'}
+        title={sort.direction === 'asc' ? 'Ascending' : 'Descending'}
+      >
+        {sort.direction === 'asc' ? (
+          <ArrowUpNarrowWide className="w-4 h-4" />
+        ) : (
+          <ArrowDownWideNarrow className="w-4 h-4" />
+        )}
+      </button>
+
+      <label className="text-foreground-secondary" htmlFor="sort-secondary-key">
+        then
+      </label>
+      <select
+        id="sort-secondary-key"
+        value={sort.secondaryKey ?? ''}
+        onChange={(e) => handleSecondaryChange(e.target.value)}
+        className={selectClassName}
+      >
+        <option value="">None</option>
+        {SORT_KEYS.filter((option) => option.value !== sort.key).map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
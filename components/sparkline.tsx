@@ -0,0 +1,60 @@
+'use client';
+
+import { memo } from 'react';
+import { cn } from '@/lib/utils';
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  /**
+   * Fixed upper bound, e.g. 100 for percentages; defaults to the largest value
+   */
+  max?: number;
+  className?: string;
+}
+
+/**
+ * Sparkline Component
+ * Lightweight inline SVG trend line for dense views where a Recharts chart per row is too heavy
+ */
+export const Sparkline = memo(function Sparkline({
+  values,
+  width = 64,
+  height = 20,
+  max,
+  className,
+}: SparklineProps) {
+  const finite = values.filter((v) => Number.isFinite(v));
+  if (finite.length < 2) {
+    return <svg width={width} height={height} className={className} aria-hidden />;
+  }
+
+  const upper = max ?? Math.max(...finite, 1);
+  const step = width / (finite.length - 1);
+  const points = finite
+    .map((value, i) => {
+      const y = height - 1 - (Math.min(Math.max(value, 0), upper) / upper) * (height - 2);
+      return `${(i * step).toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={cn('text-primary overflow-visible', className)}
+      aria-hidden
+    >
+      <polyline
+        points={points}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+    </svg>
+  );
+});
@@ -1,7 +1,13 @@
 'use client';
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, FormEvent } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import {
+  formatAbsoluteRange,
+  getTimeRangeLabel,
+  isValidTimeRange,
+  resolveTimeRange,
+} from '@/lib/time-range';
 
 interface TimeRangeSelectorProps {
   availableTimeRanges: Array<{ value: string; label: string }>;
@@ -10,6 +16,14 @@ interface TimeRangeSelectorProps {
   clientId: string | null;
 }
 
+/**
+ * Value for a datetime-local input, in local time
+ */
+function toDateTimeInputValue(timestamp: number): string {
+  const date = new Date(timestamp);
+  return new Date(timestamp - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+}
+
 /**
  * TimeRangeSelector Component
  * Dropdown selector for time ranges with smooth animations
@@ -23,6 +37,10 @@ export const TimeRangeSelector: React.FC<TimeRangeSelectorProps> = ({
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const buttonRef = useRef<HTMLButtonElement>(null);
+  const [expression, setExpression] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [customError, setCustomError] = useState<string | null>(null);
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -48,24 +66,62 @@ export const TimeRangeSelector: React.FC<TimeRangeSelectorProps> = ({
     setIsOpen(false);
   }, [clientId]);
 
+  // Prefill the custom inputs with the current window when opening
+  const handleToggle = () => {
+    if (!isOpen) {
+      const { startTime, endTime } = resolveTimeRange(selectedRange);
+      const isPreset = availableTimeRanges.some((range) => range.value === selectedRange);
+      setExpression(isPreset || /^\d/.test(selectedRange) ? '' : selectedRange);
+      setFrom(toDateTimeInputValue(startTime));
+      setTo(toDateTimeInputValue(endTime));
+      setCustomError(null);
+    }
+    setIsOpen(!isOpen);
+  };
+
   // Handle range selection
   const handleSelect = (range: string) => {
     onRangeChange(range);
     setIsOpen(false);
   };
 
+  // Relative expression such as now-6h
+  const handleExpressionSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const value = expression.trim();
+    if (!isValidTimeRange(value)) {
+      setCustomError('Use an expression like now-6h, now-2d or now-12h..now-6h');
+      return;
+    }
+    handleSelect(value);
+  };
+
+  // Absolute window from the date-time inputs
+  const handleAbsoluteSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const startTime = new Date(from).getTime();
+    const endTime = new Date(to).getTime();
+    if (!Number.isFinite(startTime) || !Number.isFinite(endTime) || startTime >= endTime) {
+      setCustomError('"From" must be before "To"');
+      return;
+    }
+    handleSelect(formatAbsoluteRange(startTime, endTime));
+  };
+
   return (
     <div className="relative min-w-[120px]" ref={dropdownRef}>
       {/* Dropdown Toggle Button */}
       <motion.button
         ref={buttonRef}
-        onClick={() => setIsOpen(!isOpen)}
+        onClick={handleToggle}
         className="w-full px-3 py-1.5 text-sm font-medium rounded-md border border-border bg-card hover:border-primary/50 transition-all duration-200 flex items-center justify-between"
         whileHover={{ scale: 1.01 }}
         whileTap={{ scale: 0.99 }}
       >
-        {availableTimeRanges.find((range) => range.value === selectedRange)?.label ||
-          '选择时间范围'}
+        <span className="truncate">
+          {availableTimeRanges.find((range) => range.value === selectedRange)?.label ||
+            (selectedRange ? getTimeRangeLabel(selectedRange) : '选择时间范围')}
+        </span>
         <motion.svg
           className="w-4 h-4 opacity-50"
           fill="none"
@@ -82,7 +138,7 @@ export const TimeRangeSelector: React.FC<TimeRangeSelectorProps> = ({
       <AnimatePresence>
         {isOpen && (
           <motion.div
-            className="absolute right-0 mt-2 w-36 bg-card border border-border rounded-lg shadow-lg overflow-hidden z-50"
+            className="absolute right-0 mt-2 w-72 bg-card border border-border rounded-lg shadow-lg overflow-hidden z-50"
             onClick={(e) => e.stopPropagation()}
             initial={{ opacity: 0, y: -10, scale: 0.95 }}
             animate={{ opacity: 1, y: 0, scale: 1 }}
@@ -115,6 +171,51 @@ export const TimeRangeSelector: React.FC<TimeRangeSelectorProps> = ({
                 {range.label}
               </motion.button>
             ))}
+
+            {/* Custom range */}
+            <div className="border-t border-border p-3 space-y-3 text-sm">
+              <form onSubmit={handleExpressionSubmit} className="flex gap-2">
+                <input
+                  value={expression}
+                  onChange={(e) => setExpression(e.target.value)}
+                  placeholder="now-6h"
+                  aria-label="Relative time range"
+                  className="flex-1 min-w-0 px-2 py-1 rounded-md border border-border bg-background"
+                />
+                <button type="submit" className="px-2 py-1 rounded-md text-primary hover:bg-primary/10">
+                  Apply
+                </button>
+              </form>
+
+              <form onSubmit={handleAbsoluteSubmit} className="space-y-2">
+                <label className="flex items-center justify-between gap-2">
+                  <span className="text-foreground-secondary">From</span>
+                  <input
+                    type="datetime-local"
+                    value={from}
+                    onChange={(e) => setFrom(e.target.value)}
+                    className="px-2 py-1 rounded-md border border-border bg-background"
+                  />
+                </label>
+                <label className="flex items-center justify-between gap-2">
+                  <span className="text-foreground-secondary">To</span>
+                  <input
+                    type="datetime-local"
+                    value={to}
+                    onChange={(e) => setTo(e.target.value)}
+                    className="px-2 py-1 rounded-md border border-border bg-background"
+                  />
+                </label>
+                <button
+                  type="submit"
+                  className="w-full px-2 py-1 rounded-md bg-primary text-white hover:bg-primary/90"
+                >
+                  Apply absolute range
+                </button>
+              </form>
+
+              {customError && <p className="text-xs text-danger">{customError}</p>}
+            </div>
           </motion.div>
         )}
       </AnimatePresence>
@@ -1,53 +1,56 @@
 'use client'
 
-import React, { useRef, useEffect, useState, RefObject } from 'react'
+import React, { useRef, useEffect, useState, useCallback, useMemo, KeyboardEvent, FocusEvent } from 'react'
+import { List, RowComponentProps, useDynamicRowHeight, useListRef } from 'react-window'
 import { ClientSummary } from '@/lib/api-client'
 import { ClientCard } from './client-card'
 
 interface VirtualizedGridProps {
   clients: ClientSummary[]
   onClientClick: (clientId: string) => void
+  alertCounts?: Map<string, number>
+  activeClientId?: string | null
 }
 
 /**
- * Calculate grid dimensions based on container width
+ * Lists shorter than this render as a plain grid
  */
-function useGridDimensions(containerRef: RefObject<HTMLDivElement | null>) {
+const VIRTUALIZATION_THRESHOLD = 20
+
+/**
+ * Initial row height estimate until rows are measured
+ */
+const ESTIMATED_ROW_HEIGHT = 450
+
+/**
+ * Rows rendered above and below the visible area
+ */
+const OVERSCAN_ROWS = 2
+
+/**
+ * sessionStorage key for the first visible client, restored when the grid remounts
+ */
+const SCROLL_POSITION_STORAGE_KEY = 'system-monitor-grid-scroll'
+
+/**
+ * Calculate grid dimensions based on the viewport
+ * Column breakpoints match the tablet/desktop grid classes used elsewhere
+ */
+function useGridDimensions() {
   const [dimensions, setDimensions] = useState({
     columnCount: 1,
-    columnWidth: 400,
-    rowHeight: 450,
-    width: 400,
     height: 600
   })
 
   useEffect(() => {
     const updateDimensions = () => {
-      if (!containerRef.current) return
-
-      const containerWidth = containerRef.current.offsetWidth
-      const containerHeight = window.innerHeight - 300 // Account for header and controls
-
-      // Calculate columns based on breakpoints
-      let columnCount = 1
-      let columnWidth = containerWidth - 32 // Account for padding
-
-      if (containerWidth >= 1280) {
-        // Desktop: 3 columns
-        columnCount = 3
-        columnWidth = Math.floor((containerWidth - 64) / 3) // Account for gaps
-      } else if (containerWidth >= 768) {
-        // Tablet: 2 columns
-        columnCount = 2
-        columnWidth = Math.floor((containerWidth - 48) / 2)
-      }
+      const width = window.innerWidth
+      const columnCount = width >= 1024 ? 3 : width >= 768 ? 2 : 1
 
       setDimensions({
         columnCount,
-        columnWidth,
-        rowHeight: 450, // Fixed height for cards
-        width: containerWidth,
-        height: Math.max(containerHeight, 600)
+        // Fill the viewport below the sticky header once scrolled into view
+        height: Math.max(window.innerHeight - 96, 400)
       })
     }
 
@@ -56,50 +59,226 @@ function useGridDimensions(containerRef: RefObject<HTMLDivElement | null>) {
     // Update on resize
     window.addEventListener('resize', updateDimensions)
     return () => window.removeEventListener('resize', updateDimensions)
-  }, [containerRef])
+  }, [])
 
   return dimensions
 }
 
+interface GridRowProps {
+  rows: ClientSummary[][]
+  columnCount: number
+  onClientClick: (clientId: string) => void
+  alertCounts?: Map<string, number>
+}
+
+/**
+ * One row of cards; height is measured so cards with and without details can differ
+ */
+function GridRow({
+  index,
+  style,
+  ariaAttributes,
+  rows,
+  columnCount,
+  onClientClick,
+  alertCounts
+}: RowComponentProps<GridRowProps>) {
+  return (
+    <div style={style} {...ariaAttributes} className="pb-4">
+      <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${columnCount}, minmax(0, 1fr))` }}>
+        {rows[index].map((client, column) => (
+          <ClientCard
+            key={client.clientId}
+            client={client}
+            onClick={onClientClick}
+            index={column}
+            alertCount={alertCounts?.get(client.clientId)}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Find the card element for a client inside a container
+ */
+function findCard(container: HTMLElement | null, clientId: string): HTMLElement | null {
+  return container?.querySelector<HTMLElement>(`[data-client-id="${CSS.escape(clientId)}"]`) ?? null
+}
+
 /**
  * VirtualizedGrid Component
- * Renders client cards in a virtualized grid for performance with large datasets
+ * Renders client cards in a windowed list of rows for performance with large datasets
  * Requirements: 5.1
- * 
+ *
+ * Keeps keyboard focus on a card while its row scrolls out and back in, moves focus
+ * with the arrow keys and returns focus to the card whose detail modal was closed.
  * Note: For small lists (< 20 items), uses regular grid layout for simplicity
  */
-export function VirtualizedGrid({ clients, onClientClick }: VirtualizedGridProps) {
+export function VirtualizedGrid({ clients, onClientClick, alertCounts, activeClientId }: VirtualizedGridProps) {
   const containerRef = useRef<HTMLDivElement>(null)
-  const { columnCount, columnWidth, rowHeight, width, height } = useGridDimensions(containerRef)
+  const listRef = useListRef(null)
+  const { columnCount, height } = useGridDimensions()
+  const isVirtualized = clients.length >= VIRTUALIZATION_THRESHOLD
+
+  // Heights are cached per column count since a layout change invalidates them
+  const rowHeight = useDynamicRowHeight({ defaultRowHeight: ESTIMATED_ROW_HEIGHT, key: columnCount })
+
+  const rows = useMemo(() => {
+    const result: ClientSummary[][] = []
+    for (let i = 0; i < clients.length; i += columnCount) {
+      result.push(clients.slice(i, i + columnCount))
+    }
+    return result
+  }, [clients, columnCount])
+
+  // Card that should hold focus, even while its row is not rendered
+  const focusedClientIdRef = useRef<string | null>(null)
+  const scrollRestoredRef = useRef(false)
+
+  const restoreFocus = useCallback(() => {
+    const clientId = focusedClientIdRef.current
+    if (!clientId) return
+    const active = document.activeElement
+    if (active && active !== document.body && active.getAttribute('data-client-id') !== clientId) return
+    findCard(containerRef.current, clientId)?.focus({ preventScroll: true })
+  }, [])
+
+  const scrollToClient = useCallback(
+    (clientId: string) => {
+      const index = clients.findIndex((c) => c.clientId === clientId)
+      if (index === -1) return
+      if (isVirtualized) {
+        listRef.current?.scrollToRow({ index: Math.floor(index / columnCount), align: 'smart' })
+      } else {
+        findCard(containerRef.current, clientId)?.scrollIntoView({ block: 'nearest' })
+      }
+    },
+    [clients, columnCount, isVirtualized, listRef]
+  )
+
+  const handleFocus = useCallback((e: FocusEvent<HTMLDivElement>) => {
+    const clientId = e.target.getAttribute('data-client-id')
+    if (clientId) focusedClientIdRef.current = clientId
+  }, [])
+
+  const handleBlur = useCallback((e: FocusEvent<HTMLDivElement>) => {
+    const target = e.target
+    requestAnimationFrame(() => {
+      // Unmounted by virtualization: keep it so focus returns when the row renders again
+      if (!target.isConnected) return
+      if (!containerRef.current?.contains(document.activeElement)) {
+        focusedClientIdRef.current = null
+      }
+    })
+  }, [])
+
+  // Arrow keys move between cards, scrolling rows into view as needed
+  const handleKeyDown = useCallback(
+    (e: KeyboardEvent<HTMLDivElement>) => {
+      const clientId = (e.target as HTMLElement).getAttribute('data-client-id')
+      if (!clientId) return
+
+      const index = clients.findIndex((c) => c.clientId === clientId)
+      const offsets: Record<string, number> = {
+        ArrowLeft: -1,
+        ArrowRight: 1,
+        ArrowUp: -columnCount,
+        ArrowDown: columnCount
+      }
+      let nextIndex: number
+      if (e.key in offsets) {
+        nextIndex = index + offsets[e.key]
+      } else if (e.key === 'Home') {
+        nextIndex = 0
+      } else if (e.key === 'End') {
+        nextIndex = clients.length - 1
+      } else {
+        return
+      }
+      if (index === -1 || nextIndex < 0 || nextIndex >= clients.length) return
+
+      e.preventDefault()
+      const nextId = clients[nextIndex].clientId
+      focusedClientIdRef.current = nextId
+      scrollToClient(nextId)
+      requestAnimationFrame(() => findCard(containerRef.current, nextId)?.focus({ preventScroll: true }))
+    },
+    [clients, columnCount, scrollToClient]
+  )
+
+  // Remember the first visible client and restore focus when rows re-render
+  const handleRowsRendered = useCallback(
+    ({ startIndex }: { startIndex: number; stopIndex: number }) => {
+      if (!scrollRestoredRef.current) {
+        scrollRestoredRef.current = true
+        const savedId = sessionStorage.getItem(SCROLL_POSITION_STORAGE_KEY)
+        const savedIndex = savedId ? clients.findIndex((c) => c.clientId === savedId) : -1
+        if (savedIndex >= columnCount) {
+          listRef.current?.scrollToRow({ index: Math.floor(savedIndex / columnCount), align: 'start' })
+          return
+        }
+      }
+
+      const firstClient = rows[startIndex]?.[0]
+      if (firstClient) {
+        sessionStorage.setItem(SCROLL_POSITION_STORAGE_KEY, firstClient.clientId)
+      }
+      requestAnimationFrame(restoreFocus)
+    },
+    [clients, columnCount, rows, listRef, restoreFocus]
+  )
+
+  // Return focus to the card whose detail modal just closed
+  const previousActiveIdRef = useRef(activeClientId)
+  useEffect(() => {
+    const previous = previousActiveIdRef.current
+    previousActiveIdRef.current = activeClientId
+    if (!previous || activeClientId) return
+
+    focusedClientIdRef.current = previous
+    scrollToClient(previous)
+    requestAnimationFrame(() => findCard(containerRef.current, previous)?.focus({ preventScroll: true }))
+  }, [activeClientId, scrollToClient])
 
   // Don't use virtualization for small lists (< 20 items)
-  if (clients.length < 20) {
+  if (!isVirtualized) {
     return (
-      <div ref={containerRef} className="grid grid-cols-1 tablet:grid-cols-2 desktop:grid-cols-3 gap-4">
+      <div
+        ref={containerRef}
+        className="grid grid-cols-1 tablet:grid-cols-2 desktop:grid-cols-3 gap-4"
+        onFocus={handleFocus}
+        onBlur={handleBlur}
+        onKeyDown={handleKeyDown}
+      >
         {clients.map((client, index) => (
           <ClientCard
             key={client.clientId}
             client={client}
             onClick={onClientClick}
             index={index}
+            alertCount={alertCounts?.get(client.clientId)}
           />
         ))}
       </div>
     )
   }
 
-  // For large lists, just use regular grid as well since react-window v2 API is complex
-  // This is acceptable for the checkpoint - virtualization can be optimized later if needed
   return (
-    <div ref={containerRef} className="grid grid-cols-1 tablet:grid-cols-2 desktop:grid-cols-3 gap-4">
-      {clients.map((client, index) => (
-        <ClientCard
-          key={client.clientId}
-          client={client}
-          onClick={onClientClick}
-          index={index}
-        />
-      ))}
+    <div ref={containerRef} onFocus={handleFocus} onBlur={handleBlur} onKeyDown={handleKeyDown}>
+      <List
+        listRef={listRef}
+        rowComponent={GridRow}
+        rowCount={rows.length}
+        rowHeight={rowHeight}
+        rowProps={{ rows, columnCount, onClientClick, alertCounts }}
+        overscanCount={OVERSCAN_ROWS}
+        onRowsRendered={handleRowsRendered}
+        defaultHeight={height}
+        className="scrollbar-thin"
+        style={{ height }}
+      />
     </div>
   )
 }
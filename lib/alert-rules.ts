@@ -0,0 +1,415 @@
+/**
+ * Alert rules and evaluation
+ * Rules are evaluated client-side against the latest DynamicSystemStatus of each
+ * client and, when available, its history
+ */
+
+import { ClientDetail, ClientSummary, DynamicSystemStatus, StatusSample } from './api-client';
+
+/**
+ * Metric an alert rule watches
+ */
+export type AlertMetric =
+  'cpuUsage' | 'memoryUsage' | 'swapUsage' | 'diskUsage' | 'anyDiskUsage' | 'offline';
+
+export type AlertOperator = '>' | '>=' | '<' | '<=';
+
+/**
+ * Limit a rule to clients with a tag or to a single client
+ */
+export interface AlertScope {
+  tag?: string;
+  clientId?: string;
+}
+
+/**
+ * User-defined alert rule
+ * For `offline` rules the operator and threshold are ignored and `forMs` is the
+ * time since the client last reported
+ */
+export interface AlertRule {
+  id: string;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  forMs: number;
+  scope?: AlertScope;
+  enabled: boolean;
+}
+
+export type AlertState = 'pending' | 'firing' | 'resolved';
+
+/**
+ * Evaluation result for one rule on one client
+ */
+export interface AlertInstance {
+  key: string;
+  ruleId: string;
+  clientId: string;
+  clientName: string;
+  state: AlertState;
+  value: number | null;
+  activeSince: number;
+  firedAt?: number;
+  resolvedAt?: number;
+}
+
+/**
+ * Past status used to find when a condition started: full history or compact samples,
+ * which have no per-disk usage
+ */
+export type AlertHistorySample = StatusSample & Partial<Pick<DynamicSystemStatus, 'diskUsages'>>;
+
+/**
+ * How long resolved alerts stay in the alert center (1 hour)
+ */
+export const RESOLVED_ALERT_RETENTION_MS = 60 * 60 * 1000;
+
+const METRIC_ALIASES: Record<string, AlertMetric> = {
+  cpu: 'cpuUsage',
+  cpuusage: 'cpuUsage',
+  memory: 'memoryUsage',
+  mem: 'memoryUsage',
+  memoryusage: 'memoryUsage',
+  swap: 'swapUsage',
+  swapusage: 'swapUsage',
+  disk: 'diskUsage',
+  diskusage: 'diskUsage',
+  anydisk: 'anyDiskUsage',
+  anydiskusage: 'anyDiskUsage',
+  'diskusage.usagepercent': 'anyDiskUsage',
+  offline: 'offline',
+};
+
+const METRIC_LABELS: Record<AlertMetric, string> = {
+  cpuUsage: 'CPU',
+  memoryUsage: 'Memory',
+  swapUsage: 'Swap',
+  diskUsage: 'Disk',
+  anyDiskUsage: 'Any disk',
+  offline: 'Offline',
+};
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration such as "90s", "5m" or "1h"
+ */
+export function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([smhd])$/i);
+  if (!match) return null;
+  return Math.round(parseFloat(match[1]) * DURATION_UNITS[match[2].toLowerCase()]);
+}
+
+/**
+ * Format a duration in milliseconds using the largest whole unit
+ */
+export function formatDuration(ms: number): string {
+  for (const unit of ['d', 'h', 'm'] as const) {
+    if (ms >= DURATION_UNITS[unit] && ms % DURATION_UNITS[unit] === 0) {
+      return `${ms / DURATION_UNITS[unit]}${unit}`;
+    }
+  }
+  return `${Math.round(ms / 1000)}s`;
+}
+
+/**
+ * Generate a rule ID
+ */
+function createRuleId(): string {
+  return `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Parse a rule expression
+ * Examples: "cpu > 90 for 5m on tag=prod", "anyDisk > 85", "offline > 10m"
+ */
+export function parseRuleExpression(expression: string): AlertRule {
+  const match = expression
+    .trim()
+    .match(
+      /^([\w.]+)\s*(>=|<=|>|<)\s*(\S+)(?:\s+for\s+(\S+))?(?:\s+on\s+(tag|client)\s*=\s*(\S+))?$/i
+    );
+  if (!match) {
+    throw new Error('Expected "<metric> <op> <value> [for <duration>] [on tag=<tag>|client=<id>]"');
+  }
+
+  const [, metricName, operator, rawValue, rawFor, scopeType, scopeValue] = match;
+  const metric = METRIC_ALIASES[metricName.toLowerCase()];
+  if (!metric) {
+    throw new Error(`Unknown metric "${metricName}"`);
+  }
+
+  const scope: AlertScope | undefined = scopeType
+    ? scopeType.toLowerCase() === 'tag'
+      ? { tag: scopeValue }
+      : { clientId: scopeValue }
+    : undefined;
+
+  if (metric === 'offline') {
+    const forMs = parseDuration(rawValue);
+    if (forMs === null) {
+      throw new Error(`Invalid duration "${rawValue}"`);
+    }
+    return { id: createRuleId(), metric, operator: '>', threshold: 0, forMs, scope, enabled: true };
+  }
+
+  const threshold = Number(rawValue);
+  if (!Number.isFinite(threshold)) {
+    throw new Error(`Invalid threshold "${rawValue}"`);
+  }
+
+  const forMs = rawFor ? parseDuration(rawFor) : 0;
+  if (forMs === null) {
+    throw new Error(`Invalid duration "${rawFor}"`);
+  }
+
+  return {
+    id: createRuleId(),
+    metric,
+    operator: operator as AlertOperator,
+    threshold,
+    forMs,
+    scope,
+    enabled: true,
+  };
+}
+
+/**
+ * Format a rule back into its expression form
+ */
+export function formatRule(rule: AlertRule): string {
+  const scope = rule.scope?.tag
+    ? ` on tag=${rule.scope.tag}`
+    : rule.scope?.clientId
+      ? ` on client=${rule.scope.clientId}`
+      : '';
+
+  if (rule.metric === 'offline') {
+    return `offline > ${formatDuration(rule.forMs)}${scope}`;
+  }
+
+  const duration = rule.forMs > 0 ? ` for ${formatDuration(rule.forMs)}` : '';
+  return `${rule.metric} ${rule.operator} ${rule.threshold}${duration}${scope}`;
+}
+
+/**
+ * Human readable metric label
+ */
+export function getMetricLabel(metric: AlertMetric): string {
+  return METRIC_LABELS[metric];
+}
+
+/**
+ * Validate an imported rule list
+ * Throws with the index of the first invalid entry
+ */
+export function validateRules(input: unknown): AlertRule[] {
+  if (!Array.isArray(input)) {
+    throw new Error('Expected an array of rules');
+  }
+
+  return input.map((raw, index) => {
+    if (!raw || typeof raw !== 'object') {
+      throw new Error(`Rule ${index + 1}: expected an object`);
+    }
+
+    const rule = raw as Partial<AlertRule>;
+    if (!rule.metric || !(rule.metric in METRIC_LABELS)) {
+      throw new Error(`Rule ${index + 1}: unknown metric "${String(rule.metric)}"`);
+    }
+    if (rule.metric !== 'offline') {
+      if (!rule.operator || !['>', '>=', '<', '<='].includes(rule.operator)) {
+        throw new Error(`Rule ${index + 1}: invalid operator "${String(rule.operator)}"`);
+      }
+      if (typeof rule.threshold !== 'number' || !Number.isFinite(rule.threshold)) {
+        throw new Error(`Rule ${index + 1}: threshold must be a number`);
+      }
+    }
+    if (rule.forMs !== undefined && (typeof rule.forMs !== 'number' || rule.forMs < 0)) {
+      throw new Error(`Rule ${index + 1}: forMs must be a non-negative number`);
+    }
+
+    return {
+      id: typeof rule.id === 'string' && rule.id ? rule.id : createRuleId(),
+      metric: rule.metric,
+      operator: rule.operator ?? '>',
+      threshold: rule.threshold ?? 0,
+      forMs: rule.forMs ?? 0,
+      scope: rule.scope
+        ? {
+            ...(rule.scope.tag ? { tag: String(rule.scope.tag) } : {}),
+            ...(rule.scope.clientId ? { clientId: String(rule.scope.clientId) } : {}),
+          }
+        : undefined,
+      enabled: rule.enabled !== false,
+    };
+  });
+}
+
+/**
+ * Check whether a rule applies to a client
+ */
+function isInScope(rule: AlertRule, client: ClientSummary): boolean {
+  if (rule.scope?.clientId && rule.scope.clientId !== client.clientId) return false;
+  if (rule.scope?.tag && !(client.clientTags || []).includes(rule.scope.tag)) return false;
+  return true;
+}
+
+/**
+ * Read the watched metric from a status sample
+ */
+function getMetricValue(metric: AlertMetric, status: AlertHistorySample): number | null {
+  switch (metric) {
+    case 'cpuUsage':
+    case 'memoryUsage':
+    case 'swapUsage':
+    case 'diskUsage':
+      return Number.isFinite(status[metric]) ? status[metric] : null;
+    case 'anyDiskUsage': {
+      const percents = (status.diskUsages || []).map((d) => d.usagePercent);
+      return percents.length > 0 ? Math.max(...percents) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function compare(value: number, operator: AlertOperator, threshold: number): boolean {
+  switch (operator) {
+    case '>':
+      return value > threshold;
+    case '>=':
+      return value >= threshold;
+    case '<':
+      return value < threshold;
+    case '<=':
+      return value <= threshold;
+  }
+}
+
+/**
+ * Walk history backwards to find when the condition started holding continuously
+ */
+function findConditionStart(
+  rule: AlertRule,
+  history: AlertHistorySample[] | undefined,
+  fallback: number
+): number {
+  if (!history || history.length === 0) return fallback;
+
+  const sorted = [...history].sort((a, b) => b.timestamp - a.timestamp);
+  let start = fallback;
+  for (const sample of sorted) {
+    const value = getMetricValue(rule.metric, sample);
+    if (value === null || !compare(value, rule.operator, rule.threshold)) break;
+    start = Math.min(start, sample.timestamp);
+  }
+  return start;
+}
+
+function hasStatus(client: ClientSummary | ClientDetail): client is ClientDetail {
+  return 'currentStatus' in client && !!client.currentStatus;
+}
+
+/**
+ * Evaluate rules against clients, carrying pending/firing state over from the previous run
+ */
+export function evaluateAlerts(
+  rules: AlertRule[],
+  clients: Array<ClientSummary | ClientDetail>,
+  previous: Map<string, AlertInstance>,
+  now: number,
+  history?: Map<string, AlertHistorySample[]>
+): Map<string, AlertInstance> {
+  const next = new Map<string, AlertInstance>();
+
+  rules.forEach((rule) => {
+    if (!rule.enabled) return;
+
+    clients.forEach((client) => {
+      if (!isInScope(rule, client)) return;
+
+      const key = `${rule.id}:${client.clientId}`;
+      const prev = previous.get(key);
+      let value: number | null;
+      let conditionMet: boolean;
+      let observedSince: number;
+
+      if (rule.metric === 'offline') {
+        value = Math.max(0, now - client.lastUpdate);
+        conditionMet = client.status === 'offline';
+        observedSince = client.lastUpdate;
+      } else {
+        if (!hasStatus(client)) {
+          if (prev) next.set(key, prev);
+          return;
+        }
+        value = getMetricValue(rule.metric, client.currentStatus);
+        conditionMet = value !== null && compare(value, rule.operator, rule.threshold);
+        observedSince = findConditionStart(
+          rule,
+          history?.get(client.clientId),
+          client.currentStatus.timestamp || now
+        );
+      }
+
+      if (conditionMet) {
+        const activeSince =
+          prev && prev.state !== 'resolved'
+            ? Math.min(prev.activeSince, observedSince)
+            : observedSince;
+        const firing = now - activeSince >= rule.forMs;
+
+        next.set(key, {
+          key,
+          ruleId: rule.id,
+          clientId: client.clientId,
+          clientName: client.clientName,
+          state: firing ? 'firing' : 'pending',
+          value,
+          activeSince,
+          firedAt: firing
+            ? prev?.state === 'firing' && prev.firedAt
+              ? prev.firedAt
+              : now
+            : undefined,
+        });
+        return;
+      }
+
+      if (prev?.state === 'firing') {
+        next.set(key, { ...prev, state: 'resolved', value, resolvedAt: now });
+      } else if (
+        prev?.state === 'resolved' &&
+        prev.resolvedAt &&
+        now - prev.resolvedAt < RESOLVED_ALERT_RETENTION_MS
+      ) {
+        next.set(key, prev);
+      }
+    });
+  });
+
+  // Alerts of clients that left the fleet are resolved instead of disappearing
+  const clientIds = new Set(clients.map((client) => client.clientId));
+  const enabledRuleIds = new Set(rules.filter((rule) => rule.enabled).map((rule) => rule.id));
+  previous.forEach((prev, key) => {
+    if (next.has(key) || clientIds.has(prev.clientId) || !enabledRuleIds.has(prev.ruleId)) return;
+    if (prev.state === 'firing') {
+      next.set(key, { ...prev, state: 'resolved', resolvedAt: now });
+    } else if (
+      prev.state === 'resolved' &&
+      prev.resolvedAt &&
+      now - prev.resolvedAt < RESOLVED_ALERT_RETENTION_MS
+    ) {
+      next.set(key, prev);
+    }
+  });
+
+  return next;
+}
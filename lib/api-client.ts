@@ -3,6 +3,24 @@
  * Handles communication with the backend server
  */
 
+import { AuthError, AuthProvider, authProvider } from './auth';
+import {
+  BackendConfig,
+  getConfiguredBackends,
+  parseFederatedId,
+  setConfiguredBackends,
+  toFederatedId,
+} from './backends';
+import {
+  validateClientDetail,
+  validateClientDetails,
+  validateClientSummaries,
+  validateStatusHistory,
+  validateStatusPatch,
+  validateStatusSamples,
+  validateStreamClient,
+} from './schema';
+
 // Type definitions based on design document
 export interface DiskInfo {
   device: string;
@@ -45,6 +63,11 @@ export interface DynamicSystemStatus {
   timestamp: number;
 }
 
+/**
+ * The server reports online or offline; stale is assigned by client-side offline detection
+ */
+export type ClientStatus = 'online' | 'stale' | 'offline';
+
 export interface ClientSummary {
   clientId: string;
   clientName: string;
@@ -52,11 +75,15 @@ export interface ClientSummary {
   clientPurpose: string;
   hostname: string;
   platform: string;
-  status: 'online' | 'offline';
+  status: ClientStatus;
   lastUpdate: number;
   createdAt: number;
   lastOnlineAt: number | null;
   priority: number;
+  /**
+   * ID of the backend the client was loaded from, when several backends are federated
+   */
+  source?: string;
 }
 
 export interface ClientDetail extends ClientSummary {
@@ -64,11 +91,59 @@ export interface ClientDetail extends ClientSummary {
   currentStatus: DynamicSystemStatus;
 }
 
+/**
+ * Scalar metrics of a status sample, as returned by the compact samples endpoint
+ */
+export type StatusSample = Pick<
+  DynamicSystemStatus,
+  | 'timestamp'
+  | 'cpuUsage'
+  | 'memoryUsage'
+  | 'swapUsage'
+  | 'diskUsage'
+  | 'networkUpload'
+  | 'networkDownload'
+>;
+
 export interface HistoryQuery {
   startTime?: number;
   endTime?: number;
 }
 
+/**
+ * Message pushed by the backend over the live status stream
+ */
+export type StatusStreamMessage =
+  | { type: 'snapshot'; clients: ClientSummary[] }
+  | { type: 'client'; client: ClientSummary }
+  | { type: 'status'; clientId: string; status: Partial<DynamicSystemStatus> }
+  | { type: 'removed'; clientId: string };
+
+/**
+ * Transport used by the live status stream
+ */
+export type StreamTransport = 'websocket' | 'sse';
+
+/**
+ * Connection state of the live status stream
+ */
+export type StreamState = 'connecting' | 'open' | 'closed';
+
+/**
+ * Callbacks for a live status stream subscription
+ */
+export interface StatusStreamHandlers {
+  onMessage: (message: StatusStreamMessage) => void;
+  onStateChange?: (state: StreamState, transport: StreamTransport | null) => void;
+}
+
+/**
+ * Handle returned by ApiClient.subscribeToStatus
+ */
+export interface StatusStreamSubscription {
+  close: () => void;
+}
+
 export class ApiError extends Error {
   constructor(
     message: string,
@@ -80,6 +155,235 @@ export class ApiError extends Error {
   }
 }
 
+/**
+ * Maximum number of client IDs sent in one batch detail request
+ */
+const BATCH_DETAILS_CHUNK_SIZE = 100;
+
+/**
+ * Concurrent per-ID detail requests when the batch endpoint is unavailable
+ */
+const DETAIL_FETCH_CONCURRENCY = 6;
+
+/**
+ * Upper bound for the stream reconnect backoff (30 seconds)
+ */
+const MAX_STREAM_RETRY_DELAY_MS = 30 * 1000;
+
+/**
+ * Time limit for requesting a stream ticket, after which the stream reconnects (10 seconds)
+ */
+const STREAM_TICKET_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Parse a raw stream payload, ignoring anything that is not a known message
+ * Clients and status deltas are validated like fetched data; `source` identifies the backend
+ */
+function parseStreamMessage(raw: unknown, source: string): StatusStreamMessage | null {
+  if (typeof raw !== 'string') return null;
+
+  try {
+    const message = JSON.parse(raw);
+    if (!message || typeof message !== 'object') return null;
+
+    switch (message.type) {
+      case 'snapshot':
+        return Array.isArray(message.clients)
+          ? { type: 'snapshot', clients: validateClientSummaries(message.clients, source) }
+          : null;
+      case 'client': {
+        const client = validateStreamClient(message.client, source);
+        return client ? { type: 'client', client } : null;
+      }
+      case 'status':
+        return typeof message.clientId === 'string' && message.status
+          ? {
+              type: 'status',
+              clientId: message.clientId,
+              status: validateStatusPatch(message.status, source),
+            }
+          : null;
+      case 'removed':
+        return typeof message.clientId === 'string' ? message : null;
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Live status stream
+ * Connects over WebSocket and falls back to Server-Sent Events when the socket
+ * cannot be opened. Reconnects with exponential backoff until closed.
+ */
+class StatusStream implements StatusStreamSubscription {
+  private socket: WebSocket | null = null;
+  private eventSource: EventSource | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private transportIndex = 0;
+  private attempt = 0;
+  private closed = false;
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly handlers: StatusStreamHandlers,
+    private readonly retryDelay: number,
+    private readonly auth?: AuthProvider
+  ) {
+    this.connect();
+  }
+
+  /**
+   * Close the stream and stop reconnecting
+   */
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.teardown();
+    this.handlers.onStateChange?.('closed', null);
+  }
+
+  /**
+   * Transports supported by the current runtime, in order of preference
+   */
+  private getTransports(): StreamTransport[] {
+    const transports: StreamTransport[] = [];
+    if (typeof WebSocket !== 'undefined') transports.push('websocket');
+    if (typeof EventSource !== 'undefined') transports.push('sse');
+    return transports;
+  }
+
+  private connect(): void {
+    const transports = this.getTransports();
+    if (transports.length === 0) {
+      this.handlers.onStateChange?.('closed', null);
+      return;
+    }
+
+    const transport = transports[this.transportIndex % transports.length];
+    let opened = false;
+    let failed = false;
+
+    const handleOpen = () => {
+      opened = true;
+      this.attempt = 0;
+      this.handlers.onStateChange?.('open', transport);
+    };
+
+    const handleData = (data: unknown) => {
+      const message = parseStreamMessage(data, this.baseUrl);
+      if (message) {
+        this.handlers.onMessage(message);
+      }
+    };
+
+    const handleFailure = () => {
+      if (failed || this.closed) return;
+      failed = true;
+      this.teardown();
+      this.handlers.onStateChange?.('closed', transport);
+
+      // Try the next transport straight away if this one never opened
+      if (!opened) {
+        this.transportIndex += 1;
+        if (this.transportIndex % transports.length !== 0) {
+          this.connect();
+          return;
+        }
+      }
+
+      this.scheduleReconnect();
+    };
+
+    this.handlers.onStateChange?.('connecting', transport);
+
+    this.getAuthQuery()
+      .then((query) => {
+        if (this.closed) return;
+
+        if (transport === 'websocket') {
+          const socket = new WebSocket(`${this.baseUrl.replace(/^http/, 'ws')}/api/stream${query}`);
+          socket.onopen = handleOpen;
+          socket.onmessage = (event) => handleData(event.data);
+          socket.onerror = handleFailure;
+          socket.onclose = handleFailure;
+          this.socket = socket;
+        } else {
+          const eventSource = new EventSource(`${this.baseUrl}/api/stream/events${query}`);
+          eventSource.onopen = handleOpen;
+          eventSource.onmessage = (event) => handleData(event.data);
+          // EventSource retries on its own; close it so backoff stays in our hands
+          eventSource.onerror = handleFailure;
+          this.eventSource = eventSource;
+        }
+      })
+      .catch(handleFailure);
+  }
+
+  /**
+   * Short-lived stream ticket as a query string, since neither transport can send headers
+   * The ticket is requested with the provider's headers, so credentials never appear in a
+   * stream URL, where proxies and access logs would record them
+   */
+  private async getAuthQuery(): Promise<string> {
+    const auth = this.auth;
+    if (!auth) return '';
+
+    // The signal also bounds reading the response body
+    const signal = AbortSignal.timeout(STREAM_TICKET_TIMEOUT_MS);
+    const requestTicket = async () =>
+      fetch(`${this.baseUrl}/api/stream/ticket`, {
+        method: 'POST',
+        headers: await auth.getHeaders(),
+        signal,
+      });
+    let response = await requestTicket();
+    if (response.status === 401 && (await auth.refresh?.())) {
+      response = await requestTicket();
+    }
+    if (!response.ok) {
+      throw new ApiError(`Stream ticket request failed: HTTP ${response.status}`, response.status);
+    }
+
+    const { ticket } = await response.json();
+    if (typeof ticket !== 'string' || !ticket) {
+      throw new ApiError('Stream ticket response did not contain a ticket');
+    }
+    return `?${new URLSearchParams({ ticket })}`;
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(this.retryDelay * Math.pow(2, this.attempt), MAX_STREAM_RETRY_DELAY_MS);
+    this.attempt += 1;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.closed) {
+        this.connect();
+      }
+    }, delay);
+  }
+
+  private teardown(): void {
+    if (this.socket) {
+      this.socket.onopen = null;
+      this.socket.onmessage = null;
+      this.socket.onerror = null;
+      this.socket.onclose = null;
+      this.socket.close();
+      this.socket = null;
+    }
+    if (this.eventSource) {
+      this.eventSource.close();
+      this.eventSource = null;
+    }
+  }
+}
+
 /**
  * API Client Configuration
  */
@@ -88,6 +392,10 @@ interface ApiClientConfig {
   timeout?: number;
   maxRetries?: number;
   retryDelay?: number;
+  /**
+   * Credentials for each request; requests are unauthenticated without one
+   */
+  auth?: AuthProvider;
 }
 
 /**
@@ -98,37 +406,51 @@ export class ApiClient {
   private readonly timeout: number;
   private readonly maxRetries: number;
   private readonly retryDelay: number;
+  private readonly auth?: AuthProvider;
+  private batchDetailsSupport: Promise<boolean> | null = null;
+  private recentSamplesSupported = true;
 
   constructor(config: ApiClientConfig) {
     this.baseUrl = config.baseUrl || 'http://localhost:7788';
     this.timeout = config.timeout || 5000;
     this.maxRetries = config.maxRetries || 3;
     this.retryDelay = config.retryDelay || 1000;
+    this.auth = config.auth;
   }
 
   /**
    * Generic fetch wrapper with timeout and retry logic
+   * A 401 renews the credentials once and repeats the request. The parsed body is
+   * unchecked; callers validate it against the expected schema
    */
   private async fetchWithRetry<T>(
     url: string,
     options: RequestInit = {},
-    retryCount = 0
+    retryCount = 0,
+    authRenewed = false
   ): Promise<T> {
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
 
     try {
+      const authHeaders = await this.getAuthHeaders();
+      timeoutId = setTimeout(() => controller.abort(), this.timeout);
       const response = await fetch(url, {
         ...options,
         signal: controller.signal,
         headers: {
           'Content-Type': 'application/json',
+          ...authHeaders,
           ...options.headers,
         },
       });
 
       clearTimeout(timeoutId);
 
+      if (response.status === 401 && !authRenewed && (await this.auth?.refresh?.())) {
+        return this.fetchWithRetry<T>(url, options, retryCount, true);
+      }
+
       if (!response.ok) {
         const errorText = await response.text();
         let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
@@ -149,11 +471,19 @@ export class ApiClient {
     } catch (error) {
       clearTimeout(timeoutId);
 
+      // Credentials could not be obtained; renew them once like after a 401
+      if (error instanceof AuthError) {
+        if (!authRenewed && (await this.auth?.refresh?.())) {
+          return this.fetchWithRetry<T>(url, options, retryCount, true);
+        }
+        throw error;
+      }
+
       // Handle abort/timeout errors
       if (error instanceof Error && error.name === 'AbortError') {
         if (retryCount < this.maxRetries) {
           await this.delay(this.retryDelay * Math.pow(2, retryCount));
-          return this.fetchWithRetry<T>(url, options, retryCount + 1);
+          return this.fetchWithRetry<T>(url, options, retryCount + 1, authRenewed);
         }
         throw new ApiError('Request timeout', undefined, error);
       }
@@ -162,7 +492,7 @@ export class ApiClient {
       if (error instanceof TypeError && error.message.includes('fetch')) {
         if (retryCount < this.maxRetries) {
           await this.delay(this.retryDelay * Math.pow(2, retryCount));
-          return this.fetchWithRetry<T>(url, options, retryCount + 1);
+          return this.fetchWithRetry<T>(url, options, retryCount + 1, authRenewed);
         }
         throw new ApiError('Network error: Unable to connect to server', undefined, error);
       }
@@ -181,6 +511,23 @@ export class ApiClient {
     }
   }
 
+  /**
+   * Headers of the auth provider; a provider failure, e.g. a failed token refresh, becomes
+   * an AuthError so the user is asked to sign in again
+   */
+  private async getAuthHeaders(): Promise<Record<string, string>> {
+    if (!this.auth) return {};
+    try {
+      return await this.auth.getHeaders();
+    } catch (error) {
+      if (error instanceof AuthError) throw error;
+      throw new AuthError(
+        `Cannot get credentials: ${error instanceof Error ? error.message : error}`,
+        401
+      );
+    }
+  }
+
   /**
    * Delay helper for retry logic
    */
@@ -194,7 +541,7 @@ export class ApiClient {
    */
   async fetchAllClients(): Promise<ClientSummary[]> {
     const url = `${this.baseUrl}/api/clients`;
-    return this.fetchWithRetry<ClientSummary[]>(url);
+    return validateClientSummaries(await this.fetchWithRetry<unknown>(url), this.baseUrl);
   }
 
   /**
@@ -207,7 +554,106 @@ export class ApiClient {
     }
 
     const url = `${this.baseUrl}/api/clients/${encodeURIComponent(clientId)}`;
-    return this.fetchWithRetry<ClientDetail>(url);
+    return validateClientDetail(await this.fetchWithRetry<unknown>(url), this.baseUrl);
+  }
+
+  /**
+   * Check whether the backend exposes the batch detail endpoint
+   * The probe result is cached; transient failures are retried on the next call
+   */
+  supportsBatchDetails(): Promise<boolean> {
+    if (!this.batchDetailsSupport) {
+      const url = `${this.baseUrl}/api/clients/details`;
+      this.batchDetailsSupport = this.fetchWithRetry<unknown>(url, {
+        method: 'POST',
+        body: JSON.stringify({ clientIds: [] }),
+      })
+        .then((result) => Array.isArray(result))
+        .catch((error) => {
+          if (error instanceof ApiError && (error.statusCode === 404 || error.statusCode === 405)) {
+            return false;
+          }
+          this.batchDetailsSupport = null;
+          return false;
+        });
+    }
+
+    return this.batchDetailsSupport;
+  }
+
+  /**
+   * Fetch details for several clients
+   * Uses the batch endpoint when available, otherwise falls back to per-ID requests.
+   * Clients that fail to load are omitted from the result.
+   */
+  async fetchClientDetails(clientIds: string[]): Promise<ClientDetail[]> {
+    const ids = Array.from(new Set(clientIds.filter((id) => id && id.trim() !== '')));
+    if (ids.length === 0) {
+      return [];
+    }
+
+    if (!(await this.supportsBatchDetails())) {
+      return this.fetchClientDetailsIndividually(ids);
+    }
+
+    const url = `${this.baseUrl}/api/clients/details`;
+    const chunks: string[][] = [];
+    for (let i = 0; i < ids.length; i += BATCH_DETAILS_CHUNK_SIZE) {
+      chunks.push(ids.slice(i, i + BATCH_DETAILS_CHUNK_SIZE));
+    }
+
+    const results = await Promise.allSettled(
+      chunks.map(async (chunk) =>
+        validateClientDetails(
+          await this.fetchWithRetry<unknown>(url, {
+            method: 'POST',
+            body: JSON.stringify({ clientIds: chunk }),
+          }),
+          this.baseUrl
+        )
+      )
+    );
+
+    const details: ClientDetail[] = [];
+    let firstError: unknown = null;
+    results.forEach((result) => {
+      if (result.status === 'fulfilled') {
+        details.push(...result.value);
+      } else if (firstError === null) {
+        firstError = result.reason;
+      }
+    });
+
+    if (details.length === 0 && firstError !== null) {
+      throw firstError;
+    }
+
+    return details;
+  }
+
+  /**
+   * Per-ID detail fetching with bounded concurrency
+   */
+  private async fetchClientDetailsIndividually(ids: string[]): Promise<ClientDetail[]> {
+    const details: ClientDetail[] = [];
+    let nextIndex = 0;
+
+    const worker = async () => {
+      while (nextIndex < ids.length) {
+        const id = ids[nextIndex++];
+        try {
+          details.push(await this.fetchClientDetail(id));
+        } catch {
+          // Skip clients that fail to load
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(DETAIL_FETCH_CONCURRENCY, ids.length) }, () => worker())
+    );
+
+    return details;
   }
 
   /**
@@ -235,23 +681,478 @@ export class ApiClient {
       queryString ? `?${queryString}` : ''
     }`;
 
-    return this.fetchWithRetry<DynamicSystemStatus[]>(url);
+    return validateStatusHistory(await this.fetchWithRetry<unknown>(url), this.baseUrl);
+  }
+
+  /**
+   * Fetch history for several clients with limited concurrency
+   * Clients whose history fails to load are left out of the result
+   */
+  async fetchClientHistories(
+    clientIds: string[],
+    query?: HistoryQuery
+  ): Promise<Record<string, DynamicSystemStatus[]>> {
+    const ids = Array.from(new Set(clientIds.filter((id) => id && id.trim() !== '')));
+    const histories: Record<string, DynamicSystemStatus[]> = {};
+    let nextIndex = 0;
+
+    const worker = async () => {
+      while (nextIndex < ids.length) {
+        const id = ids[nextIndex++];
+        try {
+          histories[id] = await this.fetchClientHistory(id, query);
+        } catch {
+          // Skip clients that fail to load
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(DETAIL_FETCH_CONCURRENCY, ids.length) }, () => worker())
+    );
+
+    return histories;
+  }
+
+  /**
+   * Fetch the most recent compact samples for several clients
+   * Returns an empty result when the backend has no samples endpoint; callers then rely on live updates
+   */
+  async fetchRecentSamples(
+    clientIds: string[],
+    limit: number
+  ): Promise<Record<string, StatusSample[]>> {
+    const ids = Array.from(new Set(clientIds.filter((id) => id && id.trim() !== '')));
+    if (ids.length === 0 || !this.recentSamplesSupported) {
+      return {};
+    }
+
+    const url = `${this.baseUrl}/api/clients/samples`;
+    const samples: Record<string, StatusSample[]> = {};
+    for (let i = 0; i < ids.length; i += BATCH_DETAILS_CHUNK_SIZE) {
+      try {
+        const chunk = await this.fetchWithRetry<unknown>(url, {
+          method: 'POST',
+          body: JSON.stringify({ clientIds: ids.slice(i, i + BATCH_DETAILS_CHUNK_SIZE), limit }),
+        });
+        Object.assign(samples, validateStatusSamples(chunk, this.baseUrl));
+      } catch (error) {
+        if (error instanceof ApiError && (error.statusCode === 404 || error.statusCode === 405)) {
+          this.recentSamplesSupported = false;
+          return samples;
+        }
+        throw error;
+      }
+    }
+
+    return samples;
+  }
+
+  /**
+   * Subscribe to live status updates
+   * Uses WebSocket with SSE fallback and reconnects with backoff until closed
+   */
+  subscribeToStatus(handlers: StatusStreamHandlers): StatusStreamSubscription {
+    return new StatusStream(this.baseUrl, handlers, this.retryDelay, this.auth);
+  }
+}
+
+/**
+ * Public surface shared by the single-backend and the federated client
+ */
+export type MonitorApiClient = Pick<
+  ApiClient,
+  | 'fetchAllClients'
+  | 'fetchClientDetail'
+  | 'fetchClientDetails'
+  | 'fetchClientHistory'
+  | 'fetchClientHistories'
+  | 'fetchRecentSamples'
+  | 'subscribeToStatus'
+>;
+
+/**
+ * Reachability of one federated backend
+ */
+export interface BackendHealth {
+  backend: BackendConfig;
+  /**
+   * 'unknown' until the backend has answered or failed once
+   */
+  state: 'unknown' | 'ok' | 'error';
+  error: string | null;
+  lastSuccess: number | null;
+  clientCount: number;
+  streamState: StreamState;
+}
+
+type BackendHealthListener = (health: BackendHealth[]) => void;
+
+/**
+ * Client as seen through the federation: ID prefixed with its backend, source set
+ */
+function tagClient<T extends ClientSummary>(backendId: string, client: T): T {
+  return { ...client, clientId: toFederatedId(backendId, client.clientId), source: backendId };
+}
+
+/**
+ * Re-key a per-client record from backend client IDs to federated IDs
+ */
+function tagRecord<T>(backendId: string, record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(
+    Object.entries(record).map(([clientId, value]) => [toFederatedId(backendId, clientId), value])
+  );
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error occurred';
+}
+
+/**
+ * Federated API Client
+ * Fans requests out to several backends and merges the results. Client IDs carry their
+ * backend's ID, so requests for one client only go to that backend. A backend that fails
+ * keeps its last known clients in the list, and its failure is reported through the
+ * backend health instead of failing the whole request
+ */
+export class FederatedApiClient implements MonitorApiClient {
+  private readonly clients: Map<string, ApiClient>;
+  private readonly lastClients = new Map<string, ClientSummary[]>();
+  private readonly healthListeners = new Set<BackendHealthListener>();
+  private health: BackendHealth[];
+
+  constructor(
+    private readonly backends: BackendConfig[],
+    createClient: (backend: BackendConfig) => ApiClient
+  ) {
+    this.clients = new Map(backends.map((backend) => [backend.id, createClient(backend)]));
+    this.health = backends.map((backend) => ({
+      backend,
+      state: 'unknown',
+      error: null,
+      lastSuccess: null,
+      clientCount: 0,
+      streamState: 'closed',
+    }));
+  }
+
+  /**
+   * Current health of every backend, in configuration order
+   */
+  getBackendHealth(): BackendHealth[] {
+    return this.health;
+  }
+
+  /**
+   * Listen for health changes; returns the unsubscribe function
+   */
+  subscribeToBackendHealth(listener: BackendHealthListener): () => void {
+    this.healthListeners.add(listener);
+    return () => {
+      this.healthListeners.delete(listener);
+    };
+  }
+
+  private updateHealth(backendId: string, patch: Partial<BackendHealth>): void {
+    this.health = this.health.map((entry) =>
+      entry.backend.id === backendId ? { ...entry, ...patch } : entry
+    );
+    this.healthListeners.forEach((listener) => listener(this.health));
+  }
+
+  private setBackendClients(backendId: string, clients: ClientSummary[]): void {
+    const previousCount = this.lastClients.get(backendId)?.length;
+    this.lastClients.set(backendId, clients);
+    if (clients.length !== previousCount) {
+      this.updateHealth(backendId, { clientCount: clients.length });
+    }
+  }
+
+  private markReachable(backendId: string): void {
+    this.updateHealth(backendId, { state: 'ok', error: null, lastSuccess: Date.now() });
+  }
+
+  /**
+   * Last known clients of all backends, in configuration order
+   */
+  private getMergedClients(): ClientSummary[] {
+    return this.backends.flatMap((backend) => this.lastClients.get(backend.id) ?? []);
+  }
+
+  /**
+   * Backend client and backend-local ID for a federated client ID
+   */
+  private route(id: string): { client: ApiClient; backendId: string; clientId: string } {
+    if (!id || id.trim() === '') {
+      throw new ApiError('Client ID is required');
+    }
+    const parsed = parseFederatedId(id);
+    const client = parsed ? this.clients.get(parsed.backendId) : undefined;
+    if (!parsed || !client) {
+      throw new ApiError(`Client "${id}" does not belong to a configured backend`, 404);
+    }
+    return { client, ...parsed };
+  }
+
+  /**
+   * Group federated IDs by backend; IDs of unknown backends are dropped
+   */
+  private groupByBackend(
+    ids: string[]
+  ): Array<{ backendId: string; client: ApiClient; clientIds: string[] }> {
+    const groups = new Map<string, string[]>();
+    ids.forEach((id) => {
+      const parsed = parseFederatedId(id);
+      if (!parsed || !this.clients.has(parsed.backendId)) return;
+      groups.set(parsed.backendId, [...(groups.get(parsed.backendId) ?? []), parsed.clientId]);
+    });
+    return Array.from(groups, ([backendId, clientIds]) => ({
+      backendId,
+      client: this.clients.get(backendId)!,
+      clientIds,
+    }));
+  }
+
+  /**
+   * Fetch the clients of all backends
+   * Fails only when every backend fails
+   */
+  async fetchAllClients(): Promise<ClientSummary[]> {
+    const results = await Promise.allSettled(
+      this.backends.map((backend) => this.clients.get(backend.id)!.fetchAllClients())
+    );
+
+    let firstError: unknown = null;
+    results.forEach((result, index) => {
+      const backendId = this.backends[index].id;
+      if (result.status === 'fulfilled') {
+        this.setBackendClients(
+          backendId,
+          result.value.map((client) => tagClient(backendId, client))
+        );
+        this.markReachable(backendId);
+      } else {
+        if (firstError === null) firstError = result.reason;
+        this.updateHealth(backendId, { state: 'error', error: describeError(result.reason) });
+      }
+    });
+
+    if (results.every((result) => result.status === 'rejected')) {
+      throw firstError;
+    }
+    return this.getMergedClients();
+  }
+
+  async fetchClientDetail(clientId: string): Promise<ClientDetail> {
+    const route = this.route(clientId);
+    return tagClient(route.backendId, await route.client.fetchClientDetail(route.clientId));
+  }
+
+  /**
+   * Fetch details from each client's backend
+   * Clients that fail to load are omitted; fails only when nothing loads
+   */
+  async fetchClientDetails(clientIds: string[]): Promise<ClientDetail[]> {
+    const groups = this.groupByBackend(clientIds);
+    const results = await Promise.allSettled(
+      groups.map((group) => group.client.fetchClientDetails(group.clientIds))
+    );
+
+    const details: ClientDetail[] = [];
+    let firstError: unknown = null;
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        details.push(...result.value.map((detail) => tagClient(groups[index].backendId, detail)));
+      } else if (firstError === null) {
+        firstError = result.reason;
+      }
+    });
+
+    if (details.length === 0 && firstError !== null) {
+      throw firstError;
+    }
+    return details;
+  }
+
+  async fetchClientHistory(clientId: string, query?: HistoryQuery): Promise<DynamicSystemStatus[]> {
+    const route = this.route(clientId);
+    return route.client.fetchClientHistory(route.clientId, query);
+  }
+
+  async fetchClientHistories(
+    clientIds: string[],
+    query?: HistoryQuery
+  ): Promise<Record<string, DynamicSystemStatus[]>> {
+    const groups = this.groupByBackend(clientIds);
+    const results = await Promise.all(
+      groups.map((group) => group.client.fetchClientHistories(group.clientIds, query))
+    );
+    return Object.assign(
+      {},
+      ...results.map((histories, index) => tagRecord(groups[index].backendId, histories))
+    );
+  }
+
+  /**
+   * Recent samples from each backend; backends that fail contribute nothing
+   */
+  async fetchRecentSamples(
+    clientIds: string[],
+    limit: number
+  ): Promise<Record<string, StatusSample[]>> {
+    const groups = this.groupByBackend(clientIds);
+    const results = await Promise.allSettled(
+      groups.map((group) => group.client.fetchRecentSamples(group.clientIds, limit))
+    );
+    return Object.assign(
+      {},
+      ...results.map((result, index) =>
+        result.status === 'fulfilled' ? tagRecord(groups[index].backendId, result.value) : {}
+      )
+    );
+  }
+
+  /**
+   * Subscribe to the live streams of all backends
+   * A snapshot from one backend is forwarded as a snapshot of every backend's last known
+   * clients, so it does not remove the others. The combined stream is open only while
+   * every backend's stream is open, so callers keep polling while any of them is down
+   */
+  subscribeToStatus(handlers: StatusStreamHandlers): StatusStreamSubscription {
+    const states = new Map<string, { state: StreamState; transport: StreamTransport | null }>();
+    let closed = false;
+
+    const reportState = () => {
+      const entries = Array.from(states.values());
+      if (entries.length === this.backends.length && entries.every((e) => e.state === 'open')) {
+        handlers.onStateChange?.('open', entries[0].transport);
+      } else if (entries.some((entry) => entry.state === 'connecting')) {
+        handlers.onStateChange?.('connecting', null);
+      } else {
+        handlers.onStateChange?.('closed', null);
+      }
+    };
+
+    const handleMessage = (backendId: string, message: StatusStreamMessage) => {
+      const clients = this.lastClients.get(backendId) ?? [];
+
+      switch (message.type) {
+        case 'snapshot':
+          this.setBackendClients(
+            backendId,
+            message.clients.map((client) => tagClient(backendId, client))
+          );
+          this.markReachable(backendId);
+          handlers.onMessage({ type: 'snapshot', clients: this.getMergedClients() });
+          break;
+        case 'client': {
+          const client = tagClient(backendId, message.client);
+          this.setBackendClients(backendId, [
+            ...clients.filter((c) => c.clientId !== client.clientId),
+            client,
+          ]);
+          handlers.onMessage({ type: 'client', client });
+          break;
+        }
+        case 'removed': {
+          const clientId = toFederatedId(backendId, message.clientId);
+          this.setBackendClients(
+            backendId,
+            clients.filter((c) => c.clientId !== clientId)
+          );
+          handlers.onMessage({ type: 'removed', clientId });
+          break;
+        }
+        case 'status':
+          handlers.onMessage({
+            type: 'status',
+            clientId: toFederatedId(backendId, message.clientId),
+            status: message.status,
+          });
+          break;
+      }
+    };
+
+    const subscriptions = this.backends.map((backend) =>
+      this.clients.get(backend.id)!.subscribeToStatus({
+        onMessage: (message) => handleMessage(backend.id, message),
+        onStateChange: (state, transport) => {
+          if (closed) return;
+          states.set(backend.id, { state, transport });
+          this.updateHealth(backend.id, {
+            streamState: state,
+            ...(state === 'open' && { state: 'ok' as const, error: null }),
+          });
+          reportState();
+        },
+      })
+    );
+
+    return {
+      close: () => {
+        closed = true;
+        subscriptions.forEach((subscription) => subscription.close());
+        this.backends.forEach((backend) =>
+          this.updateHealth(backend.id, { streamState: 'closed' })
+        );
+        handlers.onStateChange?.('closed', null);
+      },
+    };
   }
 }
 
 /**
  * Create a default API client instance
+ * Uses the authentication of the runtime configuration unless a provider is given
  */
-export function createApiClient(baseUrl?: string): ApiClient {
+export function createApiClient(
+  baseUrl?: string,
+  auth: AuthProvider | undefined = authProvider
+): ApiClient {
   return new ApiClient({
     baseUrl: baseUrl || process.env.NEXT_PUBLIC_API_URL || 'http://localhost:7788',
     timeout: 5000,
     maxRetries: 3,
     retryDelay: 1000,
+    auth,
   });
 }
 
+/**
+ * Where the dashboard loads its data from
+ */
+export interface ApiTarget {
+  apiUrl?: string;
+  /**
+   * With several backends, the client federates them and `apiUrl` is unused
+   */
+  backends: BackendConfig[];
+}
+
+/**
+ * Client for the given backends, federated when there are several
+ */
+export function createConfiguredApiClient(
+  target: ApiTarget = { backends: getConfiguredBackends() },
+  auth: AuthProvider | undefined = authProvider
+): MonitorApiClient {
+  if (target.backends.length > 1) {
+    return new FederatedApiClient(target.backends, (backend) => createApiClient(backend.url, auth));
+  }
+  return createApiClient(target.backends[0]?.url || target.apiUrl, auth);
+}
+
 /**
  * Default API client instance
+ * Starts with the build-time configuration and is replaced by configureApiClient once the
+ * runtime configuration has loaded
  */
-export const apiClient = createApiClient();
+export let apiClient: MonitorApiClient = createConfiguredApiClient();
+
+/**
+ * Point the default client, and the backend list, at a new target
+ */
+export function configureApiClient(target: ApiTarget): void {
+  setConfiguredBackends(target.backends);
+  apiClient = createConfiguredApiClient(target);
+}
@@ -0,0 +1,521 @@
+/**
+ * Authentication for the backend API
+ * An AuthProvider supplies credentials for each request and recovers from 401 responses.
+ * Built in are a public API key, a bearer token from a refresh endpoint and OpenID Connect
+ * sign-in (authorization code flow with PKCE). The provider is chosen by the runtime
+ * configuration's `auth` section
+ */
+
+export type AuthMode = 'none' | 'public-api-key' | 'bearer' | 'oidc';
+
+export const AUTH_MODES: AuthMode[] = ['none', 'public-api-key', 'bearer', 'oidc'];
+
+/**
+ * Authentication settings of the runtime configuration
+ * The configuration is served to the browser, so nothing in it is a secret
+ */
+export interface AuthConfig {
+  mode: AuthMode;
+  /**
+   * 'public-api-key': identifies the dashboard, readable by anyone who can load it
+   */
+  publicApiKey: string | null;
+  publicApiKeyHeader: string;
+  /**
+   * 'bearer': endpoint that returns an access token, authenticated with cookies
+   */
+  refreshUrl: string | null;
+  oidc: {
+    issuer: string | null;
+    clientId: string | null;
+    /**
+     * Defaults to AUTH_CALLBACK_PATH on the current origin
+     */
+    redirectUri: string | null;
+    scope: string | null;
+  };
+}
+
+export const DEFAULT_AUTH_CONFIG: AuthConfig = {
+  mode: 'none',
+  publicApiKey: null,
+  publicApiKeyHeader: 'X-API-Key',
+  refreshUrl: null,
+  oidc: { issuer: null, clientId: null, redirectUri: null, scope: null },
+};
+
+export interface AuthProvider {
+  /**
+   * Headers added to every API request
+   */
+  getHeaders(): Promise<Record<string, string>>;
+  /**
+   * Renew credentials after a 401; resolves true when the request is worth retrying
+   */
+  refresh?(): Promise<boolean>;
+  /**
+   * Interactive sign-in; providers without one rely on configured credentials
+   */
+  signIn?(returnTo?: string): Promise<void>;
+  signOut?(): Promise<void>;
+}
+
+/**
+ * Sign-in or token failure
+ */
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number
+  ) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export interface AccessToken {
+  accessToken: string;
+  /**
+   * Epoch ms; tokens without an expiry are used until the backend rejects them
+   */
+  expiresAt?: number;
+}
+
+/**
+ * HttpOnly cookie mirroring the browser's access token, so server-rendered pages can call
+ * the API on the user's behalf
+ */
+export const AUTH_TOKEN_COOKIE = 'system-monitor-access-token';
+
+/**
+ * Route that sets and clears AUTH_TOKEN_COOKIE
+ */
+const AUTH_SESSION_URL = '/api/auth/session';
+
+/**
+ * Tokens are renewed this long before they expire
+ */
+const EXPIRY_MARGIN_MS = 30 * 1000;
+
+/**
+ * sessionStorage keys for OIDC tokens and an in-progress sign-in
+ */
+const OIDC_TOKENS_STORAGE_KEY = 'system-monitor-oidc-tokens';
+const OIDC_PENDING_STORAGE_KEY = 'system-monitor-oidc-pending';
+
+export const AUTH_CALLBACK_PATH = '/auth/callback';
+
+function isBrowser(): boolean {
+  return typeof window !== 'undefined';
+}
+
+function getCurrentPath(): string {
+  const { pathname, search } = window.location;
+  return pathname.startsWith(AUTH_CALLBACK_PATH) ? '/' : `${pathname}${search}`;
+}
+
+/**
+ * Same-origin path to return to after sign-in, or home for anything else
+ * A value such as '//evil.example' starts with '/' but leaves the origin
+ */
+function toLocalPath(returnTo: string): string {
+  try {
+    const url = new URL(returnTo, window.location.origin);
+    return returnTo.startsWith('/') && url.origin === window.location.origin
+      ? `${url.pathname}${url.search}${url.hash}`
+      : '/';
+  } catch {
+    return '/';
+  }
+}
+
+function isExpired(token: AccessToken): boolean {
+  return token.expiresAt !== undefined && Date.now() >= token.expiresAt - EXPIRY_MARGIN_MS;
+}
+
+/**
+ * Token from an OAuth-style JSON response, accepting camelCase or snake_case fields
+ */
+function parseTokenResponse(data: Record<string, unknown>): AccessToken {
+  const accessToken = data.accessToken ?? data.access_token;
+  const expiresIn = data.expiresIn ?? data.expires_in;
+  if (typeof accessToken !== 'string' || !accessToken) {
+    throw new AuthError('Token response did not contain an access token');
+  }
+  return {
+    accessToken,
+    expiresAt: typeof expiresIn === 'number' ? Date.now() + expiresIn * 1000 : undefined,
+  };
+}
+
+/**
+ * Store the access token in the HttpOnly session cookie, or clear it
+ * The cookie is set by the server, so scripts on the page cannot read it
+ */
+function syncSessionCookie(token: AccessToken | null): Promise<void> {
+  if (!isBrowser()) return Promise.resolve();
+  return fetch(
+    AUTH_SESSION_URL,
+    token
+      ? {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ accessToken: token.accessToken, expiresAt: token.expiresAt }),
+        }
+      : { method: 'DELETE' }
+  )
+    .then(() => undefined)
+    .catch(() => {
+      // Server-rendered pages fall back to the configured provider
+    });
+}
+
+/**
+ * Static API key sent in a header
+ * In the browser the key is part of the page and readable by anyone who can load it, so it
+ * identifies the dashboard rather than protecting the backend
+ */
+export class ApiKeyAuthProvider implements AuthProvider {
+  constructor(
+    private readonly apiKey: string,
+    private readonly headerName = 'X-API-Key'
+  ) {}
+
+  async getHeaders(): Promise<Record<string, string>> {
+    return { [this.headerName]: this.apiKey };
+  }
+}
+
+/**
+ * Bearer token, renewed through a refresh callback when it expires or is rejected
+ * Tokens come from the callback, or from the caller on the server; never from the build
+ */
+export class BearerTokenAuthProvider implements AuthProvider {
+  private token: AccessToken | null;
+  private refreshing: Promise<boolean> | null = null;
+
+  constructor(
+    private readonly options: {
+      token?: string | AccessToken;
+      refreshToken?: () => Promise<AccessToken>;
+    }
+  ) {
+    const { token } = options;
+    this.token =
+      typeof token === 'string' ? (token ? { accessToken: token } : null) : (token ?? null);
+  }
+
+  private async getToken(): Promise<string | null> {
+    if (!this.token || isExpired(this.token)) {
+      await this.refresh();
+    }
+    return this.token?.accessToken ?? null;
+  }
+
+  async getHeaders(): Promise<Record<string, string>> {
+    const token = await this.getToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
+  /**
+   * Concurrent callers share one refresh
+   */
+  refresh(): Promise<boolean> {
+    const { refreshToken } = this.options;
+    if (!refreshToken) return Promise.resolve(false);
+
+    if (!this.refreshing) {
+      this.refreshing = refreshToken()
+        .then((token) => {
+          this.token = token;
+          return true;
+        })
+        .catch(() => false)
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+}
+
+/**
+ * Fetch a fresh access token from a refresh endpoint that authenticates with cookies
+ */
+export async function fetchAccessToken(url: string): Promise<AccessToken> {
+  const response = await fetch(url, { method: 'POST', credentials: 'include' });
+  if (!response.ok) {
+    throw new AuthError(`Token refresh failed: HTTP ${response.status}`, response.status);
+  }
+  return parseTokenResponse(await response.json());
+}
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  /**
+   * Defaults to AUTH_CALLBACK_PATH on the current origin
+   */
+  redirectUri?: string;
+  scope?: string;
+}
+
+interface OidcMetadata {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  end_session_endpoint?: string;
+}
+
+interface OidcTokens extends AccessToken {
+  refreshToken?: string;
+  idToken?: string;
+}
+
+interface PendingSignIn {
+  state: string;
+  verifier: string;
+  returnTo: string;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function randomString(byteLength = 32): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+async function getCodeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return toBase64Url(new Uint8Array(digest));
+}
+
+function readSession<T>(key: string): T | null {
+  try {
+    const stored = sessionStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * OpenID Connect sign-in with the authorization code flow and PKCE
+ * Tokens live in sessionStorage, so each browser tab session signs in once
+ */
+export class OidcAuthProvider implements AuthProvider {
+  private metadata: Promise<OidcMetadata> | null = null;
+  private refreshing: Promise<boolean> | null = null;
+
+  constructor(private readonly config: OidcConfig) {}
+
+  private getRedirectUri(): string {
+    return this.config.redirectUri || `${window.location.origin}${AUTH_CALLBACK_PATH}`;
+  }
+
+  /**
+   * Provider endpoints from the discovery document, fetched once
+   */
+  private discover(): Promise<OidcMetadata> {
+    if (!this.metadata) {
+      const url = `${this.config.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+      this.metadata = fetch(url)
+        .then(async (response) => {
+          if (!response.ok) {
+            throw new AuthError(`OIDC discovery failed: HTTP ${response.status}`, response.status);
+          }
+          return (await response.json()) as OidcMetadata;
+        })
+        .catch((error) => {
+          this.metadata = null;
+          throw error;
+        });
+    }
+    return this.metadata;
+  }
+
+  private getTokens(): OidcTokens | null {
+    return isBrowser() ? readSession<OidcTokens>(OIDC_TOKENS_STORAGE_KEY) : null;
+  }
+
+  private storeTokens(tokens: OidcTokens | null): Promise<void> {
+    if (tokens) {
+      sessionStorage.setItem(OIDC_TOKENS_STORAGE_KEY, JSON.stringify(tokens));
+    } else {
+      sessionStorage.removeItem(OIDC_TOKENS_STORAGE_KEY);
+    }
+    return syncSessionCookie(tokens);
+  }
+
+  private async requestTokens(params: Record<string, string>): Promise<OidcTokens> {
+    const { token_endpoint } = await this.discover();
+    const response = await fetch(token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ client_id: this.config.clientId, ...params }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new AuthError(
+        data.error_description || data.error || `Token request failed: HTTP ${response.status}`,
+        response.status
+      );
+    }
+
+    return {
+      ...parseTokenResponse(data),
+      refreshToken: data.refresh_token ?? params.refresh_token,
+      idToken: data.id_token,
+    };
+  }
+
+  private async getAccessToken(): Promise<string | null> {
+    let tokens = this.getTokens();
+    if (tokens && isExpired(tokens) && (await this.refresh())) {
+      tokens = this.getTokens();
+    }
+    return tokens && !isExpired(tokens) ? tokens.accessToken : null;
+  }
+
+  async getHeaders(): Promise<Record<string, string>> {
+    const token = await this.getAccessToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
+  refresh(): Promise<boolean> {
+    const refreshToken = this.getTokens()?.refreshToken;
+    if (!refreshToken) return Promise.resolve(false);
+
+    if (!this.refreshing) {
+      this.refreshing = this.requestTokens({
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+      })
+        .then((tokens) => {
+          this.storeTokens(tokens);
+          return true;
+        })
+        .catch(() => {
+          this.storeTokens(null);
+          return false;
+        })
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Redirect to the identity provider; the callback page completes the sign-in
+   * Defaults to returning to the current page, or home when retrying from the callback
+   */
+  async signIn(returnTo = getCurrentPath()): Promise<void> {
+    const { authorization_endpoint } = await this.discover();
+    const pending: PendingSignIn = { state: randomString(16), verifier: randomString(), returnTo };
+    sessionStorage.setItem(OIDC_PENDING_STORAGE_KEY, JSON.stringify(pending));
+
+    const url = new URL(authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.config.clientId,
+      redirect_uri: this.getRedirectUri(),
+      scope: this.config.scope || 'openid profile offline_access',
+      state: pending.state,
+      code_challenge: await getCodeChallenge(pending.verifier),
+      code_challenge_method: 'S256',
+    }).toString();
+    window.location.assign(url.toString());
+  }
+
+  /**
+   * Exchange the authorization code on the callback URL for tokens
+   * Resolves to the path the sign-in started from
+   */
+  async completeSignIn(callbackUrl: string): Promise<string> {
+    const params = new URL(callbackUrl).searchParams;
+    const pending = readSession<PendingSignIn>(OIDC_PENDING_STORAGE_KEY);
+    sessionStorage.removeItem(OIDC_PENDING_STORAGE_KEY);
+
+    const error = params.get('error');
+    if (error) {
+      throw new AuthError(params.get('error_description') || error, 401);
+    }
+    const code = params.get('code');
+    if (!code || !pending || params.get('state') !== pending.state) {
+      throw new AuthError('The sign-in response is invalid or expired', 401);
+    }
+
+    // Awaited so the page returned to is server-rendered as the signed-in user
+    await this.storeTokens(
+      await this.requestTokens({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: this.getRedirectUri(),
+        code_verifier: pending.verifier,
+      })
+    );
+    return toLocalPath(pending.returnTo);
+  }
+
+  async signOut(): Promise<void> {
+    const idToken = this.getTokens()?.idToken;
+    await this.storeTokens(null);
+
+    const { end_session_endpoint } = await this.discover().catch(() => ({
+      end_session_endpoint: undefined,
+    }));
+    if (end_session_endpoint) {
+      const url = new URL(end_session_endpoint);
+      url.search = new URLSearchParams({
+        client_id: this.config.clientId,
+        post_logout_redirect_uri: window.location.origin,
+        ...(idToken && { id_token_hint: idToken }),
+      }).toString();
+      window.location.assign(url.toString());
+    }
+  }
+}
+
+/**
+ * Provider for the given settings, or undefined for no authentication
+ */
+export function createAuthProvider(config: AuthConfig): AuthProvider | undefined {
+  switch (config.mode) {
+    case 'public-api-key':
+      return config.publicApiKey
+        ? new ApiKeyAuthProvider(config.publicApiKey, config.publicApiKeyHeader)
+        : undefined;
+    case 'bearer': {
+      const { refreshUrl } = config;
+      return refreshUrl
+        ? new BearerTokenAuthProvider({ refreshToken: () => fetchAccessToken(refreshUrl) })
+        : undefined;
+    }
+    case 'oidc': {
+      const { issuer, clientId, redirectUri, scope } = config.oidc;
+      return issuer && clientId
+        ? new OidcAuthProvider({
+            issuer,
+            clientId,
+            redirectUri: redirectUri ?? undefined,
+            scope: scope ?? undefined,
+          })
+        : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Provider shared by the default API client
+ * None until configureAuth applies the runtime configuration
+ */
+export let authProvider: AuthProvider | undefined;
+
+export function configureAuth(config: AuthConfig): void {
+  authProvider = createAuthProvider(config);
+}
@@ -0,0 +1,133 @@
+/**
+ * Backend configuration for federated dashboards
+ * Several monitor servers, e.g. one per region, are configured as named backends. Their
+ * clients are merged into one list with IDs prefixed by the backend ID
+ */
+
+export interface BackendConfig {
+  /**
+   * Short stable ID, used in client IDs, URLs and `backend:` search terms
+   */
+  id: string;
+  /**
+   * Display name
+   */
+  name: string;
+  url: string;
+}
+
+/**
+ * Separates the backend ID from the backend's own client ID
+ * Backend IDs cannot contain it, so the first occurrence always splits correctly
+ */
+const FEDERATED_ID_SEPARATOR = ':';
+
+const BACKEND_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+/**
+ * Backends from untrusted JSON, e.g. `[{ "id": "eu", "name": "Europe", "url": "https://..." }]`
+ * Problems are appended to `errors`, prefixed with the entry's path; invalid entries are dropped
+ */
+export function validateBackendConfigs(
+  value: unknown,
+  errors: string[],
+  path = 'backends'
+): BackendConfig[] {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be an array of { id, name, url }`);
+    return [];
+  }
+
+  const backends: BackendConfig[] = [];
+  value.forEach((entry, index) => {
+    const entryPath = `${path}[${index}]`;
+    if (!entry || typeof entry !== 'object') {
+      errors.push(`${entryPath} must be an object with id, name and url`);
+      return;
+    }
+    const { id, name, url } = entry as Record<string, unknown>;
+    if (typeof id !== 'string' || !BACKEND_ID_PATTERN.test(id)) {
+      errors.push(
+        `${entryPath}.id must start with a letter or digit and contain only letters, digits, "-" and "_"`
+      );
+      return;
+    }
+    if (typeof url !== 'string' || !/^https?:\/\//.test(url)) {
+      errors.push(`${entryPath}.url must be an http(s) URL`);
+      return;
+    }
+    if (backends.some((backend) => backend.id === id)) {
+      errors.push(`${entryPath}.id "${id}" is used by another backend`);
+      return;
+    }
+
+    backends.push({
+      id,
+      name: typeof name === 'string' && name ? name : id,
+      url: url.replace(/\/+$/, ''),
+    });
+  });
+  return backends;
+}
+
+/**
+ * Backends baked in at build time through NEXT_PUBLIC_API_BACKENDS; the runtime
+ * configuration replaces them once loaded
+ */
+function parseBuildTimeBackends(): BackendConfig[] {
+  const raw = process.env.NEXT_PUBLIC_API_BACKENDS;
+  if (!raw) return [];
+
+  const errors: string[] = [];
+  let backends: BackendConfig[] = [];
+  try {
+    backends = validateBackendConfigs(JSON.parse(raw), errors);
+  } catch {
+    errors.push('NEXT_PUBLIC_API_BACKENDS is not valid JSON');
+  }
+  errors.forEach((error) => console.warn(`Ignoring backend configuration: ${error}`));
+  return backends;
+}
+
+let configuredBackends: BackendConfig[] = parseBuildTimeBackends();
+
+/**
+ * Backends of the current configuration
+ */
+export function getConfiguredBackends(): BackendConfig[] {
+  return configuredBackends;
+}
+
+export function setConfiguredBackends(backends: BackendConfig[]): void {
+  configuredBackends = backends;
+}
+
+/**
+ * Whether the dashboard merges several backends
+ */
+export function isFederated(): boolean {
+  return configuredBackends.length > 1;
+}
+
+/**
+ * Display name of a backend, falling back to its ID
+ */
+export function getBackendName(backendId: string): string {
+  return configuredBackends.find((backend) => backend.id === backendId)?.name ?? backendId;
+}
+
+/**
+ * Client ID that is unique across backends
+ */
+export function toFederatedId(backendId: string, clientId: string): string {
+  return `${backendId}${FEDERATED_ID_SEPARATOR}${clientId}`;
+}
+
+/**
+ * Split a federated client ID into the backend ID and the backend's client ID
+ */
+export function parseFederatedId(id: string): { backendId: string; clientId: string } | null {
+  const index = id.indexOf(FEDERATED_ID_SEPARATOR);
+  if (index <= 0) return null;
+  return { backendId: id.slice(0, index), clientId: id.slice(index + 1) };
+}
@@ -0,0 +1,198 @@
+/**
+ * Fleet capacity forecasting
+ * Fits linear trends to memory, swap and disk usage per client and projects the days until
+ * each saturates. Clients whose usage rises steadily are flagged and ranked soonest first
+ */
+
+import { DynamicSystemStatus } from './api-client';
+import { buildDiskSeries, forecastDisk } from './disk-trend';
+import { TimeRangeOption, TIME_RANGE_OPTIONS } from './time-range';
+import { DAY_MS, fitLinearTrend, timeUntilLimit } from './trend';
+
+export type CapacityMetric = 'memory' | 'swap' | 'disk';
+
+export const CAPACITY_METRICS: Array<{ metric: CapacityMetric; label: string }> = [
+  { metric: 'memory', label: 'Memory' },
+  { metric: 'swap', label: 'Swap' },
+  { metric: 'disk', label: 'Disk' },
+];
+
+/**
+ * Ranges the capacity view offers; trends over shorter windows mostly follow daily cycles
+ */
+export const CAPACITY_TIME_RANGES: TimeRangeOption[] = TIME_RANGE_OPTIONS.filter((option) =>
+  ['7days', '30days'].includes(option.value)
+);
+
+export const DEFAULT_CAPACITY_TIME_RANGE = '7days';
+
+/**
+ * Usage percent treated as saturated
+ */
+export const SATURATION_PERCENT = 100;
+
+/**
+ * A trend counts as steadily rising when it grows at least this many percentage points
+ * per day and a straight line explains at least this share of the variance
+ */
+export const RISING_MIN_SLOPE_PER_DAY = 0.1;
+export const RISING_MIN_R2 = 0.5;
+
+/**
+ * Shortest history a trend is fitted to
+ */
+const MIN_TREND_SPAN = DAY_MS;
+
+export interface MetricTrend {
+  /**
+   * Latest usage in percent; for disk, of the mountpoint projected to fill first
+   */
+  current: number;
+  slopePerDay: number;
+  r2: number;
+  daysToSaturation: number | null;
+  rising: boolean;
+  /**
+   * Mountpoint the disk trend is for
+   */
+  mountpoint?: string;
+}
+
+export interface ClientCapacity {
+  clientId: string;
+  clientName: string;
+  trends: Record<CapacityMetric, MetricTrend | null>;
+  /**
+   * Soonest saturation among the rising metrics
+   */
+  daysToSaturation: number | null;
+  saturatingMetric: CapacityMetric | null;
+  rising: boolean;
+}
+
+function isRising(slopePerDay: number, r2: number): boolean {
+  return slopePerDay >= RISING_MIN_SLOPE_PER_DAY && r2 >= RISING_MIN_R2;
+}
+
+function toDays(ms: number | null): number | null {
+  return ms === null ? null : ms / DAY_MS;
+}
+
+/**
+ * Trend of a usage percentage from the status history
+ */
+function analyzePercent(
+  history: DynamicSystemStatus[],
+  key: 'memoryUsage' | 'swapUsage'
+): MetricTrend | null {
+  const trend = fitLinearTrend(
+    history.map((status) => ({ timestamp: status.timestamp, value: status[key] }))
+  );
+  if (!trend || trend.span < MIN_TREND_SPAN) return null;
+
+  const latest = history.reduce((a, b) => (b.timestamp > a.timestamp ? b : a));
+  const slopePerDay = trend.slope * DAY_MS;
+  return {
+    current: latest[key],
+    slopePerDay,
+    r2: trend.r2,
+    daysToSaturation: toDays(timeUntilLimit(trend, SATURATION_PERCENT, latest.timestamp)),
+    rising: isRising(slopePerDay, trend.r2),
+  };
+}
+
+/**
+ * Disk trend of the mountpoint projected to fill first
+ */
+function analyzeDisk(history: DynamicSystemStatus[]): MetricTrend | null {
+  let worst: MetricTrend | null = null;
+
+  for (const series of buildDiskSeries(history)) {
+    const { samples } = series;
+    const latest = samples[samples.length - 1];
+    if (latest.timestamp - samples[0].timestamp < MIN_TREND_SPAN) continue;
+
+    const forecast = forecastDisk(series);
+    if (!forecast) continue;
+
+    const trend: MetricTrend = {
+      current: latest.usagePercent,
+      slopePerDay: forecast.growthPercentPerDay,
+      r2: forecast.r2,
+      daysToSaturation: toDays(forecast.timeUntilFull),
+      rising: isRising(forecast.growthPercentPerDay, forecast.r2),
+      mountpoint: series.key,
+    };
+    if (!worst || compareTrends(trend, worst) < 0) {
+      worst = trend;
+    }
+  }
+
+  return worst;
+}
+
+/**
+ * Orders trends by urgency: rising before not, then by days to saturation
+ */
+function compareTrends(a: MetricTrend, b: MetricTrend): number {
+  if (a.rising !== b.rising) return a.rising ? -1 : 1;
+  return compareDays(a.daysToSaturation, b.daysToSaturation);
+}
+
+/**
+ * Ascending, with no projection last
+ */
+function compareDays(a: number | null, b: number | null): number {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return a - b;
+}
+
+export function analyzeClientCapacity(
+  clientId: string,
+  clientName: string,
+  history: DynamicSystemStatus[]
+): ClientCapacity {
+  const trends: Record<CapacityMetric, MetricTrend | null> =
+    history.length === 0
+      ? { memory: null, swap: null, disk: null }
+      : {
+          memory: analyzePercent(history, 'memoryUsage'),
+          swap: analyzePercent(history, 'swapUsage'),
+          disk: analyzeDisk(history),
+        };
+
+  let daysToSaturation: number | null = null;
+  let saturatingMetric: CapacityMetric | null = null;
+  for (const { metric } of CAPACITY_METRICS) {
+    const trend = trends[metric];
+    if (!trend?.rising) continue;
+    if (saturatingMetric === null || compareDays(trend.daysToSaturation, daysToSaturation) < 0) {
+      daysToSaturation = trend.daysToSaturation;
+      saturatingMetric = metric;
+    }
+  }
+
+  return {
+    clientId,
+    clientName,
+    trends,
+    daysToSaturation,
+    saturatingMetric,
+    rising: saturatingMetric !== null,
+  };
+}
+
+/**
+ * Rising clients first, soonest saturation first; ties by name
+ */
+export function rankByDaysToSaturation(clients: ClientCapacity[]): ClientCapacity[] {
+  return [...clients].sort((a, b) => {
+    if (a.rising !== b.rising) return a.rising ? -1 : 1;
+    return (
+      compareDays(a.daysToSaturation, b.daysToSaturation) ||
+      a.clientName.localeCompare(b.clientName)
+    );
+  });
+}
@@ -0,0 +1,445 @@
+/**
+ * Client search query language
+ * Free text matches name, hostname, purpose, platform and location; structured
+ * terms narrow the list, e.g. `tag:prod platform:linux cpu>80 status:offline location:"Frankfurt"`
+ * or, with several backends, `backend:eu`
+ * All terms must match; prefix a term with `-` to negate it
+ */
+
+import { ClientDetail, ClientSummary } from './api-client';
+import { getBackendName } from './backends';
+
+/**
+ * Fields usable as `field:value`
+ */
+export type QueryField =
+  'tag' | 'platform' | 'status' | 'location' | 'name' | 'hostname' | 'purpose' | 'id' | 'backend';
+
+/**
+ * Metrics usable as `metric<op><number>`
+ */
+export type QueryMetric = 'cpu' | 'memory' | 'disk' | 'swap';
+
+export type QueryOperator = '>' | '>=' | '<' | '<=' | '=';
+
+export type QueryTerm =
+  | { kind: 'text'; value: string; negated: boolean }
+  | { kind: 'field'; field: QueryField; value: string; negated: boolean }
+  | {
+      kind: 'metric';
+      metric: QueryMetric;
+      operator: QueryOperator;
+      value: number;
+      negated: boolean;
+    };
+
+export interface ParsedQuery {
+  terms: QueryTerm[];
+  errors: string[];
+}
+
+/**
+ * Values offered by autocomplete for `field:` terms
+ */
+export interface QuerySuggestionSource {
+  tags: string[];
+  platforms: string[];
+  locations: string[];
+  backends: string[];
+}
+
+export interface QuerySuggestion {
+  label: string;
+  insertText: string;
+  description?: string;
+}
+
+type SearchableClient = ClientSummary | ClientDetail;
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+  tag: 'tag',
+  tags: 'tag',
+  platform: 'platform',
+  os: 'platform',
+  status: 'status',
+  location: 'location',
+  loc: 'location',
+  name: 'name',
+  hostname: 'hostname',
+  host: 'hostname',
+  purpose: 'purpose',
+  id: 'id',
+  backend: 'backend',
+  source: 'backend',
+};
+
+const METRIC_ALIASES: Record<string, QueryMetric> = {
+  cpu: 'cpu',
+  memory: 'memory',
+  mem: 'memory',
+  disk: 'disk',
+  swap: 'swap',
+};
+
+const FIELD_DESCRIPTIONS: Record<QueryField, string> = {
+  tag: 'Client has the tag',
+  platform: 'Platform contains',
+  status: 'online, stale or offline',
+  location: 'Location contains',
+  name: 'Client name contains',
+  hostname: 'Hostname contains',
+  purpose: 'Purpose contains',
+  id: 'Client ID equals',
+  backend: 'Backend ID or name equals',
+};
+
+const METRIC_DESCRIPTIONS: Record<QueryMetric, string> = {
+  cpu: 'CPU usage, e.g. cpu>80',
+  memory: 'Memory usage, e.g. memory>=90',
+  disk: 'Disk usage, e.g. disk>85',
+  swap: 'Swap usage, e.g. swap>50',
+};
+
+const STATUS_VALUES = ['online', 'stale', 'offline'];
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Split a query into tokens, keeping quoted values together
+ */
+function tokenize(query: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const char of query) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+      current += char;
+    } else if (/\s/.test(char) && !inQuotes) {
+      if (current) tokens.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current) tokens.push(current);
+
+  return tokens;
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"|"$/g, '');
+}
+
+/**
+ * Parse a query string into terms
+ * Unknown fields are reported in `errors` and searched as free text; malformed
+ * metric comparisons are reported and skipped
+ */
+export function parseClientQuery(query: string): ParsedQuery {
+  const terms: QueryTerm[] = [];
+  const errors: string[] = [];
+
+  tokenize(query).forEach((token) => {
+    const negated = token.startsWith('-') && token.length > 1;
+    const body = negated ? token.slice(1) : token;
+
+    const metricMatch = body.match(/^([a-z]+):?(>=|<=|>|<|=)(.*)$/i);
+    if (metricMatch && METRIC_ALIASES[metricMatch[1].toLowerCase()]) {
+      const value = Number(metricMatch[3]);
+      if (metricMatch[3] === '' || !Number.isFinite(value)) {
+        errors.push(`Expected a number in "${token}"`);
+        return;
+      }
+      terms.push({
+        kind: 'metric',
+        metric: METRIC_ALIASES[metricMatch[1].toLowerCase()],
+        operator: metricMatch[2] as QueryOperator,
+        value,
+        negated,
+      });
+      return;
+    }
+
+    const fieldMatch = body.match(/^([a-z]+):(.*)$/i);
+    if (fieldMatch) {
+      const field = FIELD_ALIASES[fieldMatch[1].toLowerCase()];
+      const value = unquote(fieldMatch[2]);
+      if (!field) {
+        errors.push(`Unknown field "${fieldMatch[1]}"`);
+      } else if (value) {
+        terms.push({ kind: 'field', field, value, negated });
+        return;
+      } else {
+        // Incomplete term while typing, e.g. "tag:"
+        return;
+      }
+    }
+
+    const text = unquote(body);
+    if (text) {
+      terms.push({ kind: 'text', value: text, negated });
+    }
+  });
+
+  return { terms, errors };
+}
+
+function contains(haystack: string | undefined | null, needle: string): boolean {
+  return !!haystack && haystack.toLowerCase().includes(needle.toLowerCase());
+}
+
+function getLocation(client: SearchableClient): string | undefined {
+  return 'staticInfo' in client && client.staticInfo ? client.staticInfo.location : undefined;
+}
+
+function getMetricValue(client: SearchableClient, metric: QueryMetric): number | null {
+  if (!('currentStatus' in client) || !client.currentStatus) return null;
+
+  switch (metric) {
+    case 'cpu':
+      return client.currentStatus.cpuUsage;
+    case 'memory':
+      return client.currentStatus.memoryUsage;
+    case 'disk':
+      return client.currentStatus.diskUsage;
+    case 'swap':
+      return client.currentStatus.swapUsage;
+  }
+}
+
+function compare(value: number, operator: QueryOperator, threshold: number): boolean {
+  switch (operator) {
+    case '>':
+      return value > threshold;
+    case '>=':
+      return value >= threshold;
+    case '<':
+      return value < threshold;
+    case '<=':
+      return value <= threshold;
+    case '=':
+      return value === threshold;
+  }
+}
+
+function matchesField(client: SearchableClient, field: QueryField, value: string): boolean {
+  switch (field) {
+    case 'tag':
+      return (client.clientTags || []).some((tag) => tag.toLowerCase() === value.toLowerCase());
+    case 'status':
+      return client.status === value.toLowerCase();
+    case 'platform':
+      return contains(client.platform, value);
+    case 'location':
+      return contains(getLocation(client), value);
+    case 'name':
+      return contains(client.clientName, value);
+    case 'hostname':
+      return contains(client.hostname, value);
+    case 'purpose':
+      return contains(client.clientPurpose, value);
+    case 'id':
+      return client.clientId === value;
+    case 'backend':
+      return (
+        !!client.source &&
+        (client.source.toLowerCase() === value.toLowerCase() ||
+          getBackendName(client.source).toLowerCase() === value.toLowerCase())
+      );
+  }
+}
+
+/**
+ * Evaluate a single term, ignoring negation
+ * Metric and location terms never match clients whose details are not loaded yet
+ */
+function matchesTerm(client: SearchableClient, term: QueryTerm): boolean {
+  switch (term.kind) {
+    case 'text':
+      return (
+        contains(client.clientName, term.value) ||
+        contains(client.hostname, term.value) ||
+        contains(client.clientPurpose, term.value) ||
+        contains(client.platform, term.value) ||
+        contains(getLocation(client), term.value)
+      );
+    case 'field':
+      return matchesField(client, term.field, term.value);
+    case 'metric': {
+      const value = getMetricValue(client, term.metric);
+      return value !== null && Number.isFinite(value) && compare(value, term.operator, term.value);
+    }
+  }
+}
+
+/**
+ * Check whether a client matches every term of a parsed query
+ */
+export function matchesClientQuery(client: SearchableClient, query: ParsedQuery): boolean {
+  return query.terms.every((term) => matchesTerm(client, term) !== term.negated);
+}
+
+/**
+ * Filter clients by a query string
+ */
+export function filterClientsByQuery<T extends SearchableClient>(clients: T[], query: string): T[] {
+  const parsed = parseClientQuery(query);
+  if (parsed.terms.length === 0) return clients;
+  return clients.filter((client) => matchesClientQuery(client, parsed));
+}
+
+/**
+ * Collect autocomplete values from the loaded clients
+ */
+export function buildSuggestionSource(clients: SearchableClient[]): QuerySuggestionSource {
+  const tags = new Set<string>();
+  const platforms = new Set<string>();
+  const locations = new Set<string>();
+  const backends = new Set<string>();
+
+  clients.forEach((client) => {
+    if (client.source) backends.add(client.source);
+    (client.clientTags || []).forEach((tag) => tags.add(tag));
+    if (client.platform) platforms.add(client.platform);
+    const location = getLocation(client);
+    if (location) locations.add(location);
+  });
+
+  const sort = (values: Set<string>) => Array.from(values).sort((a, b) => a.localeCompare(b));
+  return {
+    tags: sort(tags),
+    platforms: sort(platforms),
+    locations: sort(locations),
+    backends: sort(backends),
+  };
+}
+
+function quoteIfNeeded(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+/**
+ * Query term for a field value, e.g. `platform:linux` or `tag:"web tier"`
+ */
+export function formatFieldTerm(field: QueryField, value: string): string {
+  return `${field}:${quoteIfNeeded(value)}`;
+}
+
+/**
+ * Field or metric a token constrains, e.g. 'cpu' for `cpu>=80`
+ * Null for free text and negated terms
+ */
+function getTermKey(token: string): string | null {
+  if (token.startsWith('-')) return null;
+  const metricMatch = token.match(/^([a-z]+):?(>=|<=|>|<|=)/i);
+  if (metricMatch && METRIC_ALIASES[metricMatch[1].toLowerCase()]) {
+    return METRIC_ALIASES[metricMatch[1].toLowerCase()];
+  }
+  const fieldMatch = token.match(/^([a-z]+):/i);
+  return fieldMatch ? (FIELD_ALIASES[fieldMatch[1].toLowerCase()] ?? null) : null;
+}
+
+/**
+ * Whether every term appears in the query as written
+ */
+export function hasQueryTerms(query: string, terms: string[]): boolean {
+  const tokens = tokenize(query);
+  return terms.every((term) => tokens.includes(term));
+}
+
+/**
+ * Remove the terms when all are present, otherwise add them
+ * Adding replaces terms on the same field or metric, so picking another value does not
+ * narrow the list to nothing
+ */
+export function toggleQueryTerms(query: string, terms: string[]): string {
+  const tokens = tokenize(query);
+  if (hasQueryTerms(query, terms)) {
+    return tokens.filter((token) => !terms.includes(token)).join(' ');
+  }
+
+  const keys = new Set(terms.map(getTermKey).filter((key) => key !== null));
+  const kept = tokens.filter((token) => {
+    const key = getTermKey(token);
+    return key === null || !keys.has(key);
+  });
+  return [...kept, ...terms].join(' ');
+}
+
+/**
+ * Suggestions for the token being typed at the end of the query
+ * `insertText` replaces that token
+ */
+export function getQuerySuggestions(
+  query: string,
+  source: QuerySuggestionSource
+): QuerySuggestion[] {
+  if (query !== '' && /\s$/.test(query) && (query.match(/"/g) || []).length % 2 === 0) {
+    return [];
+  }
+
+  const tokens = tokenize(query);
+  const token = tokens[tokens.length - 1] || '';
+  const negation = token.startsWith('-') ? '-' : '';
+  const body = token.slice(negation.length);
+
+  const fieldMatch = body.match(/^([a-z]+):(.*)$/i);
+  if (fieldMatch) {
+    const field = FIELD_ALIASES[fieldMatch[1].toLowerCase()];
+    const partial = unquote(fieldMatch[2]).toLowerCase();
+    const values =
+      field === 'tag'
+        ? source.tags
+        : field === 'platform'
+          ? source.platforms
+          : field === 'location'
+            ? source.locations
+            : field === 'status'
+              ? STATUS_VALUES
+              : field === 'backend'
+                ? source.backends
+                : [];
+
+    return values
+      .filter((value) => value.toLowerCase().includes(partial) && value.toLowerCase() !== partial)
+      .slice(0, MAX_SUGGESTIONS)
+      .map((value) => ({
+        label: value,
+        insertText: `${negation}${fieldMatch[1]}:${quoteIfNeeded(value)}`,
+      }));
+  }
+
+  if (!/^[a-z]*$/i.test(body)) return [];
+
+  const partial = body.toLowerCase();
+  const fields = (Object.keys(FIELD_DESCRIPTIONS) as QueryField[])
+    .filter((field) => field.startsWith(partial))
+    // Backends only exist when several are federated
+    .filter((field) => field !== 'backend' || source.backends.length > 0)
+    .map((field) => ({
+      label: `${field}:`,
+      insertText: `${negation}${field}:`,
+      description: FIELD_DESCRIPTIONS[field],
+    }));
+  const metrics = (Object.keys(METRIC_DESCRIPTIONS) as QueryMetric[])
+    .filter((metric) => metric.startsWith(partial))
+    .map((metric) => ({
+      label: `${metric}>`,
+      insertText: `${negation}${metric}>`,
+      description: METRIC_DESCRIPTIONS[metric],
+    }));
+
+  // Tags are the most common filter, offer them directly for free text too
+  const tags = partial
+    ? source.tags
+        .filter((tag) => tag.toLowerCase().startsWith(partial))
+        .map((tag) => ({
+          label: `tag:${tag}`,
+          insertText: `${negation}tag:${quoteIfNeeded(tag)}`,
+        }))
+    : [];
+
+  return [...fields, ...metrics, ...tags].slice(0, MAX_SUGGESTIONS);
+}
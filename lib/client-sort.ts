@@ -0,0 +1,173 @@
+/**
+ * Client list sorting
+ * Sorting happens before grouping, so group sections keep the same order
+ */
+
+import { ClientDetail, ClientSummary } from './api-client';
+
+export type SortKey =
+  'priority' | 'name' | 'status' | 'cpu' | 'memory' | 'disk' | 'network' | 'uptime' | 'lastUpdate';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface ClientSort {
+  key: SortKey;
+  direction: SortDirection;
+  secondaryKey?: SortKey;
+}
+
+type SortableClient = ClientSummary | ClientDetail;
+
+export const SORT_KEYS: Array<{ value: SortKey; label: string }> = [
+  { value: 'priority', label: 'Priority' },
+  { value: 'name', label: 'Name' },
+  { value: 'status', label: 'Status' },
+  { value: 'cpu', label: 'CPU' },
+  { value: 'memory', label: 'Memory' },
+  { value: 'disk', label: 'Disk' },
+  { value: 'network', label: 'Network' },
+  { value: 'uptime', label: 'Uptime' },
+  { value: 'lastUpdate', label: 'Last update' },
+];
+
+/**
+ * Direction used when a key is picked, e.g. highest CPU first
+ * Secondary keys always use their default direction
+ */
+export const DEFAULT_SORT_DIRECTIONS: Record<SortKey, SortDirection> = {
+  priority: 'asc',
+  name: 'asc',
+  status: 'asc',
+  cpu: 'desc',
+  memory: 'desc',
+  disk: 'desc',
+  network: 'desc',
+  uptime: 'desc',
+  lastUpdate: 'desc',
+};
+
+export const DEFAULT_CLIENT_SORT: ClientSort = { key: 'priority', direction: 'asc' };
+
+/**
+ * Offline sorts before online in ascending order so problems come first
+ */
+const STATUS_ORDER: Record<ClientSummary['status'], number> = {
+  offline: 0,
+  stale: 1,
+  online: 2,
+};
+
+function isSortKey(value: string): value is SortKey {
+  return Object.prototype.hasOwnProperty.call(DEFAULT_SORT_DIRECTIONS, value);
+}
+
+/**
+ * Read the value a key sorts by
+ * Returns null when it is unknown, e.g. metrics before details have loaded
+ */
+function getSortValue(client: SortableClient, key: SortKey, now: number): number | string | null {
+  const status = 'currentStatus' in client && client.currentStatus ? client.currentStatus : null;
+
+  switch (key) {
+    case 'priority':
+      return client.priority;
+    case 'name':
+      return client.clientName || client.hostname || client.clientId;
+    case 'status':
+      return STATUS_ORDER[client.status] ?? null;
+    case 'cpu':
+      return status ? status.cpuUsage : null;
+    case 'memory':
+      return status ? status.memoryUsage : null;
+    case 'disk':
+      return status ? status.diskUsage : null;
+    case 'network':
+      return status ? status.networkUpload + status.networkDownload : null;
+    case 'uptime':
+      return client.status === 'online' && client.lastOnlineAt
+        ? Math.max(0, now - client.lastOnlineAt)
+        : null;
+    case 'lastUpdate':
+      return client.lastUpdate;
+  }
+}
+
+/**
+ * Compare two clients by one key; unknown values always sort last
+ */
+function compareBy(
+  a: SortableClient,
+  b: SortableClient,
+  key: SortKey,
+  direction: SortDirection,
+  now: number
+): number {
+  const valueA = getSortValue(a, key, now);
+  const valueB = getSortValue(b, key, now);
+
+  const missingA = valueA === null || (typeof valueA === 'number' && !Number.isFinite(valueA));
+  const missingB = valueB === null || (typeof valueB === 'number' && !Number.isFinite(valueB));
+  if (missingA || missingB) {
+    return missingA === missingB ? 0 : missingA ? 1 : -1;
+  }
+
+  const result =
+    typeof valueA === 'string' && typeof valueB === 'string'
+      ? valueA.localeCompare(valueB, 'en-US', { numeric: true, sensitivity: 'base' })
+      : (valueA as number) - (valueB as number);
+
+  return direction === 'asc' ? result : -result;
+}
+
+/**
+ * Sort clients by the primary key, then the secondary key, then priority
+ */
+export function sortClients<T extends SortableClient>(
+  clients: T[],
+  sort: ClientSort,
+  now: number = Date.now()
+): T[] {
+  return [...clients].sort(
+    (a, b) =>
+      compareBy(a, b, sort.key, sort.direction, now) ||
+      (sort.secondaryKey
+        ? compareBy(a, b, sort.secondaryKey, DEFAULT_SORT_DIRECTIONS[sort.secondaryKey], now)
+        : 0) ||
+      a.priority - b.priority ||
+      a.clientId.localeCompare(b.clientId)
+  );
+}
+
+/**
+ * Parse the `sort` URL parameter, e.g. "cpu:desc,name"
+ */
+export function parseSortParam(value: string | null): ClientSort {
+  if (!value) return DEFAULT_CLIENT_SORT;
+
+  const [primary, secondary] = value.split(',');
+  const [key, direction] = primary.split(':');
+  if (!isSortKey(key)) return DEFAULT_CLIENT_SORT;
+
+  return {
+    key,
+    direction:
+      direction === 'asc' || direction === 'desc' ? direction : DEFAULT_SORT_DIRECTIONS[key],
+    secondaryKey: secondary && isSortKey(secondary) && secondary !== key ? secondary : undefined,
+  };
+}
+
+/**
+ * Format a sort for the URL, null for the default
+ */
+export function formatSortParam(sort: ClientSort): string | null {
+  if (
+    sort.key === DEFAULT_CLIENT_SORT.key &&
+    sort.direction === DEFAULT_CLIENT_SORT.direction &&
+    !sort.secondaryKey
+  ) {
+    return null;
+  }
+
+  const primary = `${sort.key}:${sort.direction}`;
+  return sort.secondaryKey ? `${primary},${sort.secondaryKey}` : primary;
+}
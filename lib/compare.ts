@@ -0,0 +1,142 @@
+/**
+ * Multi-client comparison helpers
+ * Builds comparison links and aligns several clients' histories onto shared timestamps
+ */
+
+import { DynamicSystemStatus } from './api-client';
+import { getRuntimeConfig } from './runtime-config';
+
+export const MIN_COMPARE_CLIENTS = 2;
+export const MAX_COMPARE_CLIENTS = 10;
+
+/**
+ * Upper bound on points per comparison chart; samples are averaged into buckets beyond that
+ */
+const MAX_CHART_POINTS = 300;
+
+export type CompareMetric = 'cpu' | 'memory' | 'disk' | 'networkUpload' | 'networkDownload';
+
+export interface CompareMetricOption {
+  metric: CompareMetric;
+  label: string;
+  unit: 'percent' | 'speed';
+}
+
+export const COMPARE_METRICS: CompareMetricOption[] = [
+  { metric: 'cpu', label: 'CPU Usage', unit: 'percent' },
+  { metric: 'memory', label: 'Memory Usage', unit: 'percent' },
+  { metric: 'disk', label: 'Disk Usage', unit: 'percent' },
+  { metric: 'networkUpload', label: 'Network Upload', unit: 'speed' },
+  { metric: 'networkDownload', label: 'Network Download', unit: 'speed' },
+];
+
+/**
+ * Series colors, one per compared client
+ */
+export const COMPARE_COLORS = [
+  '#2563eb',
+  '#f59e0b',
+  '#10b981',
+  '#ef4444',
+  '#8b5cf6',
+  '#06b6d4',
+  '#ec4899',
+  '#84cc16',
+  '#f97316',
+  '#64748b',
+];
+
+/**
+ * One chart row; series values are keyed by `s<index>` in the order of the compared clients
+ */
+export interface AlignedPoint {
+  timestamp: number;
+  [seriesKey: string]: number;
+}
+
+export function getSeriesKey(index: number): string {
+  return `s${index}`;
+}
+
+/**
+ * Link to the comparison page
+ */
+export function getCompareHref(clientIds: string[], timeRange?: string): string {
+  const params = new URLSearchParams();
+  params.set('ids', clientIds.join(','));
+  if (timeRange && timeRange !== getRuntimeConfig().defaultTimeRange) {
+    params.set('range', timeRange);
+  }
+  return `/compare?${params.toString().replace(/%2C/g, ',')}`;
+}
+
+/**
+ * Parse the `ids` query parameter, dropping duplicates and anything past the maximum
+ */
+export function parseCompareIds(value: string | null | undefined): string[] {
+  if (!value) return [];
+  const ids = value
+    .split(',')
+    .map((id) => id.trim())
+    .filter((id) => id !== '');
+  return Array.from(new Set(ids)).slice(0, MAX_COMPARE_CLIENTS);
+}
+
+function getMetricValue(status: DynamicSystemStatus, metric: CompareMetric): number {
+  switch (metric) {
+    case 'cpu':
+      return status.cpuUsage;
+    case 'memory':
+      return status.memoryUsage;
+    case 'disk':
+      return status.diskUsage;
+    case 'networkUpload':
+      return status.networkUpload;
+    case 'networkDownload':
+      return status.networkDownload;
+  }
+}
+
+/**
+ * Align several histories onto shared bucket timestamps
+ * Clients report at different moments, so samples are averaged per bucket; a client
+ * without samples in a bucket gets no value there rather than an invented one
+ */
+export function alignSeries(
+  histories: DynamicSystemStatus[][],
+  metric: CompareMetric,
+  startTime: number,
+  endTime: number
+): AlignedPoint[] {
+  const bucketSize = Math.max(Math.ceil((endTime - startTime) / MAX_CHART_POINTS), 1000);
+  const buckets = new Map<number, Array<{ sum: number; count: number }>>();
+
+  histories.forEach((history, index) => {
+    history.forEach((status) => {
+      if (status.timestamp < startTime || status.timestamp > endTime) return;
+      const value = getMetricValue(status, metric);
+      if (!Number.isFinite(value)) return;
+
+      const bucket =
+        startTime + Math.floor((status.timestamp - startTime) / bucketSize) * bucketSize;
+      if (!buckets.has(bucket)) {
+        buckets.set(bucket, []);
+      }
+      const totals = buckets.get(bucket)!;
+      const total = totals[index] ?? { sum: 0, count: 0 };
+      total.sum += value;
+      total.count += 1;
+      totals[index] = total;
+    });
+  });
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([timestamp, totals]) => {
+      const point: AlignedPoint = { timestamp };
+      totals.forEach((total, index) => {
+        if (total) point[getSeriesKey(index)] = total.sum / total.count;
+      });
+      return point;
+    });
+}
@@ -0,0 +1,122 @@
+/**
+ * Per-disk history and fill projections
+ * Splits `diskUsages` of each history sample into one series per device/mountpoint and
+ * fits a linear trend to estimate growth and the time until the disk is full
+ */
+
+import { DiskUsage, DynamicSystemStatus } from './api-client';
+import { DAY_MS, HOUR_MS, fitLinearTrend, timeUntilLimit } from './trend';
+
+export interface DiskSample {
+  timestamp: number;
+  usagePercent: number;
+  used: number;
+  size: number;
+}
+
+export interface DiskSeries {
+  /**
+   * Mountpoint, or the device when it has none
+   */
+  key: string;
+  device: string;
+  mountpoint?: string;
+  label: string;
+  samples: DiskSample[];
+}
+
+export interface DiskForecast {
+  growthBytesPerDay: number;
+  growthPercentPerDay: number;
+  /**
+   * Milliseconds from the latest sample until the disk is full; null when it is not growing
+   */
+  timeUntilFull: number | null;
+  r2: number;
+}
+
+export type ForecastSeverity = 'critical' | 'warning' | 'ok';
+
+/**
+ * Shortest history a projection is made from; shorter windows are mostly noise
+ */
+export const MIN_FORECAST_SPAN = HOUR_MS;
+
+const CRITICAL_FULL_WITHIN = 7 * DAY_MS;
+const WARNING_FULL_WITHIN = 30 * DAY_MS;
+
+/**
+ * Display name of a disk, with its mountpoint when that differs from the device
+ */
+export function getDiskLabel(disk: Pick<DiskUsage, 'device' | 'mountpoint'>): string {
+  if (disk.mountpoint && disk.mountpoint !== disk.device) {
+    return `${disk.device} (${disk.mountpoint})`;
+  }
+  return disk.device;
+}
+
+export function getDiskKey(disk: Pick<DiskUsage, 'device' | 'mountpoint'>): string {
+  return disk.mountpoint || disk.device;
+}
+
+/**
+ * One series per disk across the history, in time order, sorted by device name
+ */
+export function buildDiskSeries(history: DynamicSystemStatus[]): DiskSeries[] {
+  const series = new Map<string, DiskSeries>();
+  const sorted = [...history].sort((a, b) => a.timestamp - b.timestamp);
+
+  sorted.forEach((status) => {
+    status.diskUsages?.forEach((disk) => {
+      const key = getDiskKey(disk);
+      if (!series.has(key)) {
+        series.set(key, {
+          key,
+          device: disk.device,
+          mountpoint: disk.mountpoint,
+          label: getDiskLabel(disk),
+          samples: [],
+        });
+      }
+      series.get(key)!.samples.push({
+        timestamp: status.timestamp,
+        usagePercent: disk.usagePercent,
+        used: disk.used,
+        size: disk.size,
+      });
+    });
+  });
+
+  return Array.from(series.values()).sort((a, b) => a.device.localeCompare(b.device));
+}
+
+/**
+ * Growth rate and time until full from a linear fit of used bytes
+ * Null without enough history to project from
+ */
+export function forecastDisk(series: DiskSeries): DiskForecast | null {
+  const { samples } = series;
+  const usedTrend = fitLinearTrend(
+    samples.map((sample) => ({ timestamp: sample.timestamp, value: sample.used }))
+  );
+  const percentTrend = fitLinearTrend(
+    samples.map((sample) => ({ timestamp: sample.timestamp, value: sample.usagePercent }))
+  );
+  if (!usedTrend || !percentTrend || usedTrend.span < MIN_FORECAST_SPAN) return null;
+
+  const latest = samples[samples.length - 1];
+  return {
+    growthBytesPerDay: usedTrend.slope * DAY_MS,
+    growthPercentPerDay: percentTrend.slope * DAY_MS,
+    timeUntilFull: timeUntilLimit(usedTrend, latest.size, latest.timestamp),
+    r2: usedTrend.r2,
+  };
+}
+
+export function getForecastSeverity(forecast: DiskForecast | null): ForecastSeverity {
+  const timeUntilFull = forecast?.timeUntilFull;
+  if (timeUntilFull === null || timeUntilFull === undefined) return 'ok';
+  if (timeUntilFull <= CRITICAL_FULL_WITHIN) return 'critical';
+  if (timeUntilFull <= WARNING_FULL_WITHIN) return 'warning';
+  return 'ok';
+}
@@ -0,0 +1,192 @@
+/**
+ * Downsampling for history charts
+ * Long ranges hold far more samples than the chart has pixels; they are reduced either
+ * with Largest-Triangle-Three-Buckets, which keeps the visual shape, or by aggregating
+ * fixed time buckets with a min-max band
+ */
+
+export type Aggregation = 'avg' | 'min' | 'max' | 'p95';
+
+export type DownsampleMode = 'lttb' | Aggregation;
+
+export const DOWNSAMPLE_MODES: Array<{ value: DownsampleMode; label: string }> = [
+  { value: 'lttb', label: 'LTTB' },
+  { value: 'avg', label: 'Avg' },
+  { value: 'min', label: 'Min' },
+  { value: 'max', label: 'Max' },
+  { value: 'p95', label: 'P95' },
+];
+
+/**
+ * One chart row: a timestamp and a value per series key
+ */
+export interface SeriesRow {
+  timestamp: number;
+  [key: string]: number;
+}
+
+/**
+ * Downsampled row; in aggregation modes each series also has a `<key>Band` [min, max] pair
+ */
+export interface DownsampledRow {
+  timestamp: number;
+  [key: string]: number | [number, number] | undefined;
+}
+
+export interface DownsampleRequest {
+  rows: SeriesRow[];
+  keys: string[];
+  mode: DownsampleMode;
+  /**
+   * Points to keep per series, usually the chart width in pixels
+   */
+  targetPoints: number;
+}
+
+export function getBandKey(key: string): string {
+  return `${key}Band`;
+}
+
+/**
+ * Indices of the points LTTB keeps for one series
+ * Always keeps the first and last point
+ */
+export function lttbIndices(xs: number[], ys: number[], threshold: number): number[] {
+  const length = xs.length;
+  if (threshold >= length || threshold < 3) {
+    return Array.from({ length }, (_, i) => i);
+  }
+
+  const indices = [0];
+  const bucketSize = (length - 2) / (threshold - 2);
+  let previous = 0;
+
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    // Average of the next bucket is the third triangle corner
+    const nextStart = Math.floor((bucket + 1) * bucketSize) + 1;
+    const nextEnd = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, length);
+    let avgX = 0;
+    let avgY = 0;
+    for (let i = nextStart; i < nextEnd; i++) {
+      avgX += xs[i];
+      avgY += ys[i];
+    }
+    const nextCount = Math.max(nextEnd - nextStart, 1);
+    avgX /= nextCount;
+    avgY /= nextCount;
+
+    // Keep the point in this bucket spanning the largest triangle
+    const start = Math.floor(bucket * bucketSize) + 1;
+    const end = Math.floor((bucket + 1) * bucketSize) + 1;
+    let maxArea = -1;
+    let selected = start;
+    for (let i = start; i < end; i++) {
+      const area = Math.abs(
+        (xs[previous] - avgX) * (ys[i] - ys[previous]) -
+          (xs[previous] - xs[i]) * (avgY - ys[previous])
+      );
+      if (area > maxArea) {
+        maxArea = area;
+        selected = i;
+      }
+    }
+
+    indices.push(selected);
+    previous = selected;
+  }
+
+  indices.push(length - 1);
+  return indices;
+}
+
+/**
+ * LTTB per series; rows chosen for any series are kept whole so all series share timestamps
+ */
+function downsampleLttb(rows: SeriesRow[], keys: string[], targetPoints: number): DownsampledRow[] {
+  if (rows.length <= targetPoints) return rows;
+
+  const xs = rows.map((row) => row.timestamp);
+  const kept = new Set<number>();
+  keys.forEach((key) => {
+    const ys = rows.map((row) => (Number.isFinite(row[key]) ? row[key] : 0));
+    lttbIndices(xs, ys, targetPoints).forEach((index) => kept.add(index));
+  });
+
+  return Array.from(kept)
+    .sort((a, b) => a - b)
+    .map((index) => rows[index]);
+}
+
+function aggregate(sorted: number[], aggregation: Aggregation): number {
+  switch (aggregation) {
+    case 'min':
+      return sorted[0];
+    case 'max':
+      return sorted[sorted.length - 1];
+    case 'p95':
+      return sorted[Math.max(Math.ceil(sorted.length * 0.95) - 1, 0)];
+    case 'avg':
+      return sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  }
+}
+
+/**
+ * Aggregate fixed-width time buckets; empty buckets are skipped
+ */
+function downsampleBuckets(
+  rows: SeriesRow[],
+  keys: string[],
+  aggregation: Aggregation,
+  bucketCount: number
+): DownsampledRow[] {
+  if (rows.length === 0) return [];
+
+  const first = rows[0].timestamp;
+  const span = rows[rows.length - 1].timestamp - first;
+  const bucketSize = Math.max(span / Math.max(bucketCount, 1), 1);
+  const buckets = new Map<number, SeriesRow[]>();
+
+  rows.forEach((row) => {
+    const bucket = Math.min(Math.floor((row.timestamp - first) / bucketSize), bucketCount - 1);
+    if (!buckets.has(bucket)) {
+      buckets.set(bucket, []);
+    }
+    buckets.get(bucket)!.push(row);
+  });
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([bucket, bucketRows]) => {
+      const result: DownsampledRow = {
+        timestamp: Math.round(first + (bucket + 0.5) * bucketSize),
+      };
+      keys.forEach((key) => {
+        const values = bucketRows
+          .map((row) => row[key])
+          .filter((value) => Number.isFinite(value))
+          .sort((a, b) => a - b);
+        if (values.length === 0) return;
+        result[key] = aggregate(values, aggregation);
+        result[getBandKey(key)] = [values[0], values[values.length - 1]];
+      });
+      return result;
+    });
+}
+
+/**
+ * Reduce rows for display
+ * Runs in the downsampling worker; also called directly where workers are unavailable
+ */
+export function downsampleRows({
+  rows,
+  keys,
+  mode,
+  targetPoints,
+}: DownsampleRequest): DownsampledRow[] {
+  const points = Math.max(Math.floor(targetPoints), 3);
+  if (mode === 'lttb') {
+    return downsampleLttb(rows, keys, points);
+  }
+  // A bucket per few pixels keeps the band readable
+  return downsampleBuckets(rows, keys, mode, Math.max(Math.floor(points / 4), 1));
+}
@@ -0,0 +1,15 @@
+/**
+ * Web Worker running history downsampling off the main thread
+ * Message in: { id, request }; message out: { id, rows } or { id, error }
+ */
+
+import { DownsampleRequest, downsampleRows } from './downsample';
+
+self.onmessage = (event: MessageEvent<{ id: number; request: DownsampleRequest }>) => {
+  const { id, request } = event.data;
+  try {
+    self.postMessage({ id, rows: downsampleRows(request) });
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -5,6 +5,8 @@
  */
 
 import { ApiError } from './api-client';
+import { AuthError } from './auth';
+import { SchemaValidationError } from './schema';
 
 /**
  * Error types for categorization
@@ -14,6 +16,7 @@ export enum ErrorType {
   TIMEOUT = 'timeout',
   NOT_FOUND = 'not_found',
   VALIDATION = 'validation',
+  AUTH = 'auth',
   SERVER = 'server',
   UNKNOWN = 'unknown',
 }
@@ -57,6 +60,28 @@ export function handleApiError(error: unknown): UserFriendlyError {
       };
     }
 
+    // 401 Unauthorized - missing, expired or rejected credentials
+    if (error.statusCode === 401) {
+      return {
+        type: ErrorType.AUTH,
+        title: 'Sign-in Required',
+        message: 'Your session has expired or your credentials were rejected. Please sign in again',
+        canRetry: false,
+        originalError: error,
+      };
+    }
+
+    // 403 Forbidden - signed in, but not allowed
+    if (error.statusCode === 403) {
+      return {
+        type: ErrorType.AUTH,
+        title: 'Access Denied',
+        message: 'Your account is not allowed to view this data. Sign in with a different account',
+        canRetry: false,
+        originalError: error,
+      };
+    }
+
     // 404 Not Found
     if (error.statusCode === 404) {
       return {
@@ -100,6 +125,29 @@ export function handleApiError(error: unknown): UserFriendlyError {
     };
   }
 
+  // Sign-in and token failures
+  if (error instanceof AuthError) {
+    return {
+      type: ErrorType.AUTH,
+      title: 'Sign-in Failed',
+      message: error.message || 'Signing in did not complete. Please try again',
+      canRetry: false,
+      originalError: error,
+    };
+  }
+
+  // Response in a format the dashboard does not understand
+  if (error instanceof SchemaValidationError) {
+    return {
+      type: ErrorType.VALIDATION,
+      title: 'Unexpected Server Response',
+      message:
+        'The server sent data in a format this dashboard does not understand. See schema drift in the header for details',
+      canRetry: true,
+      originalError: error,
+    };
+  }
+
   // Handle generic errors
   if (error instanceof Error) {
     return {
@@ -0,0 +1,474 @@
+/**
+ * History export
+ * Serializes status history as CSV, newline-delimited JSON or OpenMetrics text, and
+ * snapshots Recharts charts as SVG or PNG. Disk usage is flattened per device in every format
+ */
+
+import { DiskUsage, DynamicSystemStatus } from './api-client';
+import { resolveTimeRange } from './time-range';
+
+/**
+ * History of one client to export
+ */
+export interface ExportSeries {
+  clientId: string;
+  clientName: string;
+  history: DynamicSystemStatus[];
+}
+
+export type DataExportFormat = 'csv' | 'ndjson' | 'openmetrics';
+
+export type ImageExportFormat = 'svg' | 'png';
+
+export const DATA_EXPORT_FORMATS: Array<{
+  value: DataExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}> = [
+  { value: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { value: 'ndjson', label: 'NDJSON', extension: 'ndjson', mimeType: 'application/x-ndjson' },
+  {
+    value: 'openmetrics',
+    label: 'OpenMetrics',
+    extension: 'om.txt',
+    mimeType: 'application/openmetrics-text; version=1.0.0; charset=utf-8',
+  },
+];
+
+export const IMAGE_EXPORT_FORMATS: Array<{ value: ImageExportFormat; label: string }> = [
+  { value: 'png', label: 'PNG' },
+  { value: 'svg', label: 'SVG' },
+];
+
+/**
+ * Scalar status fields, in export order, with their CSV column and OpenMetrics family
+ */
+const STATUS_FIELDS: Array<{
+  key: Exclude<keyof DynamicSystemStatus, 'diskUsages' | 'timestamp'>;
+  column: string;
+  metric: string;
+  help: string;
+}> = [
+  {
+    key: 'cpuUsage',
+    column: 'cpu_usage',
+    metric: 'system_monitor_cpu_usage_percent',
+    help: 'CPU usage in percent.',
+  },
+  {
+    key: 'cpuFrequency',
+    column: 'cpu_frequency',
+    metric: 'system_monitor_cpu_frequency_ghz',
+    help: 'CPU frequency in GHz.',
+  },
+  {
+    key: 'memoryUsage',
+    column: 'memory_usage',
+    metric: 'system_monitor_memory_usage_percent',
+    help: 'Memory usage in percent.',
+  },
+  {
+    key: 'swapUsage',
+    column: 'swap_usage',
+    metric: 'system_monitor_swap_usage_percent',
+    help: 'Swap usage in percent.',
+  },
+  {
+    key: 'diskUsage',
+    column: 'disk_usage',
+    metric: 'system_monitor_disk_usage_percent',
+    help: 'Usage of all disks in percent.',
+  },
+  {
+    key: 'networkUpload',
+    column: 'network_upload',
+    metric: 'system_monitor_network_upload_bytes_per_second',
+    help: 'Upload speed in bytes per second.',
+  },
+  {
+    key: 'networkDownload',
+    column: 'network_download',
+    metric: 'system_monitor_network_download_bytes_per_second',
+    help: 'Download speed in bytes per second.',
+  },
+];
+
+/**
+ * Per-device disk fields, with their CSV column suffix and OpenMetrics family
+ */
+const DISK_FIELDS: Array<{
+  key: 'usagePercent' | 'used' | 'available' | 'size';
+  column: string;
+  metric: string;
+  help: string;
+}> = [
+  {
+    key: 'usagePercent',
+    column: 'usage_percent',
+    metric: 'system_monitor_disk_device_usage_percent',
+    help: 'Disk usage per device in percent.',
+  },
+  {
+    key: 'used',
+    column: 'used_bytes',
+    metric: 'system_monitor_disk_device_used_bytes',
+    help: 'Used bytes per disk device.',
+  },
+  {
+    key: 'available',
+    column: 'available_bytes',
+    metric: 'system_monitor_disk_device_available_bytes',
+    help: 'Available bytes per disk device.',
+  },
+  {
+    key: 'size',
+    column: 'size_bytes',
+    metric: 'system_monitor_disk_device_size_bytes',
+    help: 'Size of each disk device in bytes.',
+  },
+];
+
+function sortedHistory(history: DynamicSystemStatus[]): DynamicSystemStatus[] {
+  return [...history].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Disk devices seen anywhere in the exported history, in first-seen order
+ */
+function collectDevices(series: ExportSeries[]): string[] {
+  const devices = new Set<string>();
+  series.forEach(({ history }) =>
+    history.forEach((status) => status.diskUsages?.forEach((disk) => devices.add(disk.device)))
+  );
+  return Array.from(devices);
+}
+
+function findDisk(status: DynamicSystemStatus, device: string): DiskUsage | undefined {
+  return status.diskUsages?.find((disk) => disk.device === device);
+}
+
+function formatNumber(value: number | undefined): string {
+  return typeof value === 'number' && Number.isFinite(value) ? String(value) : '';
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * One row per sample; each disk device gets its own group of columns
+ */
+export function toCsv(series: ExportSeries[]): string {
+  const devices = collectDevices(series);
+  const header = [
+    'client_id',
+    'client_name',
+    'timestamp',
+    'time',
+    ...STATUS_FIELDS.map((field) => field.column),
+    ...devices.flatMap((device) => DISK_FIELDS.map((field) => `disk:${device}:${field.column}`)),
+  ];
+
+  const lines = [header.map(escapeCsv).join(',')];
+  series.forEach(({ clientId, clientName, history }) => {
+    sortedHistory(history).forEach((status) => {
+      const cells = [
+        clientId,
+        clientName,
+        String(status.timestamp),
+        new Date(status.timestamp).toISOString(),
+        ...STATUS_FIELDS.map((field) => formatNumber(status[field.key])),
+        ...devices.flatMap((device) => {
+          const disk = findDisk(status, device);
+          return DISK_FIELDS.map((field) => formatNumber(disk?.[field.key]));
+        }),
+      ];
+      lines.push(cells.map(escapeCsv).join(','));
+    });
+  });
+
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * One JSON object per line; disk usages are keyed by device
+ */
+export function toNdjson(series: ExportSeries[]): string {
+  const lines = series.flatMap(({ clientId, clientName, history }) =>
+    sortedHistory(history).map((status) => {
+      const { diskUsages, ...fields } = status;
+      const disks: Record<string, Omit<DiskUsage, 'device'>> = {};
+      diskUsages?.forEach(({ device, ...disk }) => {
+        disks[device] = disk;
+      });
+      return JSON.stringify({
+        clientId,
+        clientName,
+        time: new Date(status.timestamp).toISOString(),
+        ...fields,
+        disks,
+      });
+    })
+  );
+
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  );
+  return `{${pairs.join(',')}}`;
+}
+
+function formatSampleLine(
+  metric: string,
+  labels: Record<string, string>,
+  value: number,
+  timestamp: number
+): string {
+  // OpenMetrics timestamps are seconds
+  return `${metric}${formatLabels(labels)} ${value} ${(timestamp / 1000).toFixed(3)}`;
+}
+
+/**
+ * OpenMetrics text exposition with a gauge family per field and a sample per timestamp
+ */
+export function toOpenMetrics(series: ExportSeries[]): string {
+  const lines: string[] = [];
+  const histories = series.map((entry) => ({ ...entry, history: sortedHistory(entry.history) }));
+  const devices = collectDevices(series);
+
+  STATUS_FIELDS.forEach((field) => {
+    lines.push(`# HELP ${field.metric} ${field.help}`, `# TYPE ${field.metric} gauge`);
+    histories.forEach(({ clientId, clientName, history }) => {
+      const labels = { client_id: clientId, client_name: clientName };
+      history.forEach((status) => {
+        const value = status[field.key];
+        if (typeof value === 'number' && Number.isFinite(value)) {
+          lines.push(formatSampleLine(field.metric, labels, value, status.timestamp));
+        }
+      });
+    });
+  });
+
+  DISK_FIELDS.forEach((field) => {
+    lines.push(`# HELP ${field.metric} ${field.help}`, `# TYPE ${field.metric} gauge`);
+    histories.forEach(({ clientId, clientName, history }) => {
+      // Samples of one label set must be contiguous and in time order
+      devices.forEach((device) => {
+        history.forEach((status) => {
+          const disk = findDisk(status, device);
+          const value = disk?.[field.key];
+          if (typeof value !== 'number' || !Number.isFinite(value)) return;
+          const labels = {
+            client_id: clientId,
+            client_name: clientName,
+            device,
+            mountpoint: disk?.mountpoint ?? '',
+          };
+          lines.push(formatSampleLine(field.metric, labels, value, status.timestamp));
+        });
+      });
+    });
+  });
+
+  lines.push('# EOF');
+  return `${lines.join('\n')}\n`;
+}
+
+export function formatHistory(series: ExportSeries[], format: DataExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return toCsv(series);
+    case 'ndjson':
+      return toNdjson(series);
+    case 'openmetrics':
+      return toOpenMetrics(series);
+  }
+}
+
+function formatFileTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 16).replace(/[-:]/g, '');
+}
+
+/**
+ * File name without extension, e.g. system-monitor-web-01-20261019T0500-20261019T0600
+ */
+export function getExportBaseName(name: string, timeRange: string): string {
+  const { startTime, endTime } = resolveTimeRange(timeRange);
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return [
+    'system-monitor',
+    slug || 'export',
+    formatFileTime(startTime),
+    formatFileTime(endTime),
+  ].join('-');
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoke after the click has been handled; some browsers read the URL asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function downloadHistory(
+  series: ExportSeries[],
+  format: DataExportFormat,
+  baseName: string
+): void {
+  const option = DATA_EXPORT_FORMATS.find((entry) => entry.value === format)!;
+  const blob = new Blob([formatHistory(series, format)], { type: option.mimeType });
+  downloadBlob(blob, `${baseName}.${option.extension}`);
+}
+
+/**
+ * Computed styles copied onto the snapshot, since its colors come from CSS variables
+ * that do not exist outside the page
+ */
+const INLINED_STYLES = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-opacity',
+  'stroke-dasharray',
+  'opacity',
+  'font-family',
+  'font-size',
+  'font-weight',
+];
+
+const SNAPSHOT_TITLE_HEIGHT = 32;
+
+/**
+ * Background the element is drawn on: its own or that of the nearest ancestor that has one
+ */
+function getBackgroundColor(element: HTMLElement): string {
+  for (let node: HTMLElement | null = element; node; node = node.parentElement) {
+    const color = window.getComputedStyle(node).backgroundColor;
+    if (color && color !== 'transparent' && color !== 'rgba(0, 0, 0, 0)') return color;
+  }
+  return '#ffffff';
+}
+
+/**
+ * Standalone SVG for the chart in a container, with a title and the container background
+ */
+function buildChartSvg(
+  container: HTMLElement,
+  title: string
+): { markup: string; width: number; height: number } {
+  const source = container.querySelector<SVGSVGElement>('.recharts-wrapper > svg');
+  if (!source) {
+    throw new Error('No chart to export');
+  }
+
+  const clone = source.cloneNode(true) as SVGSVGElement;
+  const sourceNodes = source.querySelectorAll('*');
+  const cloneNodes = clone.querySelectorAll('*');
+  sourceNodes.forEach((node, index) => {
+    const computed = window.getComputedStyle(node);
+    const target = cloneNodes[index] as SVGElement;
+    const style = INLINED_STYLES.map(
+      (property) => `${property}:${computed.getPropertyValue(property)}`
+    ).join(';');
+    target.setAttribute('style', style);
+  });
+
+  const { width, height } = source.getBoundingClientRect();
+  const totalHeight = height + SNAPSHOT_TITLE_HEIGHT;
+  const containerStyle = window.getComputedStyle(container);
+  const namespace = 'http://www.w3.org/2000/svg';
+
+  const root = document.createElementNS(namespace, 'svg');
+  root.setAttribute('xmlns', namespace);
+  root.setAttribute('width', String(width));
+  root.setAttribute('height', String(totalHeight));
+  root.setAttribute('viewBox', `0 0 ${width} ${totalHeight}`);
+
+  const background = document.createElementNS(namespace, 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', getBackgroundColor(container));
+  root.appendChild(background);
+
+  const heading = document.createElementNS(namespace, 'text');
+  heading.setAttribute('x', '16');
+  heading.setAttribute('y', '22');
+  heading.setAttribute(
+    'style',
+    `fill:${containerStyle.color};font-family:${containerStyle.fontFamily};font-size:14px;font-weight:600`
+  );
+  heading.textContent = title;
+  root.appendChild(heading);
+
+  clone.setAttribute('x', '0');
+  clone.setAttribute('y', String(SNAPSHOT_TITLE_HEIGHT));
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  root.appendChild(clone);
+
+  return { markup: new XMLSerializer().serializeToString(root), width, height: totalHeight };
+}
+
+function renderPng(markup: string, width: number, height: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }));
+    const image = new Image();
+    image.onload = () => {
+      // At least 2x so the snapshot stays sharp when pasted into documents
+      const scale = Math.max(window.devicePixelRatio || 1, 2);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode PNG'))),
+        'image/png'
+      );
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render chart'));
+    };
+    image.src = url;
+  });
+}
+
+/**
+ * Download the chart inside a container as an SVG or PNG snapshot
+ */
+export async function downloadChartSnapshot(
+  container: HTMLElement,
+  title: string,
+  format: ImageExportFormat,
+  baseName: string
+): Promise<void> {
+  const { markup, width, height } = buildChartSvg(container, title);
+  if (format === 'svg') {
+    downloadBlob(new Blob([markup], { type: 'image/svg+xml' }), `${baseName}.svg`);
+    return;
+  }
+  downloadBlob(await renderPng(markup, width, height), `${baseName}.png`);
+}
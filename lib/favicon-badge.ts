@@ -0,0 +1,36 @@
+/**
+ * Shared unhealthy-client count shown as a badge on the favicon
+ * The dashboard publishes the count; FaviconManager in the root layout subscribes
+ */
+
+'use client';
+
+import { useSyncExternalStore } from 'react';
+
+let unhealthyCount = 0;
+const listeners = new Set<() => void>();
+
+/**
+ * Publish the number of currently unhealthy clients
+ */
+export function setUnhealthyCount(count: number): void {
+  if (count === unhealthyCount) return;
+  unhealthyCount = count;
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Hook for the current unhealthy-client count
+ */
+export function useUnhealthyCount(): number {
+  return useSyncExternalStore(
+    subscribe,
+    () => unhealthyCount,
+    () => 0
+  );
+}
@@ -0,0 +1,161 @@
+/**
+ * Fleet overview
+ * Aggregates the loaded clients into status counts, usage distributions, total network
+ * throughput, the hottest hosts per metric and platform/tag breakdowns. Each segment
+ * carries the search terms that filter the dashboard down to it
+ */
+
+import { ClientDetail, ClientSummary } from './api-client';
+import { formatFieldTerm } from './client-query';
+
+export type SummaryMetric = 'cpu' | 'memory' | 'disk';
+
+export const SUMMARY_METRICS: Array<{ metric: SummaryMetric; label: string }> = [
+  { metric: 'cpu', label: 'CPU' },
+  { metric: 'memory', label: 'Memory' },
+  { metric: 'disk', label: 'Disk' },
+];
+
+/**
+ * Usage bucket bounds in percent; the last bucket includes 100
+ */
+const BUCKET_BOUNDS = [0, 20, 40, 60, 80, 100];
+
+export const HOTTEST_COUNT = 5;
+
+export interface SummarySegment {
+  label: string;
+  count: number;
+  /**
+   * Search terms selecting the clients in this segment
+   */
+  terms: string[];
+}
+
+export interface HotClient {
+  clientId: string;
+  clientName: string;
+  value: number;
+}
+
+export interface FleetSummary {
+  total: number;
+  online: number;
+  stale: number;
+  offline: number;
+  statusSegments: SummarySegment[];
+  /**
+   * Buckets per metric, lowest usage first; only clients with loaded details are counted
+   */
+  usage: Record<SummaryMetric, SummarySegment[]>;
+  /**
+   * Summed over online clients, bytes per second
+   */
+  networkUpload: number;
+  networkDownload: number;
+  hottest: Record<SummaryMetric, HotClient[]>;
+  /**
+   * Most common first
+   */
+  platforms: SummarySegment[];
+  tags: SummarySegment[];
+}
+
+type SummarizableClient = ClientSummary | ClientDetail;
+
+function getUsage(client: SummarizableClient, metric: SummaryMetric): number | null {
+  if (!('currentStatus' in client) || !client.currentStatus) return null;
+  const value =
+    metric === 'cpu'
+      ? client.currentStatus.cpuUsage
+      : metric === 'memory'
+        ? client.currentStatus.memoryUsage
+        : client.currentStatus.diskUsage;
+  return Number.isFinite(value) ? value : null;
+}
+
+function getBucketIndex(value: number): number {
+  const index = BUCKET_BOUNDS.findIndex((bound, i) => i > 0 && value < bound) - 1;
+  return index < 0 ? BUCKET_BOUNDS.length - 2 : index;
+}
+
+function buildBuckets(metric: SummaryMetric): SummarySegment[] {
+  return BUCKET_BOUNDS.slice(0, -1).map((min, index) => {
+    const max = BUCKET_BOUNDS[index + 1];
+    const isLast = index === BUCKET_BOUNDS.length - 2;
+    const terms = [];
+    if (min > 0) terms.push(`${metric}>=${min}`);
+    if (!isLast) terms.push(`${metric}<${max}`);
+    return { label: `${min}–${max}%`, count: 0, terms };
+  });
+}
+
+/**
+ * Counts per value, most common first
+ */
+function countSegments(values: string[], toTerms: (value: string) => string[]): SummarySegment[] {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return Array.from(counts.entries())
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .map(([label, count]) => ({ label, count, terms: toTerms(label) }));
+}
+
+export function summarizeFleet(clients: SummarizableClient[]): FleetSummary {
+  const online = clients.filter((client) => client.status === 'online').length;
+  const stale = clients.filter((client) => client.status === 'stale').length;
+  const offline = clients.length - online - stale;
+  const usage = {} as Record<SummaryMetric, SummarySegment[]>;
+  const hottest = {} as Record<SummaryMetric, HotClient[]>;
+
+  SUMMARY_METRICS.forEach(({ metric }) => {
+    const buckets = buildBuckets(metric);
+    const hot: HotClient[] = [];
+    clients.forEach((client) => {
+      const value = getUsage(client, metric);
+      if (value === null) return;
+      buckets[getBucketIndex(value)].count++;
+      hot.push({ clientId: client.clientId, clientName: client.clientName, value });
+    });
+    usage[metric] = buckets;
+    hottest[metric] = hot.sort((a, b) => b.value - a.value).slice(0, HOTTEST_COUNT);
+  });
+
+  let networkUpload = 0;
+  let networkDownload = 0;
+  clients.forEach((client) => {
+    if (client.status !== 'online' || !('currentStatus' in client) || !client.currentStatus) {
+      return;
+    }
+    networkUpload += Number.isFinite(client.currentStatus.networkUpload)
+      ? client.currentStatus.networkUpload
+      : 0;
+    networkDownload += Number.isFinite(client.currentStatus.networkDownload)
+      ? client.currentStatus.networkDownload
+      : 0;
+  });
+
+  return {
+    total: clients.length,
+    online,
+    stale,
+    offline,
+    statusSegments: [
+      { label: 'Online', count: online, terms: ['status:online'] },
+      ...(stale > 0 ? [{ label: 'Stale', count: stale, terms: ['status:stale'] }] : []),
+      { label: 'Offline', count: offline, terms: ['status:offline'] },
+    ],
+    usage,
+    networkUpload,
+    networkDownload,
+    hottest,
+    platforms: countSegments(
+      clients.map((client) => client.platform).filter(Boolean),
+      (platform) => [formatFieldTerm('platform', platform)]
+    ),
+    tags: countSegments(
+      clients.flatMap((client) => client.clientTags || []),
+      (tag) => [formatFieldTerm('tag', tag)]
+    ),
+  };
+}
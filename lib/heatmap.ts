@@ -0,0 +1,116 @@
+/**
+ * Fleet heatmap
+ * Maps each client to a single value of the chosen metric and that value to a 0–1
+ * intensity for colouring its tile
+ */
+
+import { ClientDetail, ClientSummary } from './api-client';
+import { isFederated } from './backends';
+import { formatBytes } from './utils';
+
+export type HeatmapMetric = 'cpu' | 'memory' | 'swap' | 'disk' | 'network';
+
+export const HEATMAP_METRICS: Array<{ metric: HeatmapMetric; label: string }> = [
+  { metric: 'cpu', label: 'CPU' },
+  { metric: 'memory', label: 'Memory' },
+  { metric: 'swap', label: 'Swap' },
+  { metric: 'disk', label: 'Max disk' },
+  { metric: 'network', label: 'Network' },
+];
+
+export const DEFAULT_HEATMAP_METRIC: HeatmapMetric = 'cpu';
+
+export function isHeatmapMetric(value: string | null): value is HeatmapMetric {
+  return HEATMAP_METRICS.some(({ metric }) => metric === value);
+}
+
+/**
+ * Tiles are grouped the same ways as the group views
+ */
+export type HeatmapGroupBy = 'tags' | 'purpose' | 'platform' | 'backend';
+
+const HEATMAP_GROUP_OPTIONS: Array<{ value: HeatmapGroupBy; label: string }> = [
+  { value: 'tags', label: 'Label' },
+  { value: 'purpose', label: 'Use' },
+  { value: 'platform', label: 'Platform' },
+  { value: 'backend', label: 'Backend' },
+];
+
+/**
+ * Grouping options; backends are only offered when several are federated
+ */
+export function getHeatmapGroupOptions(): Array<{ value: HeatmapGroupBy; label: string }> {
+  return isFederated()
+    ? HEATMAP_GROUP_OPTIONS
+    : HEATMAP_GROUP_OPTIONS.filter((option) => option.value !== 'backend');
+}
+
+export const DEFAULT_HEATMAP_GROUP: HeatmapGroupBy = 'tags';
+
+export function isHeatmapGroupBy(value: string | null): value is HeatmapGroupBy {
+  return getHeatmapGroupOptions().some((option) => option.value === value);
+}
+
+type HeatmapClient = ClientSummary | ClientDetail;
+
+/**
+ * Value of the metric for a client, or null while its details are not loaded
+ * Disk is the fullest mountpoint; network is upload plus download in bytes per second
+ */
+export function getHeatmapValue(client: HeatmapClient, metric: HeatmapMetric): number | null {
+  if (!('currentStatus' in client) || !client.currentStatus) return null;
+  const status = client.currentStatus;
+
+  let value: number;
+  switch (metric) {
+    case 'cpu':
+      value = status.cpuUsage;
+      break;
+    case 'memory':
+      value = status.memoryUsage;
+      break;
+    case 'swap':
+      value = status.swapUsage;
+      break;
+    case 'disk':
+      value =
+        status.diskUsages && status.diskUsages.length > 0
+          ? Math.max(...status.diskUsages.map((disk) => disk.usagePercent))
+          : status.diskUsage;
+      break;
+    case 'network':
+      value = status.networkUpload + status.networkDownload;
+      break;
+  }
+
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Upper end of the colour scale: 100 for percentages, the busiest client for network
+ */
+export function getHeatmapScaleMax(clients: HeatmapClient[], metric: HeatmapMetric): number {
+  if (metric !== 'network') return 100;
+  return clients.reduce((max, client) => Math.max(max, getHeatmapValue(client, metric) ?? 0), 0);
+}
+
+/**
+ * Position of a value on the colour scale, 0–1
+ * Network spans orders of magnitude, so it is scaled logarithmically
+ */
+export function getHeatmapIntensity(
+  value: number,
+  metric: HeatmapMetric,
+  scaleMax: number
+): number {
+  if (scaleMax <= 0) return 0;
+  const ratio =
+    metric === 'network' ? Math.log1p(Math.max(value, 0)) / Math.log1p(scaleMax) : value / scaleMax;
+  return Math.min(Math.max(ratio, 0), 1);
+}
+
+export function formatHeatmapValue(value: number | null, metric: HeatmapMetric): string {
+  if (value === null) return 'No data';
+  if (metric === 'network') return value >= 1 ? `${formatBytes(value, 1)}/s` : '0 B/s';
+  return `${value.toFixed(1)}%`;
+}
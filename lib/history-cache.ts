@@ -0,0 +1,91 @@
+/**
+ * Cached client history
+ * Long ranges are expensive to fetch, so results are kept fresh in the shared query cache
+ * for a few minutes. For windows that end now, such as the preset '7days', the cache key is
+ * aligned to a fixed step, so repeated views hit the cache even though "now" has moved on;
+ * the window requested from the API is never changed
+ */
+
+import { apiClient, DynamicSystemStatus, HistoryQuery } from './api-client';
+import { QueryKey, queryCache, queryKeys } from './query-cache';
+
+const HISTORY_CACHE_TTL = 5 * 60 * 1000;
+const HISTORY_CACHE_ALIGNMENT = 5 * 60 * 1000;
+const HISTORY_FETCH_CONCURRENCY = 6;
+
+export interface CachedHistoryOptions {
+  force?: boolean;
+  /**
+   * The window is relative to now (a preset or 'now-…' range), so its cache key is aligned;
+   * explicit windows, e.g. from zooming, are cached as they are
+   */
+  relative?: boolean;
+  /**
+   * How long a fetched window counts as fresh, HISTORY_CACHE_TTL by default
+   */
+  staleTime?: number;
+}
+
+/**
+ * Cache key of a client's history window
+ */
+export function getHistoryCacheKey(
+  clientId: string,
+  query: HistoryQuery,
+  relative = false
+): QueryKey {
+  const align = (value?: number) =>
+    value === undefined || !relative
+      ? value
+      : Math.floor(value / HISTORY_CACHE_ALIGNMENT) * HISTORY_CACHE_ALIGNMENT;
+  return queryKeys.clientHistory(clientId, align(query.startTime), align(query.endTime));
+}
+
+/**
+ * History for one client, from the cache while it is fresh
+ * Concurrent calls for the same window share one request
+ */
+export function fetchCachedHistory(
+  clientId: string,
+  query: HistoryQuery,
+  options: CachedHistoryOptions = {}
+): Promise<DynamicSystemStatus[]> {
+  return queryCache.fetch(
+    getHistoryCacheKey(clientId, query, options.relative),
+    () => apiClient.fetchClientHistory(clientId, query),
+    { staleTime: options.staleTime ?? HISTORY_CACHE_TTL, force: options.force }
+  );
+}
+
+/**
+ * History for several clients with limited concurrency
+ * onResult is called as each client loads; clients that fail are reported with an error
+ */
+export async function fetchCachedHistories(
+  clientIds: string[],
+  query: HistoryQuery,
+  onResult: (clientId: string, history: DynamicSystemStatus[] | null, error?: unknown) => void,
+  options: CachedHistoryOptions & { signal?: AbortSignal } = {}
+): Promise<void> {
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < clientIds.length && !options.signal?.aborted) {
+      const id = clientIds[nextIndex++];
+      try {
+        const history = await fetchCachedHistory(id, query, options);
+        if (!options.signal?.aborted) onResult(id, history);
+      } catch (error) {
+        if (!options.signal?.aborted) onResult(id, null, error);
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(HISTORY_FETCH_CONCURRENCY, clientIds.length) }, () => worker())
+  );
+}
+
+export function clearHistoryCache(): void {
+  queryCache.invalidate(['client-history']);
+}
@@ -0,0 +1,172 @@
+/**
+ * Client-side offline detection
+ * Derives online, stale or offline from the age of a client's last report. Thresholds
+ * can be set globally, per tag and per client, and each client can instead trust the
+ * status reported by the server
+ */
+
+import { ClientStatus, ClientSummary } from './api-client';
+
+/**
+ * Whose status wins: computed from the last report's age, or reported by the server
+ */
+export type StatusSource = 'client' | 'server';
+
+export interface OfflineThresholds {
+  /**
+   * Report age after which the data is shown as stale
+   */
+  staleAfterMs: number;
+  /**
+   * Report age after which the client is offline
+   */
+  offlineAfterMs: number;
+}
+
+export interface ClientDetectionOverride extends Partial<OfflineThresholds> {
+  source?: StatusSource;
+}
+
+export interface OfflineDetectionSettings extends OfflineThresholds {
+  source: StatusSource;
+  /**
+   * Threshold overrides by tag
+   */
+  tags: Record<string, Partial<OfflineThresholds>>;
+  /**
+   * Overrides by client ID; these win over tag overrides
+   */
+  clients: Record<string, ClientDetectionOverride>;
+}
+
+export interface ResolvedDetection extends OfflineThresholds {
+  source: StatusSource;
+}
+
+export const DEFAULT_OFFLINE_DETECTION: OfflineDetectionSettings = {
+  staleAfterMs: 2 * 60 * 1000,
+  offlineAfterMs: 5 * 60 * 1000,
+  source: 'client',
+  tags: {},
+  clients: {},
+};
+
+function isThreshold(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function isStatusSource(value: unknown): value is StatusSource {
+  return value === 'client' || value === 'server';
+}
+
+/**
+ * Keep only valid threshold fields
+ */
+function sanitizeThresholds(value: unknown): Partial<OfflineThresholds> {
+  if (!value || typeof value !== 'object') return {};
+  const { staleAfterMs, offlineAfterMs } = value as Record<string, unknown>;
+  return {
+    ...(isThreshold(staleAfterMs) && { staleAfterMs }),
+    ...(isThreshold(offlineAfterMs) && { offlineAfterMs }),
+  };
+}
+
+function sanitizeRecord<T>(value: unknown, sanitize: (entry: unknown) => T): Record<string, T> {
+  if (!value || typeof value !== 'object') return {};
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, entry]) => [key, sanitize(entry)])
+  );
+}
+
+/**
+ * Settings from untrusted JSON merged over defaults; invalid fields fall back
+ */
+export function parseOfflineDetectionSettings(
+  value: unknown,
+  defaults: OfflineDetectionSettings = DEFAULT_OFFLINE_DETECTION
+): OfflineDetectionSettings {
+  const raw = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  return {
+    ...defaults,
+    ...sanitizeThresholds(raw),
+    source: isStatusSource(raw.source) ? raw.source : defaults.source,
+    tags: sanitizeRecord(raw.tags, sanitizeThresholds),
+    clients: sanitizeRecord(raw.clients, (entry) => {
+      const source = (entry as Record<string, unknown> | null)?.source;
+      return {
+        ...sanitizeThresholds(entry),
+        ...(isStatusSource(source) && { source }),
+      };
+    }),
+  };
+}
+
+/**
+ * Effective thresholds and status source for a client
+ * Global defaults, then tag overrides, then the client's own override. When several of a
+ * client's tags override a threshold, the most lenient wins so a "batch" tag is not
+ * undercut by a stricter one
+ */
+export function resolveDetection(
+  client: Pick<ClientSummary, 'clientId' | 'clientTags'>,
+  settings: OfflineDetectionSettings
+): ResolvedDetection {
+  const resolved: ResolvedDetection = {
+    staleAfterMs: settings.staleAfterMs,
+    offlineAfterMs: settings.offlineAfterMs,
+    source: settings.source,
+  };
+
+  const tagOverrides = (client.clientTags || [])
+    .map((tag) => settings.tags[tag])
+    .filter((override): override is Partial<OfflineThresholds> => Boolean(override));
+  (['staleAfterMs', 'offlineAfterMs'] as const).forEach((key) => {
+    const values = tagOverrides.map((override) => override[key]).filter(isThreshold);
+    if (values.length > 0) resolved[key] = Math.max(...values);
+  });
+
+  const clientOverride = settings.clients[client.clientId];
+  if (clientOverride) {
+    if (isThreshold(clientOverride.staleAfterMs)) {
+      resolved.staleAfterMs = clientOverride.staleAfterMs;
+    }
+    if (isThreshold(clientOverride.offlineAfterMs)) {
+      resolved.offlineAfterMs = clientOverride.offlineAfterMs;
+    }
+    if (clientOverride.source) resolved.source = clientOverride.source;
+  }
+
+  return resolved;
+}
+
+/**
+ * Status of a client under the resolved detection
+ * A stale threshold at or beyond the offline threshold disables the stale state
+ */
+export function detectClientStatus(
+  client: Pick<ClientSummary, 'status' | 'lastUpdate'>,
+  detection: ResolvedDetection,
+  now: number = Date.now()
+): ClientStatus {
+  if (detection.source === 'server') return client.status;
+
+  const age = now - client.lastUpdate;
+  if (age > detection.offlineAfterMs) return 'offline';
+  if (age > detection.staleAfterMs) return 'stale';
+  return 'online';
+}
+
+/**
+ * Apply offline detection to clients
+ * Requirements: 5.5
+ */
+export function applyOfflineDetection<T extends ClientSummary>(
+  clients: T[],
+  settings: OfflineDetectionSettings,
+  now: number = Date.now()
+): T[] {
+  return clients.map((client) => {
+    const status = detectClientStatus(client, resolveDetection(client, settings), now);
+    return status === client.status ? client : { ...client, status };
+  });
+}
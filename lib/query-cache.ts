@@ -0,0 +1,409 @@
+/**
+ * Shared query cache
+ * API results are kept per query key, e.g. ['client-detail', 'web-01'], so every hook and
+ * component reading the same data shares one request and one copy. Fresh data is returned
+ * without a request; stale data is still shown while it is fetched again
+ * (stale-while-revalidate). Entries nobody subscribes to are collected after a while.
+ */
+
+/**
+ * Endpoint name followed by its parameters
+ */
+export type QueryKey = readonly unknown[];
+
+export interface QuerySnapshot<T> {
+  data: T | undefined;
+  /**
+   * Error of the last fetch; cleared by the next successful one
+   */
+  error: unknown;
+  /**
+   * When the data was fetched, 0 when never
+   */
+  updatedAt: number;
+  fetching: boolean;
+  /**
+   * Invalidated and not fetched since; subscribers should revalidate
+   */
+  invalidated: boolean;
+}
+
+export interface QueryFetchOptions {
+  /**
+   * How long fetched data counts as fresh
+   */
+  staleTime?: number;
+  /**
+   * Fetch even when the cached data is fresh
+   */
+  force?: boolean;
+}
+
+type QueryListener<T> = (snapshot: QuerySnapshot<T>) => void;
+
+interface CacheEntry {
+  hash: string;
+  key: QueryKey;
+  data: unknown;
+  error: unknown;
+  updatedAt: number;
+  invalidated: boolean;
+  promise: Promise<unknown> | null;
+  /**
+   * Fetcher of the last single-key fetch, used to revalidate after invalidation
+   */
+  fetcher: (() => Promise<unknown>) | null;
+  listeners: Set<QueryListener<unknown>>;
+  gcTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const DEFAULT_STALE_TIME = 30 * 1000;
+const DEFAULT_GC_TIME = 5 * 60 * 1000;
+/**
+ * Idle entries beyond this are evicted, oldest first
+ */
+const DEFAULT_MAX_ENTRIES = 500;
+/**
+ * Long histories are large, so they get a smaller bound of their own and cannot push
+ * the dashboard's details out of the cache
+ */
+const HISTORY_MAX_ENTRIES = 200;
+
+export function hashQueryKey(key: QueryKey): string {
+  return JSON.stringify(key);
+}
+
+/**
+ * Whether `key` starts with all elements of `prefix`
+ */
+function matchesPrefix(key: QueryKey, prefix: QueryKey): boolean {
+  return prefix.every((part, index) => hashQueryKey([part]) === hashQueryKey([key[index]]));
+}
+
+export class QueryCache {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  /**
+   * `limits` bounds the entries of single endpoints, by the first element of their key,
+   * separately from `maxEntries`
+   */
+  constructor(
+    private readonly gcTime = DEFAULT_GC_TIME,
+    private readonly maxEntries = DEFAULT_MAX_ENTRIES,
+    private readonly limits: Record<string, number> = {}
+  ) {}
+
+  private getEntry(key: QueryKey): CacheEntry {
+    const hash = hashQueryKey(key);
+    let entry = this.entries.get(hash);
+    if (!entry) {
+      entry = {
+        hash,
+        key,
+        data: undefined,
+        error: null,
+        updatedAt: 0,
+        invalidated: false,
+        promise: null,
+        fetcher: null,
+        listeners: new Set(),
+        gcTimer: null,
+      };
+      this.entries.set(hash, entry);
+    }
+    return entry;
+  }
+
+  private toSnapshot<T>(entry: CacheEntry): QuerySnapshot<T> {
+    return {
+      data: entry.data as T | undefined,
+      error: entry.error,
+      updatedAt: entry.updatedAt,
+      fetching: entry.promise !== null,
+      invalidated: entry.invalidated,
+    };
+  }
+
+  /**
+   * Call the listeners of the given entries; a listener subscribed to several of them
+   * is called once
+   */
+  private notify(entries: CacheEntry[]): void {
+    const calls = new Map<QueryListener<unknown>, QuerySnapshot<unknown>>();
+    entries.forEach((entry) => {
+      entry.listeners.forEach((listener) => calls.set(listener, this.toSnapshot(entry)));
+    });
+    calls.forEach((snapshot, listener) => listener(snapshot));
+  }
+
+  private isFresh(entry: CacheEntry, staleTime: number): boolean {
+    return entry.updatedAt > 0 && !entry.invalidated && Date.now() - entry.updatedAt < staleTime;
+  }
+
+  private isIdle(entry: CacheEntry): boolean {
+    return entry.listeners.size === 0 && entry.promise === null;
+  }
+
+  private scheduleGc(entry: CacheEntry): void {
+    if (entry.gcTimer !== null) clearTimeout(entry.gcTimer);
+    entry.gcTimer = null;
+    if (!this.isIdle(entry)) return;
+
+    entry.gcTimer = setTimeout(() => {
+      entry.gcTimer = null;
+      if (this.isIdle(entry) && this.entries.get(entry.hash) === entry) {
+        this.entries.delete(entry.hash);
+      }
+    }, this.gcTime);
+  }
+
+  /**
+   * Endpoint whose limit the entry counts against, '' for the shared `maxEntries`
+   */
+  private groupOf(entry: CacheEntry): string {
+    const name = String(entry.key[0]);
+    return name in this.limits ? name : '';
+  }
+
+  /**
+   * Drop the oldest idle entries beyond their limit
+   * Entries with subscribers or a request in flight are neither dropped nor counted, so
+   * call this only after new entries got their listener or promise
+   */
+  private evict(): void {
+    const idle = Array.from(this.entries.values()).filter((entry) => this.isIdle(entry));
+    const counts = new Map<string, number>();
+    idle.forEach((entry) => {
+      const group = this.groupOf(entry);
+      counts.set(group, (counts.get(group) ?? 0) + 1);
+    });
+
+    idle.forEach((entry) => {
+      const group = this.groupOf(entry);
+      const count = counts.get(group)!;
+      if (count <= (group ? this.limits[group] : this.maxEntries)) return;
+      counts.set(group, count - 1);
+      if (entry.gcTimer !== null) clearTimeout(entry.gcTimer);
+      this.entries.delete(entry.hash);
+    });
+  }
+
+  /**
+   * Record a result; ignored when the entry was cleared or refetched meanwhile
+   */
+  private settle(
+    entry: CacheEntry,
+    request: Promise<unknown>,
+    result: { data: unknown } | { error: unknown }
+  ): void {
+    if (entry.promise !== request) return;
+    entry.promise = null;
+    entry.invalidated = false;
+    if ('data' in result) {
+      entry.data = result.data;
+      entry.error = null;
+      entry.updatedAt = Date.now();
+      // Re-inserting moves the key to the end, so eviction starts with the oldest data
+      if (this.entries.get(entry.hash) === entry) {
+        this.entries.delete(entry.hash);
+        this.entries.set(entry.hash, entry);
+      }
+    } else {
+      entry.error = result.error;
+    }
+    this.scheduleGc(entry);
+  }
+
+  getSnapshot<T>(key: QueryKey): QuerySnapshot<T> {
+    const entry = this.entries.get(hashQueryKey(key));
+    return entry
+      ? this.toSnapshot<T>(entry)
+      : { data: undefined, error: null, updatedAt: 0, fetching: false, invalidated: false };
+  }
+
+  getData<T>(key: QueryKey): T | undefined {
+    return this.entries.get(hashQueryKey(key))?.data as T | undefined;
+  }
+
+  /**
+   * Data for `key`, from the cache while it is fresh
+   * Concurrent calls for the same key share one request
+   */
+  fetch<T>(key: QueryKey, fetcher: () => Promise<T>, options: QueryFetchOptions = {}): Promise<T> {
+    const entry = this.getEntry(key);
+    if (!options.force && this.isFresh(entry, options.staleTime ?? DEFAULT_STALE_TIME)) {
+      return Promise.resolve(entry.data as T);
+    }
+    if (entry.promise) return entry.promise as Promise<T>;
+
+    entry.fetcher = fetcher;
+    return this.run(entry, fetcher);
+  }
+
+  /**
+   * Start a request for the entry and notify its subscribers
+   */
+  private run<T>(entry: CacheEntry, fetcher: () => Promise<T>): Promise<T> {
+    const request: Promise<T> = fetcher().then(
+      (data) => {
+        this.settle(entry, request, { data });
+        this.notify([entry]);
+        this.evict();
+        return data;
+      },
+      (error) => {
+        this.settle(entry, request, { error });
+        this.notify([entry]);
+        this.evict();
+        throw error;
+      }
+    );
+    entry.promise = request;
+    this.scheduleGc(entry);
+    this.notify([entry]);
+    this.evict();
+    return request;
+  }
+
+  /**
+   * Fetch the keys that are not fresh with one batch request
+   * Items are matched to keys with `keyOf`; keys missing from the response get an error.
+   * Keys already being fetched are not requested again
+   */
+  async fetchMany<T>(
+    keys: QueryKey[],
+    fetchBatch: (keys: QueryKey[]) => Promise<T[]>,
+    keyOf: (item: T) => QueryKey,
+    options: QueryFetchOptions = {}
+  ): Promise<void> {
+    const staleTime = options.staleTime ?? DEFAULT_STALE_TIME;
+    const entries = keys
+      .map((key) => this.getEntry(key))
+      .filter((entry) => !entry.promise && (options.force || !this.isFresh(entry, staleTime)));
+    if (entries.length === 0) return;
+
+    const batch = fetchBatch(entries.map((entry) => entry.key)).then(
+      (items) => new Map(items.map((item) => [hashQueryKey(keyOf(item)), item]))
+    );
+    // Each key gets its own request, so a concurrent fetch of one key can share it
+    const requests = entries.map((entry) => {
+      const request: Promise<T> = batch
+        .then((items) => {
+          if (!items.has(entry.hash)) throw new Error('Missing from the batch response');
+          return items.get(entry.hash)!;
+        })
+        .then(
+          (data) => {
+            this.settle(entry, request, { data });
+            return data;
+          },
+          (error) => {
+            this.settle(entry, request, { error });
+            throw error;
+          }
+        );
+      entry.promise = request;
+      this.scheduleGc(entry);
+      return request;
+    });
+    this.notify(entries);
+    this.evict();
+
+    await Promise.allSettled(requests);
+    this.notify(entries);
+    this.evict();
+    // Rethrow a failure of the batch request itself
+    await batch;
+  }
+
+  /**
+   * Store data fetched elsewhere, e.g. rendered by the server
+   */
+  setData<T>(key: QueryKey, data: T): void {
+    const entry = this.getEntry(key);
+    entry.data = data;
+    entry.error = null;
+    entry.updatedAt = Date.now();
+    entry.invalidated = false;
+    this.scheduleGc(entry);
+    this.notify([entry]);
+    this.evict();
+  }
+
+  /**
+   * Mark entries as stale, all of them or those whose key starts with `prefix`
+   * Subscribed entries are refetched in the background; entries loaded by fetchMany are
+   * left to their subscribers, which can batch the refetch
+   */
+  invalidate(prefix: QueryKey = []): void {
+    const entries = Array.from(this.entries.values()).filter((entry) =>
+      matchesPrefix(entry.key, prefix)
+    );
+    entries.forEach((entry) => {
+      entry.invalidated = true;
+      if (entry.listeners.size > 0 && entry.fetcher && !entry.promise) {
+        this.run(entry, entry.fetcher).catch(() => {
+          // The error is kept on the entry for its subscribers
+        });
+      }
+    });
+    this.notify(entries);
+  }
+
+  /**
+   * Listen to one key; the listener is called with the current state straight away
+   * Subscribed entries are never collected
+   */
+  subscribe<T>(key: QueryKey, listener: QueryListener<T>): () => void {
+    return this.subscribeMany([key], listener as QueryListener<unknown>);
+  }
+
+  /**
+   * Listen to several keys with one listener, which is called once per change
+   */
+  subscribeMany(keys: QueryKey[], listener: QueryListener<unknown>): () => void {
+    const entries = keys.map((key) => this.getEntry(key));
+    entries.forEach((entry) => {
+      entry.listeners.add(listener);
+      this.scheduleGc(entry);
+    });
+    this.evict();
+    if (entries.length > 0) listener(this.toSnapshot(entries[0]));
+
+    return () => {
+      entries.forEach((entry) => {
+        entry.listeners.delete(listener);
+        this.scheduleGc(entry);
+      });
+      this.evict();
+    };
+  }
+
+  /**
+   * Drop every entry, e.g. when the API client is pointed at another backend
+   */
+  clear(): void {
+    this.entries.forEach((entry) => {
+      if (entry.gcTimer !== null) clearTimeout(entry.gcTimer);
+    });
+    this.entries.clear();
+  }
+}
+
+/**
+ * Query keys of the API endpoints
+ */
+export const queryKeys = {
+  clients: (): QueryKey => ['clients'],
+  clientDetail: (clientId: string): QueryKey => ['client-detail', clientId],
+  clientHistory: (clientId: string, startTime?: number, endTime?: number): QueryKey => [
+    'client-history',
+    clientId,
+    startTime ?? null,
+    endTime ?? null,
+  ],
+};
+
+export const queryCache = new QueryCache(DEFAULT_GC_TIME, DEFAULT_MAX_ENTRIES, {
+  'client-history': HISTORY_MAX_ENTRIES,
+});
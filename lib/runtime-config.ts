@@ -0,0 +1,440 @@
+/**
+ * Runtime configuration
+ * Loaded from /api/config when the app starts, so one build can be pointed at any
+ * environment. The server reads config.json and MONITOR_* environment variables on each
+ * request; the values below are the built-in defaults for anything left out
+ */
+
+import { AUTH_MODES, AuthConfig, AuthMode, DEFAULT_AUTH_CONFIG } from './auth';
+import { BackendConfig, getConfiguredBackends, validateBackendConfigs } from './backends';
+import { CAPACITY_TIME_RANGES, DEFAULT_CAPACITY_TIME_RANGE } from './capacity';
+import { DEFAULT_OFFLINE_DETECTION, OfflineDetectionSettings } from './offline-detection';
+import { DEFAULT_TIME_RANGE, isValidTimeRange } from './time-range';
+import { VIEW_MODES, ViewMode, isViewMode } from './view-mode';
+
+export interface RuntimeConfig {
+  apiUrl: string;
+  /**
+   * Several backends are federated into one dashboard; replaces apiUrl
+   */
+  backends: BackendConfig[];
+  /**
+   * Polling interval while the live status stream is unavailable
+   */
+  refreshIntervalSeconds: number;
+  /**
+   * Default status detection thresholds; users can still override them per tag and client
+   */
+  offlineDetection: {
+    staleAfterSeconds: number;
+    offlineAfterSeconds: number;
+  };
+  /**
+   * Usage percentages from which metrics are shown as warning and critical
+   */
+  thresholds: {
+    warning: number;
+    critical: number;
+  };
+  defaultView: ViewMode;
+  defaultTimeRange: string;
+  defaultCapacityTimeRange: string;
+  branding: {
+    /**
+     * Product name in the header
+     */
+    name: string;
+    /**
+     * Dashboard heading and notification title
+     */
+    title: string;
+    /**
+     * Replaces the header icon
+     */
+    logoUrl: string | null;
+  };
+  auth: AuthConfig;
+}
+
+export const DEFAULT_RUNTIME_CONFIG: RuntimeConfig = {
+  apiUrl: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:7788',
+  backends: getConfiguredBackends(),
+  refreshIntervalSeconds: 30,
+  offlineDetection: {
+    staleAfterSeconds: DEFAULT_OFFLINE_DETECTION.staleAfterMs / 1000,
+    offlineAfterSeconds: DEFAULT_OFFLINE_DETECTION.offlineAfterMs / 1000,
+  },
+  thresholds: {
+    warning: 60,
+    critical: 80,
+  },
+  defaultView: 'grid',
+  defaultTimeRange: DEFAULT_TIME_RANGE,
+  defaultCapacityTimeRange: DEFAULT_CAPACITY_TIME_RANGE,
+  branding: {
+    name: 'System Monitor',
+    title: 'System Status',
+    logoUrl: null,
+  },
+  auth: DEFAULT_AUTH_CONFIG,
+};
+
+/**
+ * Endpoint serving the runtime configuration
+ */
+export const RUNTIME_CONFIG_URL = '/api/config';
+
+/**
+ * Configuration that failed validation; `errors` has one message per problem
+ */
+export class RuntimeConfigError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid configuration: ${errors.join('; ')}`);
+    this.name = 'RuntimeConfigError';
+  }
+}
+
+/**
+ * Messages to show for a failure to load the configuration
+ */
+export function describeRuntimeConfigError(error: unknown): string[] {
+  return error instanceof RuntimeConfigError
+    ? error.errors
+    : [`Cannot load the configuration: ${error instanceof Error ? error.message : error}`];
+}
+
+type Fields = Record<string, unknown>;
+
+/**
+ * One object of the configuration being read, with its path for error messages
+ */
+interface Section {
+  fields: Fields;
+  path: string;
+  errors: string[];
+}
+
+function isObject(value: unknown): value is Fields {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isUrl(value: unknown): value is string {
+  return typeof value === 'string' && /^https?:\/\/\S+$/.test(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+/**
+ * Accept null as well as values passing `isValid`
+ */
+function isOptional<T>(isValid: (value: unknown) => value is T) {
+  return (value: unknown): value is T | null => value === null || isValid(value);
+}
+
+function isInRange(min: number, max: number) {
+  return (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+/**
+ * Report keys the section does not know, which are usually typos
+ * Keys starting with "_" are comments
+ */
+function checkKeys(section: Section, known: string[]): void {
+  Object.keys(section.fields)
+    .filter((key) => !key.startsWith('_') && !known.includes(key))
+    .forEach((key) => section.errors.push(`${section.path}${key} is not a known setting`));
+}
+
+/**
+ * A field's value, or the fallback when it is missing or invalid
+ */
+function readField<T>(
+  section: Section,
+  key: string,
+  fallback: T,
+  expected: string,
+  isValid: (value: unknown) => value is T
+): T {
+  const value = section.fields[key];
+  if (value === undefined) return fallback;
+  if (!isValid(value)) {
+    section.errors.push(`${section.path}${key} ${expected}, got ${JSON.stringify(value)}`);
+    return fallback;
+  }
+  return value;
+}
+
+function readSection(parent: Section, key: string, known: string[]): Section {
+  const value = parent.fields[key];
+  const section: Section = { fields: {}, path: `${parent.path}${key}.`, errors: parent.errors };
+  if (value === undefined) return section;
+  if (!isObject(value)) {
+    parent.errors.push(`${parent.path}${key} must be an object`);
+    return section;
+  }
+  section.fields = value;
+  checkKeys(section, known);
+  return section;
+}
+
+/**
+ * Validate configuration from untrusted JSON
+ * Missing settings fall back to the defaults; every invalid setting is reported at once
+ * @throws RuntimeConfigError
+ */
+export function parseRuntimeConfig(value: unknown): RuntimeConfig {
+  if (!isObject(value)) {
+    throw new RuntimeConfigError(['The configuration must be a JSON object']);
+  }
+
+  const defaults = DEFAULT_RUNTIME_CONFIG;
+  const root: Section = { fields: value, path: '', errors: [] };
+  checkKeys(root, Object.keys(defaults));
+
+  const offline = readSection(root, 'offlineDetection', [
+    'staleAfterSeconds',
+    'offlineAfterSeconds',
+  ]);
+  const thresholds = readSection(root, 'thresholds', ['warning', 'critical']);
+  const branding = readSection(root, 'branding', ['name', 'title', 'logoUrl']);
+  const auth = readSection(root, 'auth', Object.keys(defaults.auth));
+  const oidc = readSection(auth, 'oidc', Object.keys(defaults.auth.oidc));
+  const capacityRanges = CAPACITY_TIME_RANGES.map((option) => option.value);
+
+  const config: RuntimeConfig = {
+    apiUrl: readField(root, 'apiUrl', defaults.apiUrl, 'must be an http(s) URL', isUrl),
+    backends:
+      value.backends === undefined
+        ? defaults.backends
+        : validateBackendConfigs(value.backends, root.errors),
+    refreshIntervalSeconds: readField(
+      root,
+      'refreshIntervalSeconds',
+      defaults.refreshIntervalSeconds,
+      'must be a number of seconds from 5 to 3600',
+      isInRange(5, 3600)
+    ),
+    offlineDetection: {
+      staleAfterSeconds: readField(
+        offline,
+        'staleAfterSeconds',
+        defaults.offlineDetection.staleAfterSeconds,
+        'must be a number of seconds from 10 to 604800 (7 days)',
+        isInRange(10, 604800)
+      ),
+      offlineAfterSeconds: readField(
+        offline,
+        'offlineAfterSeconds',
+        defaults.offlineDetection.offlineAfterSeconds,
+        'must be a number of seconds from 10 to 604800 (7 days)',
+        isInRange(10, 604800)
+      ),
+    },
+    thresholds: {
+      warning: readField(
+        thresholds,
+        'warning',
+        defaults.thresholds.warning,
+        'must be a percentage from 0 to 100',
+        isInRange(0, 100)
+      ),
+      critical: readField(
+        thresholds,
+        'critical',
+        defaults.thresholds.critical,
+        'must be a percentage from 0 to 100',
+        isInRange(0, 100)
+      ),
+    },
+    defaultView: readField(
+      root,
+      'defaultView',
+      defaults.defaultView,
+      `must be one of ${VIEW_MODES.join(', ')}`,
+      isViewMode
+    ),
+    defaultTimeRange: readField(
+      root,
+      'defaultTimeRange',
+      defaults.defaultTimeRange,
+      'must be a time range such as "1h", "24h" or "now-6h"',
+      (range): range is string => typeof range === 'string' && isValidTimeRange(range)
+    ),
+    defaultCapacityTimeRange: readField(
+      root,
+      'defaultCapacityTimeRange',
+      defaults.defaultCapacityTimeRange,
+      `must be one of ${capacityRanges.join(', ')}`,
+      (range): range is string => typeof range === 'string' && capacityRanges.includes(range)
+    ),
+    branding: {
+      name: readField(
+        branding,
+        'name',
+        defaults.branding.name,
+        'must be a non-empty string',
+        isNonEmptyString
+      ),
+      title: readField(
+        branding,
+        'title',
+        defaults.branding.title,
+        'must be a non-empty string',
+        isNonEmptyString
+      ),
+      logoUrl: readField(
+        branding,
+        'logoUrl',
+        defaults.branding.logoUrl,
+        'must be a URL or path to an image, or null',
+        (url): url is string | null => url === null || (isNonEmptyString(url) && !/\s/.test(url))
+      ),
+    },
+    auth: {
+      mode: readField(
+        auth,
+        'mode',
+        defaults.auth.mode,
+        `must be one of ${AUTH_MODES.join(', ')}`,
+        (mode): mode is AuthMode => AUTH_MODES.includes(mode as AuthMode)
+      ),
+      publicApiKey: readField(
+        auth,
+        'publicApiKey',
+        defaults.auth.publicApiKey,
+        'must be a non-empty string or null',
+        isOptional(isNonEmptyString)
+      ),
+      publicApiKeyHeader: readField(
+        auth,
+        'publicApiKeyHeader',
+        defaults.auth.publicApiKeyHeader,
+        'must be a header name',
+        (name): name is string => typeof name === 'string' && /^[\w-]+$/.test(name)
+      ),
+      refreshUrl: readField(
+        auth,
+        'refreshUrl',
+        defaults.auth.refreshUrl,
+        'must be an http(s) URL or a path starting with "/", or null',
+        isOptional(
+          (url): url is string => isUrl(url) || (typeof url === 'string' && /^\/\S*$/.test(url))
+        )
+      ),
+      oidc: {
+        issuer: readField(
+          oidc,
+          'issuer',
+          defaults.auth.oidc.issuer,
+          'must be an http(s) URL or null',
+          isOptional(isUrl)
+        ),
+        clientId: readField(
+          oidc,
+          'clientId',
+          defaults.auth.oidc.clientId,
+          'must be a non-empty string or null',
+          isOptional(isNonEmptyString)
+        ),
+        redirectUri: readField(
+          oidc,
+          'redirectUri',
+          defaults.auth.oidc.redirectUri,
+          'must be an http(s) URL or null',
+          isOptional(isUrl)
+        ),
+        scope: readField(
+          oidc,
+          'scope',
+          defaults.auth.oidc.scope,
+          'must be a non-empty string or null',
+          isOptional(isNonEmptyString)
+        ),
+      },
+    },
+  };
+
+  // Settings the chosen authentication mode cannot work without
+  const authMode = config.auth.mode;
+  if (authMode === 'public-api-key' && !config.auth.publicApiKey) {
+    root.errors.push('auth.publicApiKey is required for auth.mode "public-api-key"');
+  }
+  if (authMode === 'bearer' && !config.auth.refreshUrl) {
+    root.errors.push('auth.refreshUrl is required for auth.mode "bearer"');
+  }
+  if (authMode === 'oidc' && (!config.auth.oidc.issuer || !config.auth.oidc.clientId)) {
+    root.errors.push('auth.oidc.issuer and auth.oidc.clientId are required for auth.mode "oidc"');
+  }
+
+  // Otherwise clients would go straight to offline without ever showing as stale
+  if (config.offlineDetection.staleAfterSeconds >= config.offlineDetection.offlineAfterSeconds) {
+    root.errors.push(
+      'offlineDetection.staleAfterSeconds must be lower than offlineDetection.offlineAfterSeconds'
+    );
+  }
+  if (config.thresholds.warning >= config.thresholds.critical) {
+    root.errors.push('thresholds.warning must be lower than thresholds.critical');
+  }
+
+  if (root.errors.length > 0) {
+    throw new RuntimeConfigError(root.errors);
+  }
+  return config;
+}
+
+/**
+ * Fetch and validate the runtime configuration
+ * @throws RuntimeConfigError when the server reports an invalid configuration
+ */
+export async function fetchRuntimeConfig(): Promise<RuntimeConfig> {
+  const response = await fetch(RUNTIME_CONFIG_URL, { cache: 'no-store' });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new RuntimeConfigError(
+      Array.isArray(data?.errors)
+        ? data.errors
+        : [`The configuration endpoint returned HTTP ${response.status}`]
+    );
+  }
+  return parseRuntimeConfig(data);
+}
+
+let runtimeConfig: RuntimeConfig = DEFAULT_RUNTIME_CONFIG;
+
+/**
+ * Current configuration, for code outside React components
+ * Components should prefer useRuntimeConfig
+ */
+export function getRuntimeConfig(): RuntimeConfig {
+  return runtimeConfig;
+}
+
+export function setRuntimeConfig(config: RuntimeConfig): void {
+  runtimeConfig = config;
+}
+
+export type UsageLevel = 'normal' | 'warning' | 'critical';
+
+/**
+ * Severity of a usage percentage under the configured thresholds
+ */
+export function getUsageLevel(value: number): UsageLevel {
+  const { warning, critical } = runtimeConfig.thresholds;
+  if (value >= critical) return 'critical';
+  if (value >= warning) return 'warning';
+  return 'normal';
+}
+
+/**
+ * Offline detection defaults with the configured thresholds
+ */
+export function getDefaultOfflineDetection(): OfflineDetectionSettings {
+  return {
+    ...DEFAULT_OFFLINE_DETECTION,
+    staleAfterMs: runtimeConfig.offlineDetection.staleAfterSeconds * 1000,
+    offlineAfterMs: runtimeConfig.offlineDetection.offlineAfterSeconds * 1000,
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Rolling buffer of recent status samples per client
+ * The dashboard records every status it sees; sparklines and card charts subscribe
+ * to a single client so an update only re-renders that client's consumers
+ */
+
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { ClientDetail, ClientSummary, StatusSample, apiClient } from './api-client';
+
+/**
+ * Samples kept per client
+ */
+export const MAX_SAMPLES_PER_CLIENT = 120;
+
+export type MetricSample = StatusSample;
+
+const EMPTY_SAMPLES: MetricSample[] = [];
+
+const buffers = new Map<string, MetricSample[]>();
+const listeners = new Map<string, Set<() => void>>();
+
+function notify(clientId: string): void {
+  listeners.get(clientId)?.forEach((listener) => listener());
+}
+
+function toSample(status: MetricSample): MetricSample {
+  return {
+    timestamp: status.timestamp,
+    cpuUsage: status.cpuUsage,
+    memoryUsage: status.memoryUsage,
+    swapUsage: status.swapUsage,
+    diskUsage: status.diskUsage,
+    networkUpload: status.networkUpload,
+    networkDownload: status.networkDownload,
+  };
+}
+
+/**
+ * Append a sample if it is newer than the last one
+ * Buffers are replaced, not mutated, so subscribers see a new snapshot
+ */
+function append(clientId: string, sample: MetricSample): boolean {
+  const current = buffers.get(clientId) ?? EMPTY_SAMPLES;
+  const last = current[current.length - 1];
+  if (last && sample.timestamp <= last.timestamp) return false;
+
+  const next = [...current, sample];
+  buffers.set(
+    clientId,
+    next.length > MAX_SAMPLES_PER_CLIENT ? next.slice(-MAX_SAMPLES_PER_CLIENT) : next
+  );
+  return true;
+}
+
+/**
+ * Record the current status of each client that has one
+ */
+export function recordSamples(clients: Array<ClientSummary | ClientDetail>): void {
+  clients.forEach((client) => {
+    if (!('currentStatus' in client) || !client.currentStatus?.timestamp) return;
+    if (append(client.clientId, toSample(client.currentStatus))) {
+      notify(client.clientId);
+    }
+  });
+}
+
+/**
+ * Merge older samples (e.g. from history) into a client's buffer
+ */
+export function seedSamples(clientId: string, samples: MetricSample[]): void {
+  if (samples.length === 0) return;
+
+  const byTimestamp = new Map<number, MetricSample>();
+  samples.forEach((sample) => byTimestamp.set(sample.timestamp, toSample(sample)));
+  (buffers.get(clientId) ?? EMPTY_SAMPLES).forEach((sample) =>
+    byTimestamp.set(sample.timestamp, sample)
+  );
+
+  const merged = Array.from(byTimestamp.values()).sort((a, b) => a.timestamp - b.timestamp);
+  buffers.set(clientId, merged.slice(-MAX_SAMPLES_PER_CLIENT));
+  notify(clientId);
+}
+
+// Clients whose recent samples were already requested
+const seededClientIds = new Set<string>();
+
+/**
+ * Backfill buffers from the compact samples endpoint, once per client
+ * Failures are ignored; the buffers still fill from live updates
+ */
+export async function loadRecentSamples(clientIds: string[]): Promise<void> {
+  const ids = clientIds.filter((id) => !seededClientIds.has(id));
+  if (ids.length === 0) return;
+  ids.forEach((id) => seededClientIds.add(id));
+
+  try {
+    const samples = await apiClient.fetchRecentSamples(ids, MAX_SAMPLES_PER_CLIENT);
+    Object.entries(samples).forEach(([clientId, clientSamples]) => {
+      if (Array.isArray(clientSamples)) seedSamples(clientId, clientSamples);
+    });
+  } catch {
+    // Allow a retry on the next call
+    ids.forEach((id) => seededClientIds.delete(id));
+  }
+}
+
+/**
+ * Drop the buffers of clients that are no longer in the fleet, e.g. removed or moved to
+ * another backend, unless something still shows them
+ * Without this the buffers grow for the whole session on a churning fleet
+ */
+export function retainSamples(clientIds: string[]): void {
+  const retained = new Set(clientIds);
+  buffers.forEach((_, clientId) => {
+    if (retained.has(clientId) || listeners.has(clientId)) return;
+    buffers.delete(clientId);
+    // Backfill again if the client comes back
+    seededClientIds.delete(clientId);
+  });
+}
+
+/**
+ * Current samples for a client, oldest first
+ */
+export function getSamples(clientId: string): MetricSample[] {
+  return buffers.get(clientId) ?? EMPTY_SAMPLES;
+}
+
+function subscribe(clientId: string, listener: () => void): () => void {
+  if (!listeners.has(clientId)) {
+    listeners.set(clientId, new Set());
+  }
+  const clientListeners = listeners.get(clientId)!;
+  clientListeners.add(listener);
+
+  return () => {
+    clientListeners.delete(listener);
+    if (clientListeners.size === 0) {
+      listeners.delete(clientId);
+    }
+  };
+}
+
+/**
+ * Hook for a client's recent samples
+ */
+export function useClientSamples(clientId: string): MetricSample[] {
+  const subscribeToClient = useCallback(
+    (listener: () => void) => subscribe(clientId, listener),
+    [clientId]
+  );
+
+  return useSyncExternalStore(
+    subscribeToClient,
+    () => getSamples(clientId),
+    () => EMPTY_SAMPLES
+  );
+}
@@ -0,0 +1,623 @@
+/**
+ * Runtime validation of API responses
+ * The backend and the dashboard are deployed independently, so payloads are checked field
+ * by field: values of the wrong type are converted where the intent is clear, missing ones
+ * get a neutral default and unusable entries are dropped. Every mismatch is recorded in the
+ * schema drift log instead of crashing the views that render the data.
+ */
+
+import type {
+  ClientDetail,
+  ClientStatus,
+  ClientSummary,
+  DiskInfo,
+  DiskUsage,
+  DynamicSystemStatus,
+  StaticSystemInfo,
+  StatusSample,
+} from './api-client';
+
+export type SchemaEntity =
+  | 'ClientSummary'
+  | 'ClientDetail'
+  | 'StaticSystemInfo'
+  | 'DynamicSystemStatus'
+  | 'DiskUsage'
+  | 'DiskInfo'
+  | 'Response';
+
+/**
+ * What happened to a mismatching value
+ * - coerced: converted to the expected type, e.g. "42.5" to 42.5
+ * - defaulted: missing or unusable, replaced by a default
+ * - dropped: an invalid entry was left out of a list
+ * - rejected: the whole payload was unusable
+ */
+export type SchemaProblem = 'coerced' | 'defaulted' | 'dropped' | 'rejected';
+
+export interface SchemaIssue {
+  entity: SchemaEntity;
+  field: string;
+  problem: SchemaProblem;
+  expected: string;
+  /**
+   * Short description of the value that was received
+   */
+  received: string;
+  clientId?: string;
+}
+
+/**
+ * A response that could not be used at all
+ */
+export class SchemaValidationError extends Error {
+  constructor(public readonly issues: SchemaIssue[]) {
+    super(
+      issues.length > 0
+        ? `Unexpected response: ${issues[0].entity}.${issues[0].field} should be ${issues[0].expected}, got ${issues[0].received}`
+        : 'Unexpected response'
+    );
+    this.name = 'SchemaValidationError';
+  }
+}
+
+type Fields = Record<string, unknown>;
+
+/**
+ * Object being validated, with the issues collected for the current response
+ */
+interface Payload {
+  fields: Fields;
+  entity: SchemaEntity;
+  issues: SchemaIssue[];
+  clientId?: string;
+}
+
+const STATUSES: ClientStatus[] = ['online', 'stale', 'offline'];
+
+function isObject(value: unknown): value is Fields {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Short description of a received value for the drift log
+ */
+function describeValue(value: unknown): string {
+  if (value === undefined) return 'nothing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'object') return 'an object';
+  if (typeof value === 'string') {
+    return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value);
+  }
+  return String(value);
+}
+
+function addIssue(
+  payload: Payload,
+  field: string,
+  problem: SchemaProblem,
+  expected: string,
+  value: unknown
+): void {
+  payload.issues.push({
+    entity: payload.entity,
+    field,
+    problem,
+    expected,
+    received: describeValue(value),
+    clientId: payload.clientId,
+  });
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+  }
+  return null;
+}
+
+function readNumber(payload: Payload, key: string, fallback = 0): number {
+  const value = payload.fields[key];
+  const number = toNumber(value);
+  if (number === null) {
+    addIssue(payload, key, 'defaulted', 'a number', value);
+    return fallback;
+  }
+  if (typeof value !== 'number') addIssue(payload, key, 'coerced', 'a number', value);
+  return number;
+}
+
+/**
+ * Millisecond timestamp from a number, numeric string or date string; NaN if none
+ */
+function parseTimestamp(value: unknown): number {
+  return toNumber(value) ?? (typeof value === 'string' && value ? Date.parse(value) : NaN);
+}
+
+/**
+ * Millisecond timestamp; date strings are converted
+ */
+function readTimestamp(payload: Payload, key: string, nullable: true): number | null;
+function readTimestamp(payload: Payload, key: string, nullable?: false): number;
+function readTimestamp(payload: Payload, key: string, nullable = false): number | null {
+  const value = payload.fields[key];
+  if (nullable && value === null) return null;
+
+  const timestamp = parseTimestamp(value);
+  if (!Number.isFinite(timestamp)) {
+    addIssue(payload, key, 'defaulted', 'a timestamp', value);
+    return nullable ? null : 0;
+  }
+  if (typeof value !== 'number') addIssue(payload, key, 'coerced', 'a timestamp', value);
+  return timestamp;
+}
+
+function readString(payload: Payload, key: string, fallback = ''): string {
+  const value = payload.fields[key];
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    addIssue(payload, key, 'coerced', 'a string', value);
+    return String(value);
+  }
+  addIssue(payload, key, 'defaulted', 'a string', value);
+  return fallback;
+}
+
+function readOptionalString(payload: Payload, key: string): string | undefined {
+  return payload.fields[key] === undefined || payload.fields[key] === null
+    ? undefined
+    : readString(payload, key);
+}
+
+function readStringList(payload: Payload, key: string): string[] {
+  const value = payload.fields[key];
+  if (!Array.isArray(value)) {
+    addIssue(payload, key, 'defaulted', 'a list of strings', value);
+    return [];
+  }
+  const strings = value.filter((item): item is string => typeof item === 'string');
+  if (strings.length < value.length) {
+    addIssue(
+      payload,
+      key,
+      'dropped',
+      'a list of strings',
+      value.find((item) => typeof item !== 'string')
+    );
+  }
+  return strings;
+}
+
+/**
+ * List of nested objects; entries the validator cannot use are dropped
+ */
+function readList<T>(
+  payload: Payload,
+  key: string,
+  validate: (value: unknown, issues: SchemaIssue[], clientId?: string) => T | null
+): T[] {
+  const value = payload.fields[key];
+  if (!Array.isArray(value)) {
+    addIssue(payload, key, 'defaulted', 'a list', value);
+    return [];
+  }
+  return value.flatMap((item) => {
+    const entry = validate(item, payload.issues, payload.clientId);
+    return entry === null ? [] : [entry];
+  });
+}
+
+/**
+ * Nested object; a missing one is validated as empty so every field gets its default
+ */
+function readObject<T>(
+  payload: Payload,
+  key: string,
+  validate: (payload: Payload) => T,
+  entity: SchemaEntity
+): T {
+  const value = payload.fields[key];
+  if (!isObject(value)) addIssue(payload, key, 'defaulted', 'an object', value);
+  return validate({
+    fields: isObject(value) ? value : {},
+    entity,
+    issues: isObject(value) ? payload.issues : [],
+    clientId: payload.clientId,
+  });
+}
+
+function readStatus(payload: Payload): ClientStatus {
+  const value = payload.fields.status;
+  if (STATUSES.includes(value as ClientStatus)) return value as ClientStatus;
+
+  const normalized = typeof value === 'string' ? value.trim().toLowerCase() : value;
+  if (STATUSES.includes(normalized as ClientStatus)) {
+    addIssue(payload, 'status', 'coerced', STATUSES.join(' | '), value);
+    return normalized as ClientStatus;
+  }
+  if (typeof value === 'boolean') {
+    addIssue(payload, 'status', 'coerced', STATUSES.join(' | '), value);
+    return value ? 'online' : 'offline';
+  }
+  addIssue(payload, 'status', 'defaulted', STATUSES.join(' | '), value);
+  return 'offline';
+}
+
+/**
+ * Start validating one entry of a list; entries that are not objects are dropped
+ */
+function openEntry(
+  value: unknown,
+  entity: SchemaEntity,
+  issues: SchemaIssue[],
+  clientId?: string
+): Payload | null {
+  const payload: Payload = { fields: {}, entity, issues, clientId };
+  if (!isObject(value)) {
+    addIssue(payload, '(entry)', 'dropped', 'an object', value);
+    return null;
+  }
+  payload.fields = value;
+  return payload;
+}
+
+function validateDiskUsage(value: unknown, issues: SchemaIssue[], clientId?: string) {
+  const payload = openEntry(value, 'DiskUsage', issues, clientId);
+  if (!payload) return null;
+  if (typeof payload.fields.device !== 'string' || payload.fields.device === '') {
+    addIssue(payload, 'device', 'dropped', 'a device name', payload.fields.device);
+    return null;
+  }
+
+  const disk: DiskUsage = {
+    device: payload.fields.device,
+    size: readNumber(payload, 'size'),
+    used: readNumber(payload, 'used'),
+    available: readNumber(payload, 'available'),
+    usagePercent: readNumber(payload, 'usagePercent'),
+  };
+  const mountpoint = readOptionalString(payload, 'mountpoint');
+  if (mountpoint !== undefined) disk.mountpoint = mountpoint;
+  return disk;
+}
+
+function validateDiskInfo(value: unknown, issues: SchemaIssue[], clientId?: string) {
+  const payload = openEntry(value, 'DiskInfo', issues, clientId);
+  if (!payload) return null;
+  if (typeof payload.fields.device !== 'string' || payload.fields.device === '') {
+    addIssue(payload, 'device', 'dropped', 'a device name', payload.fields.device);
+    return null;
+  }
+
+  const disk: DiskInfo = {
+    device: payload.fields.device,
+    size: readNumber(payload, 'size'),
+    type: readString(payload, 'type'),
+  };
+  const interfaceType = readOptionalString(payload, 'interfaceType');
+  if (interfaceType !== undefined) disk.interfaceType = interfaceType;
+  return disk;
+}
+
+function readStaticInfo(payload: Payload): StaticSystemInfo {
+  return {
+    cpuModel: readString(payload, 'cpuModel'),
+    cpuCores: readNumber(payload, 'cpuCores'),
+    cpuArch: readString(payload, 'cpuArch'),
+    systemVersion: readString(payload, 'systemVersion'),
+    systemModel: readString(payload, 'systemModel'),
+    totalMemory: readNumber(payload, 'totalMemory'),
+    totalSwap: readNumber(payload, 'totalSwap'),
+    totalDisk: readNumber(payload, 'totalDisk'),
+    disks: readList(payload, 'disks', validateDiskInfo),
+    location: readString(payload, 'location'),
+  };
+}
+
+function readDynamicStatus(payload: Payload): DynamicSystemStatus {
+  return {
+    cpuUsage: readNumber(payload, 'cpuUsage'),
+    cpuFrequency: readNumber(payload, 'cpuFrequency'),
+    memoryUsage: readNumber(payload, 'memoryUsage'),
+    swapUsage: readNumber(payload, 'swapUsage'),
+    diskUsage: readNumber(payload, 'diskUsage'),
+    diskUsages: readList(payload, 'diskUsages', validateDiskUsage),
+    networkUpload: readNumber(payload, 'networkUpload'),
+    networkDownload: readNumber(payload, 'networkDownload'),
+    timestamp: readTimestamp(payload, 'timestamp'),
+  };
+}
+
+/**
+ * Open a client record; clients without a usable ID cannot be shown or linked and are dropped
+ */
+function openClient(value: unknown, entity: SchemaEntity, issues: SchemaIssue[]): Payload | null {
+  const payload = openEntry(value, entity, issues);
+  if (!payload) return null;
+
+  const clientId = payload.fields.clientId;
+  if ((typeof clientId !== 'string' || clientId === '') && typeof clientId !== 'number') {
+    addIssue(payload, 'clientId', 'dropped', 'a client ID', clientId);
+    return null;
+  }
+  payload.clientId = String(clientId);
+  return payload;
+}
+
+function readClientSummary(payload: Payload): ClientSummary {
+  const clientId = readString(payload, 'clientId');
+  return {
+    clientId,
+    clientName: readString(payload, 'clientName', clientId),
+    clientTags: readStringList(payload, 'clientTags'),
+    clientPurpose: readString(payload, 'clientPurpose'),
+    hostname: readString(payload, 'hostname'),
+    platform: readString(payload, 'platform'),
+    status: readStatus(payload),
+    lastUpdate: readTimestamp(payload, 'lastUpdate'),
+    createdAt: readTimestamp(payload, 'createdAt'),
+    lastOnlineAt: readTimestamp(payload, 'lastOnlineAt', true),
+    priority: readNumber(payload, 'priority'),
+  };
+}
+
+function validateClientSummary(value: unknown, issues: SchemaIssue[]): ClientSummary | null {
+  const payload = openClient(value, 'ClientSummary', issues);
+  return payload && readClientSummary(payload);
+}
+
+function validateClientDetailEntry(value: unknown, issues: SchemaIssue[]): ClientDetail | null {
+  const payload = openClient(value, 'ClientDetail', issues);
+  if (!payload) return null;
+  return {
+    ...readClientSummary(payload),
+    staticInfo: readObject(payload, 'staticInfo', readStaticInfo, 'StaticSystemInfo'),
+    currentStatus: readObject(payload, 'currentStatus', readDynamicStatus, 'DynamicSystemStatus'),
+  };
+}
+
+/**
+ * History entries without a timestamp cannot be placed on a chart and are dropped
+ */
+function validateHistoryEntry(
+  value: unknown,
+  issues: SchemaIssue[],
+  clientId?: string
+): DynamicSystemStatus | null {
+  const payload = openEntry(value, 'DynamicSystemStatus', issues, clientId);
+  if (!payload) return null;
+  if (!Number.isFinite(parseTimestamp(payload.fields.timestamp))) {
+    addIssue(payload, 'timestamp', 'dropped', 'a timestamp', payload.fields.timestamp);
+    return null;
+  }
+  return readDynamicStatus(payload);
+}
+
+/**
+ * Compact sample; only the scalar metrics are checked
+ */
+function validateSample(
+  value: unknown,
+  issues: SchemaIssue[],
+  clientId?: string
+): StatusSample | null {
+  const payload = openEntry(value, 'DynamicSystemStatus', issues, clientId);
+  if (!payload) return null;
+  if (!Number.isFinite(parseTimestamp(payload.fields.timestamp))) {
+    addIssue(payload, 'timestamp', 'dropped', 'a timestamp', payload.fields.timestamp);
+    return null;
+  }
+  return {
+    timestamp: readTimestamp(payload, 'timestamp'),
+    cpuUsage: readNumber(payload, 'cpuUsage'),
+    memoryUsage: readNumber(payload, 'memoryUsage'),
+    swapUsage: readNumber(payload, 'swapUsage'),
+    diskUsage: readNumber(payload, 'diskUsage'),
+    networkUpload: readNumber(payload, 'networkUpload'),
+    networkDownload: readNumber(payload, 'networkDownload'),
+  };
+}
+
+/**
+ * List response; anything but an array is unusable
+ */
+function validateList<T>(
+  value: unknown,
+  source: string,
+  validate: (value: unknown, issues: SchemaIssue[]) => T | null
+): T[] {
+  const issues: SchemaIssue[] = [];
+  if (!Array.isArray(value)) {
+    issues.push({
+      entity: 'Response',
+      field: '(body)',
+      problem: 'rejected',
+      expected: 'a list',
+      received: describeValue(value),
+    });
+    reportSchemaIssues(source, issues);
+    throw new SchemaValidationError(issues);
+  }
+
+  const entries = value.flatMap((item) => {
+    const entry = validate(item, issues);
+    return entry === null ? [] : [entry];
+  });
+  reportSchemaIssues(source, issues);
+  return entries;
+}
+
+export function validateClientSummaries(value: unknown, source: string): ClientSummary[] {
+  return validateList(value, source, validateClientSummary);
+}
+
+export function validateClientDetails(value: unknown, source: string): ClientDetail[] {
+  return validateList(value, source, validateClientDetailEntry);
+}
+
+export function validateStatusHistory(value: unknown, source: string): DynamicSystemStatus[] {
+  return validateList(value, source, validateHistoryEntry);
+}
+
+/**
+ * Single client detail
+ * @throws SchemaValidationError when the response is not a client
+ */
+export function validateClientDetail(value: unknown, source: string): ClientDetail {
+  const issues: SchemaIssue[] = [];
+  const detail = validateClientDetailEntry(value, issues);
+  reportSchemaIssues(source, issues);
+  if (!detail) {
+    throw new SchemaValidationError(issues);
+  }
+  return detail;
+}
+
+/**
+ * Client pushed over the live status stream; null when unusable
+ */
+export function validateStreamClient(value: unknown, source: string): ClientSummary | null {
+  const issues: SchemaIssue[] = [];
+  const client = validateClientSummary(value, issues);
+  reportSchemaIssues(source, issues);
+  return client;
+}
+
+/**
+ * Status delta pushed over the live status stream
+ * Only the fields present are validated; unusable ones are left out of the delta
+ */
+export function validateStatusPatch(value: unknown, source: string): Partial<DynamicSystemStatus> {
+  const issues: SchemaIssue[] = [];
+  const payload = openEntry(value, 'DynamicSystemStatus', issues);
+  if (!payload) {
+    reportSchemaIssues(source, issues);
+    return {};
+  }
+
+  // Validate a complete status, then keep only the fields that were sent and usable
+  const status = readDynamicStatus(payload);
+  const invalid = new Set(
+    issues.filter((issue) => issue.problem === 'defaulted').map((issue) => issue.field)
+  );
+  const patch = Object.fromEntries(
+    Object.entries(status).filter(([key]) => key in payload.fields && !invalid.has(key))
+  ) as Partial<DynamicSystemStatus>;
+
+  reportSchemaIssues(
+    source,
+    issues.filter(
+      (issue) => issue.entity !== 'DynamicSystemStatus' || issue.field in payload.fields
+    )
+  );
+  return patch;
+}
+
+/**
+ * Recent samples keyed by client ID
+ * @throws SchemaValidationError when the response is not an object
+ */
+export function validateStatusSamples(
+  value: unknown,
+  source: string
+): Record<string, StatusSample[]> {
+  const issues: SchemaIssue[] = [];
+  if (!isObject(value)) {
+    issues.push({
+      entity: 'Response',
+      field: '(body)',
+      problem: 'rejected',
+      expected: 'an object of sample lists',
+      received: describeValue(value),
+    });
+    reportSchemaIssues(source, issues);
+    throw new SchemaValidationError(issues);
+  }
+
+  const samples: Record<string, StatusSample[]> = {};
+  Object.keys(value).forEach((clientId) => {
+    const payload: Payload = { fields: value, entity: 'Response', issues, clientId };
+    samples[clientId] = readList(payload, clientId, validateSample);
+  });
+  reportSchemaIssues(source, issues);
+  return samples;
+}
+
+/**
+ * Aggregated mismatches of one field, for the drift diagnostics panel
+ */
+export interface SchemaDriftEntry {
+  key: string;
+  /**
+   * Base URL of the backend that sent the data
+   */
+  source: string;
+  entity: SchemaEntity;
+  field: string;
+  problem: SchemaProblem;
+  expected: string;
+  /**
+   * Most recently received value and the client it belonged to
+   */
+  lastReceived: string;
+  lastClientId?: string;
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+type SchemaDriftListener = (entries: SchemaDriftEntry[]) => void;
+
+const driftEntries = new Map<string, SchemaDriftEntry>();
+const driftListeners = new Set<SchemaDriftListener>();
+
+/**
+ * Add issues found in a response from `source` to the drift log
+ */
+export function reportSchemaIssues(source: string, issues: SchemaIssue[]): void {
+  if (issues.length === 0) return;
+
+  const now = Date.now();
+  issues.forEach((issue) => {
+    const key = [source, issue.entity, issue.field, issue.problem].join('|');
+    const existing = driftEntries.get(key);
+    driftEntries.set(key, {
+      key,
+      source,
+      entity: issue.entity,
+      field: issue.field,
+      problem: issue.problem,
+      expected: issue.expected,
+      lastReceived: issue.received,
+      lastClientId: issue.clientId,
+      count: (existing?.count ?? 0) + 1,
+      firstSeen: existing?.firstSeen ?? now,
+      lastSeen: now,
+    });
+  });
+
+  const entries = getSchemaDrift();
+  driftListeners.forEach((listener) => listener(entries));
+}
+
+/**
+ * Recorded mismatches, most recent first
+ */
+export function getSchemaDrift(): SchemaDriftEntry[] {
+  return Array.from(driftEntries.values()).sort((a, b) => b.lastSeen - a.lastSeen);
+}
+
+export function subscribeToSchemaDrift(listener: SchemaDriftListener): () => void {
+  driftListeners.add(listener);
+  return () => {
+    driftListeners.delete(listener);
+  };
+}
+
+export function clearSchemaDrift(): void {
+  driftEntries.clear();
+  driftListeners.forEach((listener) => listener([]));
+}
@@ -0,0 +1,24 @@
+/**
+ * API client for server-rendered pages
+ * Uses the runtime configuration's backends. Server components have no access to the
+ * browser's session, so a signed-in user's access token is read from the cookie the auth
+ * providers mirror it into
+ */
+
+import { cookies } from 'next/headers';
+import { MonitorApiClient, createConfiguredApiClient } from './api-client';
+import { AUTH_TOKEN_COOKIE, BearerTokenAuthProvider, createAuthProvider } from './auth';
+import { getServerRuntimeConfig } from './server-runtime-config';
+
+/**
+ * Client authenticated as the current user, or with the configured provider when no
+ * token cookie is set
+ */
+export async function getServerApiClient(): Promise<MonitorApiClient> {
+  const [config, cookieStore] = await Promise.all([getServerRuntimeConfig(), cookies()]);
+  const token = cookieStore.get(AUTH_TOKEN_COOKIE)?.value;
+  return createConfiguredApiClient(
+    { apiUrl: config.apiUrl, backends: config.backends },
+    token ? new BearerTokenAuthProvider({ token }) : createAuthProvider(config.auth)
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * Runtime configuration as read by the server
+ * config.json (or the file at MONITOR_CONFIG_PATH) is read on every call, and the
+ * MONITOR_API_URL and MONITOR_API_BACKENDS environment variables override it, so a
+ * container picks up its environment without a rebuild
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import {
+  DEFAULT_RUNTIME_CONFIG,
+  RuntimeConfig,
+  RuntimeConfigError,
+  parseRuntimeConfig,
+} from './runtime-config';
+
+async function readConfigFile(): Promise<Record<string, unknown>> {
+  const explicitPath = process.env.MONITOR_CONFIG_PATH;
+  const configPath = explicitPath || path.join(process.cwd(), 'config.json');
+
+  let content: string;
+  try {
+    content = await readFile(configPath, 'utf-8');
+  } catch (error) {
+    // config.json is optional; a configured path is not
+    if (!explicitPath && (error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw new RuntimeConfigError([`Cannot read ${configPath}: ${(error as Error).message}`]);
+  }
+
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    throw new RuntimeConfigError([`${configPath} is not valid JSON: ${(error as Error).message}`]);
+  }
+}
+
+function readEnvironment(): Record<string, unknown> {
+  const overrides: Record<string, unknown> = {};
+  if (process.env.MONITOR_API_URL) {
+    overrides.apiUrl = process.env.MONITOR_API_URL;
+  }
+  if (process.env.MONITOR_API_BACKENDS) {
+    try {
+      overrides.backends = JSON.parse(process.env.MONITOR_API_BACKENDS);
+    } catch {
+      throw new RuntimeConfigError(['MONITOR_API_BACKENDS is not valid JSON']);
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Load and validate the configuration
+ * @throws RuntimeConfigError
+ */
+export async function loadServerRuntimeConfig(): Promise<RuntimeConfig> {
+  const fileConfig = await readConfigFile();
+  return parseRuntimeConfig({ ...fileConfig, ...readEnvironment() });
+}
+
+/**
+ * Configuration for server-rendered pages
+ * An invalid configuration falls back to the defaults; the browser reports the errors
+ */
+export function getServerRuntimeConfig(): Promise<RuntimeConfig> {
+  return loadServerRuntimeConfig().catch(() => DEFAULT_RUNTIME_CONFIG);
+}
@@ -0,0 +1,182 @@
+/**
+ * Time ranges for history queries
+ * A range is a string so it can live in the URL:
+ * - a preset such as '1h' or '7days'
+ * - a relative expression such as 'now-6h' (units s, m, h, d, w)
+ * - an explicit window 'from..to', each side epoch milliseconds or a relative expression
+ */
+
+export interface TimeRangeOption {
+  value: string;
+  label: string;
+}
+
+/**
+ * Concrete window a range covers at a given moment
+ */
+export interface ResolvedTimeRange {
+  startTime: number;
+  endTime: number;
+}
+
+/**
+ * Time ranges offered by the detail views
+ */
+export const TIME_RANGE_OPTIONS: TimeRangeOption[] = [
+  { value: '1h', label: '1小时' },
+  { value: '4h', label: '4小时' },
+  { value: '8h', label: '8小时' },
+  { value: '12h', label: '12小时' },
+  { value: '24h', label: '24小时' },
+  { value: '7days', label: '7天' },
+  { value: '30days', label: '30天' },
+];
+
+export const DEFAULT_TIME_RANGE = '1h';
+
+/**
+ * Shortest window a zoom or custom range may select
+ */
+export const MIN_TIME_RANGE_MS = 60 * 1000;
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const PRESET_EXPRESSIONS: Record<string, string> = {
+  '1h': 'now-1h',
+  '4h': 'now-4h',
+  '8h': 'now-8h',
+  '12h': 'now-12h',
+  '24h': 'now-24h',
+  '7days': 'now-7d',
+  '30days': 'now-30d',
+};
+
+const RELATIVE_PATTERN = /^now(?:-(\d+)([smhdw]))?$/;
+
+const RANGE_SEPARATOR = '..';
+
+/**
+ * Parse one side of a range; null when it is neither a relative expression nor a timestamp
+ */
+function parseTimePoint(value: string, now: number): number | null {
+  const trimmed = value.trim();
+  const relative = RELATIVE_PATTERN.exec(trimmed);
+  if (relative) {
+    return relative[1] ? now - Number(relative[1]) * UNIT_MS[relative[2]] : now;
+  }
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+  return null;
+}
+
+/**
+ * Resolve a range to a window; null when the range is malformed or empty
+ */
+export function parseTimeRange(range: string, now: number = Date.now()): ResolvedTimeRange | null {
+  const expression = PRESET_EXPRESSIONS[range] ?? range;
+  const [from, to = 'now', ...rest] = expression.split(RANGE_SEPARATOR);
+  if (rest.length > 0) return null;
+
+  const startTime = parseTimePoint(from, now);
+  const endTime = parseTimePoint(to, now);
+  if (startTime === null || endTime === null || startTime >= endTime) return null;
+
+  return { startTime, endTime };
+}
+
+/**
+ * Whether both ends of a range are relative to now, e.g. a preset or 'now-6h..now-1h'
+ */
+export function isRelativeTimeRange(range: string): boolean {
+  const expression = PRESET_EXPRESSIONS[range] ?? range;
+  const [from, to = 'now', ...rest] = expression.split(RANGE_SEPARATOR);
+  return (
+    rest.length === 0 && RELATIVE_PATTERN.test(from.trim()) && RELATIVE_PATTERN.test(to.trim())
+  );
+}
+
+export function isValidTimeRange(range: string): boolean {
+  return parseTimeRange(range) !== null;
+}
+
+/**
+ * Resolve a range to a window, falling back to the default range when it is invalid
+ */
+export function resolveTimeRange(range: string, now: number = Date.now()): ResolvedTimeRange {
+  return parseTimeRange(range, now) ?? parseTimeRange(DEFAULT_TIME_RANGE, now)!;
+}
+
+/**
+ * Range string for a fixed window
+ */
+export function formatAbsoluteRange(startTime: number, endTime: number): string {
+  return `${Math.round(startTime)}${RANGE_SEPARATOR}${Math.round(endTime)}`;
+}
+
+/**
+ * Shift a range by half its length; the result never extends past now
+ * Returns the range unchanged when it already ends now and is shifted later
+ */
+export function panTimeRange(range: string, direction: -1 | 1, now: number = Date.now()): string {
+  const { startTime, endTime } = resolveTimeRange(range, now);
+  // Already at the live edge
+  if (direction === 1 && endTime >= now) return range;
+
+  const duration = endTime - startTime;
+  const shift = (duration / 2) * direction;
+  const nextEnd = Math.min(endTime + shift, now);
+  return formatAbsoluteRange(nextEnd - duration, nextEnd);
+}
+
+function formatTimePoint(value: string): string {
+  const trimmed = value.trim();
+  if (!/^\d+$/.test(trimmed)) return trimmed;
+  return new Date(Number(trimmed)).toLocaleString('en-US', {
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Human readable label for a range
+ */
+export function getTimeRangeLabel(range: string): string {
+  const preset = TIME_RANGE_OPTIONS.find((option) => option.value === range);
+  if (preset) return preset.label;
+  if (!isValidTimeRange(range)) return range;
+
+  const [from, to] = range.split(RANGE_SEPARATOR);
+  if (to === undefined || to.trim() === 'now') return formatTimePoint(from);
+  return `${formatTimePoint(from)} – ${formatTimePoint(to)}`;
+}
+
+/**
+ * Format a chart axis timestamp for the length of the range:
+ * seconds for short zooms, time of day up to a day, otherwise the date
+ */
+export function formatChartTime(timestamp: number, range: string): string {
+  const { startTime, endTime } = resolveTimeRange(range);
+  const duration = endTime - startTime;
+  const date = new Date(timestamp);
+
+  if (duration > UNIT_MS.d) {
+    return date.toLocaleDateString('en-US', { month: '2-digit', day: '2-digit' });
+  }
+  if (duration <= 15 * UNIT_MS.m) {
+    return date.toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  }
+  return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+}
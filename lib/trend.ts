@@ -0,0 +1,110 @@
+/**
+ * Linear trends over history
+ * Least-squares fits of a metric over time, used to estimate growth rates and when a
+ * value will reach a limit (a full disk, saturated memory)
+ */
+
+export const HOUR_MS = 60 * 60 * 1000;
+export const DAY_MS = 24 * HOUR_MS;
+
+export interface TrendPoint {
+  timestamp: number;
+  value: number;
+}
+
+export interface LinearTrend {
+  /**
+   * Change per millisecond
+   */
+  slope: number;
+  /**
+   * Fitted value at `origin`
+   */
+  intercept: number;
+  /**
+   * Timestamp the fit is centered on; keeps the arithmetic precise with epoch timestamps
+   */
+  origin: number;
+  /**
+   * Coefficient of determination, 0 to 1; how well a straight line explains the data
+   */
+  r2: number;
+  sampleCount: number;
+  /**
+   * Time covered by the samples, in milliseconds
+   */
+  span: number;
+}
+
+/**
+ * Least-squares line through the points
+ * Returns null for fewer than two usable points or when they share one timestamp
+ */
+export function fitLinearTrend(points: TrendPoint[]): LinearTrend | null {
+  const usable = points.filter(
+    (point) => Number.isFinite(point.timestamp) && Number.isFinite(point.value)
+  );
+  if (usable.length < 2) return null;
+
+  const origin = usable.reduce((sum, point) => sum + point.timestamp, 0) / usable.length;
+  const meanValue = usable.reduce((sum, point) => sum + point.value, 0) / usable.length;
+
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  let first = Infinity;
+  let last = -Infinity;
+  usable.forEach((point) => {
+    const dx = point.timestamp - origin;
+    const dy = point.value - meanValue;
+    sxx += dx * dx;
+    sxy += dx * dy;
+    syy += dy * dy;
+    first = Math.min(first, point.timestamp);
+    last = Math.max(last, point.timestamp);
+  });
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  // A flat series is explained perfectly by a flat line
+  const r2 = syy === 0 ? 1 : (sxy * sxy) / (sxx * syy);
+
+  return {
+    slope,
+    intercept: meanValue,
+    origin,
+    r2,
+    sampleCount: usable.length,
+    span: last - first,
+  };
+}
+
+/**
+ * Value of the fitted line at a timestamp
+ */
+export function projectTrend(trend: LinearTrend, timestamp: number): number {
+  return trend.intercept + trend.slope * (timestamp - trend.origin);
+}
+
+/**
+ * Milliseconds from `from` until the fitted line reaches `limit`
+ * 0 when it is already there; null when the trend is flat or falling
+ */
+export function timeUntilLimit(trend: LinearTrend, limit: number, from: number): number | null {
+  const current = projectTrend(trend, from);
+  if (current >= limit) return 0;
+  if (trend.slope <= 0) return null;
+  return (limit - current) / trend.slope;
+}
+
+/**
+ * Short label for a projected duration, e.g. "5 h", "12 days", "> 1 year"
+ */
+export function formatTimeUntil(ms: number | null): string {
+  if (ms === null) return 'Not growing';
+  if (ms <= 0) return 'Now';
+  if (ms < HOUR_MS) return '< 1 h';
+  if (ms < 2 * DAY_MS) return `${Math.round(ms / HOUR_MS)} h`;
+  if (ms < 365 * DAY_MS) return `${Math.round(ms / DAY_MS)} days`;
+  return '> 1 year';
+}
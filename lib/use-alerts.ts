@@ -0,0 +1,150 @@
+/**
+ * Hook for user-defined alert rules and their evaluation state
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { ClientDetail, ClientSummary } from './api-client';
+import {
+  AlertHistorySample,
+  AlertInstance,
+  AlertRule,
+  evaluateAlerts,
+  parseRuleExpression,
+  validateRules,
+} from './alert-rules';
+import { getSamples } from './sample-buffer';
+
+/**
+ * localStorage key for persisted alert rules
+ */
+const ALERT_RULES_STORAGE_KEY = 'system-monitor-alert-rules';
+
+/**
+ * Re-evaluation interval so "for" durations elapse without new data (15 seconds)
+ */
+const ALERT_EVALUATION_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Load persisted rules, ignoring corrupt storage
+ */
+function loadRules(): AlertRule[] {
+  try {
+    const stored = localStorage.getItem(ALERT_RULES_STORAGE_KEY);
+    return stored ? validateRules(JSON.parse(stored)) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Hook for alert rules
+ * Persists rules in localStorage and evaluates them whenever clients change
+ * "for" durations count time before the page loaded from the recent samples buffer, or from
+ * `history` where a client's full history is loaded
+ */
+export function useAlerts(
+  clients: Array<ClientSummary | ClientDetail>,
+  history?: Map<string, AlertHistorySample[]>
+) {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [instances, setInstances] = useState<Map<string, AlertInstance>>(new Map());
+  const [loaded, setLoaded] = useState(false);
+
+  // Latest inputs for the interval-driven evaluation
+  const inputsRef = useRef({ clients, history });
+  inputsRef.current = { clients, history };
+
+  useEffect(() => {
+    setRules(loadRules());
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    localStorage.setItem(ALERT_RULES_STORAGE_KEY, JSON.stringify(rules));
+  }, [rules, loaded]);
+
+  const evaluate = useCallback(() => {
+    const { clients: currentClients, history: currentHistory } = inputsRef.current;
+    const samples = new Map(
+      currentClients.map((client): [string, AlertHistorySample[]] => [
+        client.clientId,
+        currentHistory?.get(client.clientId) ?? getSamples(client.clientId),
+      ])
+    );
+    setInstances((prev) => evaluateAlerts(rules, currentClients, prev, Date.now(), samples));
+  }, [rules]);
+
+  useEffect(() => {
+    evaluate();
+  }, [evaluate, clients, history]);
+
+  useEffect(() => {
+    const intervalId = setInterval(evaluate, ALERT_EVALUATION_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [evaluate]);
+
+  /**
+   * Add a rule from its expression form, throws on invalid input
+   */
+  const addRule = useCallback((expression: string) => {
+    const rule = parseRuleExpression(expression);
+    setRules((prev) => [...prev, rule]);
+    return rule;
+  }, []);
+
+  const toggleRule = useCallback((ruleId: string) => {
+    setRules((prev) => prev.map((r) => (r.id === ruleId ? { ...r, enabled: !r.enabled } : r)));
+  }, []);
+
+  const removeRule = useCallback((ruleId: string) => {
+    setRules((prev) => prev.filter((r) => r.id !== ruleId));
+  }, []);
+
+  /**
+   * Import rules from JSON, replacing rules with the same ID
+   * Throws with a readable message on invalid input
+   */
+  const importRules = useCallback((json: string) => {
+    const imported = validateRules(JSON.parse(json));
+    setRules((prev) => {
+      const importedIds = new Set(imported.map((r) => r.id));
+      return [...prev.filter((r) => !importedIds.has(r.id)), ...imported];
+    });
+    return imported.length;
+  }, []);
+
+  const exportRules = useCallback(() => JSON.stringify(rules, null, 2), [rules]);
+
+  const alerts = useMemo(
+    () =>
+      Array.from(instances.values())
+        .filter((a) => a.state !== 'pending')
+        .sort((a, b) => (b.firedAt ?? 0) - (a.firedAt ?? 0)),
+    [instances]
+  );
+
+  // Firing alert count per client, used for card badges
+  const firingCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    alerts.forEach((alert) => {
+      if (alert.state === 'firing') {
+        counts.set(alert.clientId, (counts.get(alert.clientId) ?? 0) + 1);
+      }
+    });
+    return counts;
+  }, [alerts]);
+
+  return {
+    rules,
+    alerts,
+    firingCounts,
+    addRule,
+    toggleRule,
+    removeRule,
+    importRules,
+    exportRules,
+  };
+}
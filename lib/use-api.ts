@@ -1,10 +1,12 @@
 /**
  * React hooks for API client with error handling
+ * All reads go through the shared query cache, so hooks showing the same data share one
+ * request and cached data is shown straight away while it is revalidated
  */
 
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import {
   apiClient,
   ClientSummary,
@@ -13,6 +15,8 @@ import {
   HistoryQuery,
 } from './api-client';
 import { handleApiError, logError, UserFriendlyError } from './error-handler';
+import { CachedHistoryOptions, fetchCachedHistory, getHistoryCacheKey } from './history-cache';
+import { QueryKey, QuerySnapshot, hashQueryKey, queryCache, queryKeys } from './query-cache';
 
 /**
  * API state interface
@@ -24,29 +28,59 @@ interface ApiState<T> {
 }
 
 /**
- * Hook for fetching all clients
+ * State of the query a hook currently shows, kept in sync with the cache
+ * With `keepPreviousData`, the previous query's data stays visible while a new one loads
  */
-export function useAllClients() {
-  const [state, setState] = useState<ApiState<ClientSummary[]>>({
+function useQueryState<T>(keepPreviousData: boolean) {
+  const [key, setKey] = useState<QueryKey | null>(null);
+  const [state, setState] = useState<ApiState<T>>({
     data: null,
     loading: false,
     error: null,
   });
 
+  useEffect(() => {
+    if (!key) return;
+    return queryCache.subscribe<T>(key, (snapshot: QuerySnapshot<T>) => {
+      setState((prev) => ({
+        data: snapshot.data ?? (keepPreviousData ? prev.data : null),
+        loading: snapshot.fetching && snapshot.data === undefined,
+        error: snapshot.error && !snapshot.fetching ? handleApiError(snapshot.error) : null,
+      }));
+    });
+  }, [key, keepPreviousData]);
+
+  // Keep the current key object for an equal key, so the subscription is not renewed
+  const select = useCallback((next: QueryKey) => {
+    setKey((prev) => (prev && hashQueryKey(prev) === hashQueryKey(next) ? prev : next));
+  }, []);
+
+  const fail = useCallback((error: UserFriendlyError) => {
+    setKey(null);
+    setState({ data: null, loading: false, error });
+  }, []);
+
+  return { state, select, fail };
+}
+
+/**
+ * Hook for fetching all clients
+ */
+export function useAllClients() {
+  const { state, select } = useQueryState<ClientSummary[]>(false);
+
+  // Always revalidates; concurrent calls share one request
   const fetchClients = useCallback(async () => {
-    setState({ data: null, loading: true, error: null });
+    const key = queryKeys.clients();
+    select(key);
 
     try {
-      const clients = await apiClient.fetchAllClients();
-      setState({ data: clients, loading: false, error: null });
-      return clients;
+      return await queryCache.fetch(key, () => apiClient.fetchAllClients(), { force: true });
     } catch (error) {
-      const userError = handleApiError(error);
       logError(error, 'useAllClients');
-      setState({ data: null, loading: false, error: userError });
       throw error;
     }
-  }, []);
+  }, [select]);
 
   const retry = useCallback(() => {
     return fetchClients();
@@ -61,44 +95,43 @@ export function useAllClients() {
 
 /**
  * Hook for fetching client detail
+ * A cached detail, e.g. from the dashboard's batch prefetch, is shown while it revalidates
  */
 export function useClientDetail(clientId?: string) {
-  const [state, setState] = useState<ApiState<ClientDetail>>({
-    data: null,
-    loading: false,
-    error: null,
-  });
+  const lastIdRef = useRef(clientId);
+  const { state, select, fail } = useQueryState<ClientDetail>(false);
 
-  const fetchDetail = useCallback(
-    async (id?: string) => {
+  const load = useCallback(
+    async (id?: string, force = false) => {
       const targetId = id || clientId;
 
       if (!targetId) {
         const error = new Error('Client ID is required');
-        const userError = handleApiError(error);
-        setState({ data: null, loading: false, error: userError });
+        fail(handleApiError(error));
         return;
       }
 
-      setState({ data: null, loading: true, error: null });
+      lastIdRef.current = targetId;
+      const key = queryKeys.clientDetail(targetId);
+      select(key);
 
       try {
-        const detail = await apiClient.fetchClientDetail(targetId);
-        setState({ data: detail, loading: false, error: null });
-        return detail;
+        return await queryCache.fetch(key, () => apiClient.fetchClientDetail(targetId), {
+          force,
+        });
       } catch (error) {
-        const userError = handleApiError(error);
         logError(error, 'useClientDetail');
-        setState({ data: null, loading: false, error: userError });
         throw error;
       }
     },
-    [clientId]
+    [clientId, select, fail]
   );
 
+  const fetchDetail = useCallback((id?: string) => load(id), [load]);
+
   const retry = useCallback(() => {
-    return fetchDetail();
-  }, [fetchDetail]);
+    return load(lastIdRef.current, true);
+  }, [load]);
 
   return {
     ...state,
@@ -107,48 +140,109 @@ export function useClientDetail(clientId?: string) {
   };
 }
 
+/**
+ * Hook for the details of many clients, e.g. every visible card
+ * Details that are not cached are fetched in batches under the same keys as
+ * useClientDetail, so opening a client reuses them
+ */
+export function useClientDetails(clientIds: string[]): Map<string, ClientDetail> {
+  const [details, setDetails] = useState<Map<string, ClientDetail>>(new Map());
+  // Joined into a stable key so a new array with the same IDs does not refetch
+  const idsKey = clientIds.join(',');
+
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split(',') : [];
+    const keys = ids.map(queryKeys.clientDetail);
+
+    const prefetch = () => {
+      queryCache
+        .fetchMany(
+          keys,
+          (missing) => apiClient.fetchClientDetails(missing.map((key) => key[1] as string)),
+          (detail) => queryKeys.clientDetail(detail.clientId)
+        )
+        .catch(() => {
+          // Silently fail for prefetch
+        });
+    };
+
+    // Invalidated details are refetched here, in one batch
+    const unsubscribe = queryCache.subscribeMany(keys, () => {
+      const next = new Map<string, ClientDetail>();
+      let invalidated = false;
+      ids.forEach((id) => {
+        const snapshot = queryCache.getSnapshot<ClientDetail>(queryKeys.clientDetail(id));
+        if (snapshot.data) next.set(id, snapshot.data);
+        invalidated ||= snapshot.invalidated && !snapshot.fetching;
+      });
+      setDetails(next);
+      if (invalidated) prefetch();
+    });
+
+    prefetch();
+    return unsubscribe;
+  }, [idsKey]);
+
+  return details;
+}
+
+/**
+ * How long a chart's history counts as fresh; older windows are shown while they refetch
+ */
+const HISTORY_STALE_TIME = 30 * 1000;
+
+type HistoryFetchOptions = Pick<CachedHistoryOptions, 'relative'>;
+
 /**
  * Hook for fetching client history
+ * Pass `relative` for preset and relative ranges: they share a cache entry with the history
+ * cache's aligned keys, so reopening a range shows the cached data while it revalidates
  */
 export function useClientHistory(clientId?: string) {
-  const [state, setState] = useState<ApiState<DynamicSystemStatus[]>>({
-    data: null,
-    loading: false,
-    error: null,
-  });
-
-  const fetchHistory = useCallback(
-    async (id?: string, query?: HistoryQuery) => {
+  const lastRequestRef = useRef<{
+    id?: string;
+    query?: HistoryQuery;
+    options?: HistoryFetchOptions;
+  }>({ id: clientId });
+  // Keep existing data while loading a new range
+  const { state, select, fail } = useQueryState<DynamicSystemStatus[]>(true);
+
+  const load = useCallback(
+    async (id?: string, query?: HistoryQuery, options: HistoryFetchOptions = {}, force = false) => {
       const targetId = id || clientId;
 
       if (!targetId) {
         const error = new Error('Client ID is required');
-        const userError = handleApiError(error);
-        setState({ data: null, loading: false, error: userError });
+        fail(handleApiError(error));
         return;
       }
 
-      // Keep existing data while loading new data
-      setState(prev => ({ ...prev, loading: true, error: null }));
+      lastRequestRef.current = { id: targetId, query, options };
+      select(getHistoryCacheKey(targetId, query ?? {}, options.relative));
 
       try {
-        const history = await apiClient.fetchClientHistory(targetId, query);
-        setState({ data: history, loading: false, error: null });
-        return history;
+        return await fetchCachedHistory(targetId, query ?? {}, {
+          ...options,
+          staleTime: HISTORY_STALE_TIME,
+          force,
+        });
       } catch (error) {
-        const userError = handleApiError(error);
         logError(error, 'useClientHistory');
-        // Keep existing data on error
-        setState(prev => ({ ...prev, loading: false, error: userError }));
         throw error;
       }
     },
-    [clientId]
+    [clientId, select, fail]
+  );
+
+  const fetchHistory = useCallback(
+    (id?: string, query?: HistoryQuery, options?: HistoryFetchOptions) => load(id, query, options),
+    [load]
   );
 
   const retry = useCallback(() => {
-    return fetchHistory();
-  }, [fetchHistory]);
+    const { id, query, options } = lastRequestRef.current;
+    return load(id, query, options, true);
+  }, [load]);
 
   return {
     ...state,
@@ -0,0 +1,23 @@
+/**
+ * Hook for the health of federated backends
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BackendHealth, FederatedApiClient, apiClient } from './api-client';
+
+/**
+ * Health of each configured backend; empty unless several backends are federated
+ */
+export function useBackendHealth(): BackendHealth[] {
+  const [health, setHealth] = useState<BackendHealth[]>([]);
+
+  useEffect(() => {
+    if (!(apiClient instanceof FederatedApiClient)) return;
+    setHealth(apiClient.getBackendHealth());
+    return apiClient.subscribeToBackendHealth(setHealth);
+  }, []);
+
+  return health;
+}
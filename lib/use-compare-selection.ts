@@ -0,0 +1,81 @@
+/**
+ * Clients selected for comparison
+ * Shared by cards, table rows and the selection bar, and kept for the browser session
+ */
+
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { MAX_COMPARE_CLIENTS } from './compare';
+
+/**
+ * sessionStorage key for the comparison selection
+ */
+const COMPARE_SELECTION_STORAGE_KEY = 'system-monitor-compare-selection';
+
+const EMPTY_SELECTION: string[] = [];
+
+let selection: string[] | null = null;
+const listeners = new Set<() => void>();
+
+function getSelection(): string[] {
+  if (selection === null) {
+    try {
+      const stored = JSON.parse(sessionStorage.getItem(COMPARE_SELECTION_STORAGE_KEY) || '[]');
+      selection = Array.isArray(stored)
+        ? stored.filter((id): id is string => typeof id === 'string').slice(0, MAX_COMPARE_CLIENTS)
+        : [];
+    } catch {
+      selection = [];
+    }
+  }
+  return selection;
+}
+
+function setSelection(next: string[]): void {
+  selection = next;
+  try {
+    sessionStorage.setItem(COMPARE_SELECTION_STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // Selection still works for this page without storage
+  }
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Add or remove a client; returns false when the selection is already full
+ */
+export function toggleCompareClient(clientId: string): boolean {
+  const current = getSelection();
+  if (current.includes(clientId)) {
+    setSelection(current.filter((id) => id !== clientId));
+    return true;
+  }
+  if (current.length >= MAX_COMPARE_CLIENTS) return false;
+  setSelection([...current, clientId]);
+  return true;
+}
+
+export function clearCompareSelection(): void {
+  setSelection([]);
+}
+
+/**
+ * Hook for the selected client IDs, in selection order
+ */
+export function useCompareSelection(): string[] {
+  return useSyncExternalStore(subscribe, getSelection, () => EMPTY_SELECTION);
+}
+
+/**
+ * Hook for whether one client is selected; only re-renders when that answer changes
+ */
+export function useIsCompareSelected(clientId: string): boolean {
+  const getSnapshot = useCallback(() => getSelection().includes(clientId), [clientId]);
+  return useSyncExternalStore(subscribe, getSnapshot, () => false);
+}
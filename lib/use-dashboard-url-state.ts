@@ -0,0 +1,203 @@
+/**
+ * Hook for dashboard UI state stored in the URL
+ * e.g. ?view=group-tags&tags=prod,db&q=cpu>80&sort=cpu:desc,name&client=abc&metric=cpu&range=24h
+ * The heatmap view adds its metric and grouping, e.g. ?view=heatmap&heat=disk&group=platform
+ */
+
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { getRuntimeConfig } from './runtime-config';
+import { ViewMode, isViewMode } from './view-mode';
+import { ClientSort, formatSortParam, parseSortParam } from './client-sort';
+import {
+  DEFAULT_HEATMAP_GROUP,
+  DEFAULT_HEATMAP_METRIC,
+  HeatmapGroupBy,
+  HeatmapMetric,
+  isHeatmapGroupBy,
+  isHeatmapMetric,
+} from './heatmap';
+
+export type { ViewMode };
+
+const DEFAULT_METRIC = 'network';
+
+type ParamPatch = Record<string, string | null>;
+
+/**
+ * Link to the full page for a client, carrying over the open chart and time range
+ */
+export function getClientPageHref(
+  clientId: string,
+  metric?: string | null,
+  timeRange?: string
+): string {
+  const params = new URLSearchParams();
+  if (metric && metric !== DEFAULT_METRIC) params.set('metric', metric);
+  if (timeRange && timeRange !== getRuntimeConfig().defaultTimeRange) {
+    params.set('range', timeRange);
+  }
+
+  const query = params.toString();
+  return `/clients/${encodeURIComponent(clientId)}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Hook for URL-backed dashboard state
+ * Opening a client pushes a history entry so back/forward open and close the
+ * detail modal; every other change replaces the current entry.
+ */
+export function useDashboardUrlState() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const queryString = searchParams.toString();
+
+  // URL the modal was opened from, when this page pushed it, so closing can pop back to it
+  const openedFromRef = useRef<string | null>(null);
+
+  const state = useMemo(() => {
+    const params = new URLSearchParams(queryString);
+    const view = params.get('view');
+    const { defaultView, defaultTimeRange } = getRuntimeConfig();
+    const tags = params.get('tags');
+    const client = params.get('client');
+    const q = params.get('q');
+    const heat = params.get('heat');
+    const group = params.get('group');
+
+    return {
+      viewMode: isViewMode(view) ? view : defaultView,
+      selectedTags: tags ? tags.split(',').filter(Boolean) : [],
+      searchQuery: q || '',
+      sort: parseSortParam(params.get('sort')),
+      expandedClientId: client || null,
+      expandedMetric: client ? params.get('metric') || DEFAULT_METRIC : null,
+      timeRange: params.get('range') || defaultTimeRange,
+      heatmapMetric: isHeatmapMetric(heat) ? heat : DEFAULT_HEATMAP_METRIC,
+      heatmapGroupBy: isHeatmapGroupBy(group) ? group : DEFAULT_HEATMAP_GROUP,
+    };
+  }, [queryString]);
+
+  // Closed some other way, e.g. with the browser's back button
+  useEffect(() => {
+    if (!state.expandedClientId) openedFromRef.current = null;
+  }, [state.expandedClientId]);
+
+  const buildUrl = useCallback(
+    (patch: ParamPatch) => {
+      const params = new URLSearchParams(queryString);
+      Object.entries(patch).forEach(([key, value]) => {
+        if (value) {
+          params.set(key, value);
+        } else {
+          params.delete(key);
+        }
+      });
+
+      // Keep comma-separated lists readable in shared links
+      const query = params.toString().replace(/%2C/gi, ',');
+      return query ? `${pathname}?${query}` : pathname;
+    },
+    [pathname, queryString]
+  );
+
+  const replaceParams = useCallback(
+    (patch: ParamPatch) => {
+      router.replace(buildUrl(patch), { scroll: false });
+    },
+    [router, buildUrl]
+  );
+
+  const setViewMode = useCallback(
+    (viewMode: ViewMode) => {
+      replaceParams({ view: viewMode === getRuntimeConfig().defaultView ? null : viewMode });
+    },
+    [replaceParams]
+  );
+
+  const setSelectedTags = useCallback(
+    (tags: string[]) => {
+      replaceParams({ tags: tags.length > 0 ? tags.join(',') : null });
+    },
+    [replaceParams]
+  );
+
+  const setSearchQuery = useCallback(
+    (query: string) => {
+      replaceParams({ q: query.trim() ? query : null });
+    },
+    [replaceParams]
+  );
+
+  const setSort = useCallback(
+    (sort: ClientSort) => {
+      replaceParams({ sort: formatSortParam(sort) });
+    },
+    [replaceParams]
+  );
+
+  const setExpandedMetric = useCallback(
+    (metric: string) => {
+      replaceParams({ metric: metric === DEFAULT_METRIC ? null : metric });
+    },
+    [replaceParams]
+  );
+
+  const setTimeRange = useCallback(
+    (range: string) => {
+      replaceParams({ range: range === getRuntimeConfig().defaultTimeRange ? null : range });
+    },
+    [replaceParams]
+  );
+
+  const setHeatmapMetric = useCallback(
+    (metric: HeatmapMetric) => {
+      replaceParams({ heat: metric === DEFAULT_HEATMAP_METRIC ? null : metric });
+    },
+    [replaceParams]
+  );
+
+  const setHeatmapGroupBy = useCallback(
+    (groupBy: HeatmapGroupBy) => {
+      replaceParams({ group: groupBy === DEFAULT_HEATMAP_GROUP ? null : groupBy });
+    },
+    [replaceParams]
+  );
+
+  const openClient = useCallback(
+    (clientId: string) => {
+      openedFromRef.current = buildUrl({ client: null, metric: null });
+      router.push(buildUrl({ client: clientId, metric: null }), { scroll: false });
+    },
+    [router, buildUrl]
+  );
+
+  // Pops the pushed entry unless other params, e.g. the range, changed while the modal was
+  // open; going back would lose them, so the current entry is replaced instead
+  const closeClient = useCallback(() => {
+    const openedFrom = openedFromRef.current;
+    openedFromRef.current = null;
+    if (openedFrom !== null && openedFrom === buildUrl({ client: null, metric: null })) {
+      router.back();
+      return;
+    }
+    replaceParams({ client: null, metric: null });
+  }, [router, buildUrl, replaceParams]);
+
+  return {
+    ...state,
+    setViewMode,
+    setSelectedTags,
+    setSearchQuery,
+    setSort,
+    setExpandedMetric,
+    setTimeRange,
+    setHeatmapMetric,
+    setHeatmapGroupBy,
+    openClient,
+    closeClient,
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Hook for downsampled chart rows
+ * Work goes to a shared Web Worker so long ranges do not block the modal; where
+ * workers are unavailable it runs on the main thread instead
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  DownsampleMode,
+  DownsampleRequest,
+  DownsampledRow,
+  SeriesRow,
+  downsampleRows,
+} from './downsample';
+
+type PendingRequest = {
+  resolve: (rows: DownsampledRow[]) => void;
+  reject: (error: Error) => void;
+};
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 0;
+const pending = new Map<number, PendingRequest>();
+
+function getWorker(): Worker | null {
+  if (worker || workerFailed) return worker;
+  if (typeof Worker === 'undefined') {
+    workerFailed = true;
+    return null;
+  }
+
+  try {
+    worker = new Worker(new URL('./downsample.worker.ts', import.meta.url));
+  } catch {
+    workerFailed = true;
+    return null;
+  }
+
+  worker.onmessage = (
+    event: MessageEvent<{ id: number; rows?: DownsampledRow[]; error?: string }>
+  ) => {
+    const { id, rows, error } = event.data;
+    const request = pending.get(id);
+    if (!request) return;
+    pending.delete(id);
+    if (rows) request.resolve(rows);
+    else request.reject(new Error(error || 'Downsampling failed'));
+  };
+
+  // A broken worker fails its open requests; later requests run on the main thread
+  worker.onerror = () => {
+    workerFailed = true;
+    worker?.terminate();
+    worker = null;
+    pending.forEach((request) => request.reject(new Error('Downsampling worker failed')));
+    pending.clear();
+  };
+
+  return worker;
+}
+
+function runDownsample(request: DownsampleRequest): Promise<DownsampledRow[]> {
+  const target = getWorker();
+  if (!target) {
+    return Promise.resolve(downsampleRows(request));
+  }
+
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    target.postMessage({ id, request });
+  });
+}
+
+interface DownsampleResult {
+  source: SeriesRow[];
+  mode: DownsampleMode;
+  targetPoints: number;
+  rows: DownsampledRow[];
+}
+
+/**
+ * Hook for rows reduced to about targetPoints per series
+ * While a new result is computed the previous one stays on screen and `pending` is set
+ */
+export function useDownsampledRows(
+  rows: SeriesRow[],
+  keys: string[],
+  mode: DownsampleMode,
+  targetPoints: number
+): { rows: DownsampledRow[]; pending: boolean } {
+  const [result, setResult] = useState<DownsampleResult | null>(null);
+  const needsWork = mode !== 'lttb' || rows.length > targetPoints;
+  const keyList = keys.join(',');
+
+  useEffect(() => {
+    if (!needsWork) return;
+
+    let cancelled = false;
+    const request = { rows, keys: keyList.split(','), mode, targetPoints };
+    runDownsample(request)
+      .catch(() => downsampleRows(request))
+      // The fallback can throw too, e.g. on malformed rows; show the rows as they are
+      .catch((): DownsampledRow[] => rows)
+      .then((downsampled) => {
+        if (!cancelled) {
+          setResult({ source: rows, mode, targetPoints, rows: downsampled });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rows, keyList, mode, targetPoints, needsWork]);
+
+  if (!needsWork) {
+    return { rows, pending: false };
+  }
+
+  const isCurrent =
+    result !== null &&
+    result.source === rows &&
+    result.mode === mode &&
+    result.targetPoints === targetPoints;
+
+  return { rows: result?.rows ?? [], pending: !isCurrent };
+}
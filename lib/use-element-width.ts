@@ -0,0 +1,27 @@
+/**
+ * Hook for the width of an element, tracked with ResizeObserver
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+
+/**
+ * Returns a callback ref, the element's width and the element itself
+ * A callback ref, since charts often mount their container only once there is data
+ */
+export function useElementWidth<T extends HTMLElement>() {
+  const [element, setElement] = useState<T | null>(null);
+  const [width, setWidth] = useState(0);
+
+  useEffect(() => {
+    if (!element) return;
+
+    setWidth(element.clientWidth);
+    const observer = new ResizeObserver(([entry]) => setWidth(Math.round(entry.contentRect.width)));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [element]);
+
+  return [setElement, width, element] as const;
+}
@@ -6,16 +6,37 @@
 'use client';
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { apiClient, ClientSummary } from './api-client';
+import {
+  apiClient,
+  ClientSummary,
+  DynamicSystemStatus,
+  StatusStreamMessage,
+  StreamState,
+  StreamTransport,
+} from './api-client';
 import { handleApiError, logError, UserFriendlyError } from './error-handler';
+import { queryCache, queryKeys } from './query-cache';
+
+/**
+ * How often buffered stream messages are applied to state
+ */
+const STREAM_FLUSH_INTERVAL_MS = 500;
 
 interface IncrementalState {
   clients: Map<string, ClientSummary>;
+  liveStatus: Map<string, Partial<DynamicSystemStatus>>;
   loading: boolean;
   error: UserFriendlyError | null;
   lastUpdate: number;
 }
 
+interface IncrementalClientsOptions {
+  /**
+   * Subscribe to the live status stream in addition to manual fetches
+   */
+  live?: boolean;
+}
+
 /**
  * Compare two client objects to detect changes
  */
@@ -30,17 +51,138 @@ function hasClientChanged(oldClient: ClientSummary, newClient: ClientSummary): b
   );
 }
 
+/**
+ * Merge a full client list into the existing Map, recording changed IDs
+ */
+function mergeClients(
+  previous: Map<string, ClientSummary>,
+  newClients: ClientSummary[],
+  changedIds: Set<string>
+): Map<string, ClientSummary> {
+  const updatedClients = new Map<string, ClientSummary>();
+  const newIds = new Set(newClients.map((c) => c.clientId));
+
+  // Sort clients by priority (lower number = higher priority)
+  [...newClients]
+    .sort((a, b) => a.priority - b.priority)
+    .forEach((newClient) => {
+      const existingClient = previous.get(newClient.clientId);
+      updatedClients.set(newClient.clientId, newClient);
+
+      if (!existingClient || hasClientChanged(existingClient, newClient)) {
+        changedIds.add(newClient.clientId);
+      }
+    });
+
+  // Remove clients that no longer exist
+  previous.forEach((_, id) => {
+    if (!newIds.has(id)) {
+      changedIds.add(id);
+    }
+  });
+
+  return updatedClients;
+}
+
+/**
+ * Drop live status of clients that are no longer listed
+ * Returns the same Map when nothing was dropped
+ */
+function pruneLiveStatus(
+  liveStatus: Map<string, Partial<DynamicSystemStatus>>,
+  clients: Map<string, ClientSummary>
+): Map<string, Partial<DynamicSystemStatus>> {
+  const staleIds = Array.from(liveStatus.keys()).filter((id) => !clients.has(id));
+  if (staleIds.length === 0) return liveStatus;
+
+  const pruned = new Map(liveStatus);
+  staleIds.forEach((id) => pruned.delete(id));
+  return pruned;
+}
+
+/**
+ * Apply buffered stream messages to the current state
+ */
+function applyStreamMessages(
+  prev: IncrementalState,
+  messages: StatusStreamMessage[],
+  changedIds: Set<string>
+): IncrementalState {
+  let clients = prev.clients;
+  let liveStatus = new Map(prev.liveStatus);
+
+  messages.forEach((message) => {
+    switch (message.type) {
+      case 'snapshot':
+        clients = mergeClients(clients, message.clients, changedIds);
+        liveStatus = pruneLiveStatus(liveStatus, clients);
+        break;
+      case 'client':
+        clients = mergeClients(
+          clients,
+          [
+            ...Array.from(clients.values()).filter((c) => c.clientId !== message.client.clientId),
+            message.client,
+          ],
+          changedIds
+        );
+        break;
+      case 'removed':
+        if (clients.has(message.clientId)) {
+          clients = new Map(clients);
+          clients.delete(message.clientId);
+          changedIds.add(message.clientId);
+        }
+        liveStatus.delete(message.clientId);
+        break;
+      case 'status': {
+        // Kept even before the client or its detail has loaded, so it applies once they do
+        liveStatus.set(message.clientId, {
+          ...liveStatus.get(message.clientId),
+          ...message.status,
+        });
+
+        const existing = clients.get(message.clientId);
+        if (!existing) break;
+
+        // Bump lastUpdate so offline detection and memoized cards see the change
+        const timestamp = message.status.timestamp;
+        if (timestamp && timestamp > existing.lastUpdate) {
+          clients = new Map(clients);
+          clients.set(message.clientId, { ...existing, lastUpdate: timestamp });
+        }
+        changedIds.add(message.clientId);
+        break;
+      }
+    }
+  });
+
+  return {
+    ...prev,
+    clients,
+    liveStatus,
+    loading: false,
+    lastUpdate: Date.now(),
+  };
+}
+
 /**
  * Hook for incremental client updates
- * Maintains a Map of clients and only updates changed entries
+ * Maintains a Map of clients and only updates changed entries.
+ * With `live` enabled, per-client status deltas from the status stream are
+ * merged in as they arrive.
  */
-export function useIncrementalClients() {
+export function useIncrementalClients(options: IncrementalClientsOptions = {}) {
+  const { live = false } = options;
   const [state, setState] = useState<IncrementalState>({
     clients: new Map(),
+    liveStatus: new Map(),
     loading: false,
     error: null,
     lastUpdate: 0,
   });
+  const [streamState, setStreamState] = useState<StreamState>('closed');
+  const [streamTransport, setStreamTransport] = useState<StreamTransport | null>(null);
 
   // Track which clients have changed for efficient updates
   const changedClientsRef = useRef<Set<string>>(new Set());
@@ -57,61 +199,93 @@ export function useIncrementalClients() {
     });
 
     try {
-      // Fetch clients and sort by priority
-      let newClients = await apiClient.fetchAllClients();
-      // Sort clients by priority (lower number = higher priority)
-      newClients = newClients.sort((a, b) => a.priority - b.priority);
-      const now = Date.now();
+      // The result is merged by the cache subscription below
+      return await queryCache.fetch(queryKeys.clients(), () => apiClient.fetchAllClients(), {
+        force: true,
+      });
+    } catch (error) {
+      const userError = handleApiError(error);
+      logError(error, 'useIncrementalClients');
+
+      setState((prev) => ({
+        ...prev,
+        loading: false,
+        error: userError,
+      }));
+
+      throw error;
+    }
+  }, []); // Remove state.clients dependency to prevent infinite loops
+
+  // Client lists fetched through the shared cache, by this hook or any other, are merged in
+  useEffect(() => {
+    let merged: ClientSummary[] | undefined;
+
+    return queryCache.subscribe<ClientSummary[]>(queryKeys.clients(), (snapshot) => {
+      if (!snapshot.data || snapshot.data === merged) return;
+      const newClients = snapshot.data;
+      merged = newClients;
 
       setState((prev) => {
-        const updatedClients = new Map();
         const changedIds = new Set<string>();
-        const existingIds = new Set(prev.clients.keys());
-        const newIds = new Set(newClients.map((c) => c.clientId));
-
-        // Add/update clients in sorted order
-        newClients.forEach((newClient) => {
-          const existingClient = prev.clients.get(newClient.clientId);
-          updatedClients.set(newClient.clientId, newClient);
-          
-          if (!existingClient || hasClientChanged(existingClient, newClient)) {
-            changedIds.add(newClient.clientId);
-          }
-        });
-
-        // Remove clients that no longer exist
-        existingIds.forEach((id) => {
-          if (!newIds.has(id)) {
-            changedIds.add(id);
-          }
-        });
+        const updatedClients = mergeClients(prev.clients, newClients, changedIds);
 
         // Store changed IDs for potential use
         changedClientsRef.current = changedIds;
 
         return {
+          ...prev,
           clients: updatedClients,
+          liveStatus: pruneLiveStatus(prev.liveStatus, updatedClients),
           loading: false,
           error: null,
-          lastUpdate: now,
+          lastUpdate: snapshot.updatedAt,
         };
       });
+    });
+  }, []);
 
-      // Return current clients from state (will be updated after setState)
-      return newClients;
-    } catch (error) {
-      const userError = handleApiError(error);
-      logError(error, 'useIncrementalClients');
+  // Live status stream - messages are buffered and flushed in batches so a
+  // busy fleet does not re-render the dashboard on every delta
+  useEffect(() => {
+    if (!live) return;
 
-      setState((prev) => ({
-        ...prev,
-        loading: false,
-        error: userError,
-      }));
+    let buffer: StatusStreamMessage[] = [];
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
 
-      throw error;
-    }
-  }, []); // Remove state.clients dependency to prevent infinite loops
+    const flush = () => {
+      flushTimer = null;
+      const messages = buffer;
+      buffer = [];
+
+      setState((prev) => {
+        const changedIds = new Set<string>();
+        const next = applyStreamMessages(prev, messages, changedIds);
+        changedClientsRef.current = changedIds;
+        return { ...next, error: null };
+      });
+    };
+
+    const subscription = apiClient.subscribeToStatus({
+      onMessage: (message) => {
+        buffer.push(message);
+        if (flushTimer === null) {
+          flushTimer = setTimeout(flush, STREAM_FLUSH_INTERVAL_MS);
+        }
+      },
+      onStateChange: (nextState, transport) => {
+        setStreamState(nextState);
+        setStreamTransport(transport);
+      },
+    });
+
+    return () => {
+      if (flushTimer !== null) {
+        clearTimeout(flushTimer);
+      }
+      subscription.close();
+    };
+  }, [live]);
 
   const retry = useCallback(() => {
     return fetchClients();
@@ -122,10 +296,13 @@ export function useIncrementalClients() {
 
   return {
     data: clientsArray,
+    liveStatus: state.liveStatus,
     loading: state.loading,
     error: state.error,
     lastUpdate: state.lastUpdate,
     changedClients: changedClientsRef.current,
+    streamState,
+    streamTransport,
     fetchClients,
     retry,
   };
@@ -0,0 +1,257 @@
+/**
+ * Hook for opt-in desktop notifications and audio cues on state transitions
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ClientSummary } from './api-client';
+import { AlertInstance, AlertRule, formatRule } from './alert-rules';
+import { getRuntimeConfig } from './runtime-config';
+
+/**
+ * localStorage key for notification settings
+ */
+const NOTIFICATION_SETTINGS_STORAGE_KEY = 'system-monitor-notifications';
+
+/**
+ * Maximum notifications shown per minute, further events are summarized
+ */
+const MAX_NOTIFICATIONS_PER_MINUTE = 5;
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // HH:mm
+  end: string; // HH:mm
+}
+
+export interface NotificationSettings {
+  enabled: boolean;
+  sound: boolean;
+  throttleMs: number;
+  quietHours: QuietHours;
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: false,
+  sound: false,
+  throttleMs: 5 * 60 * 1000,
+  quietHours: { enabled: false, start: '22:00', end: '07:00' },
+};
+
+/**
+ * Load persisted settings merged over defaults
+ */
+function loadSettings(): NotificationSettings {
+  try {
+    const stored = localStorage.getItem(NOTIFICATION_SETTINGS_STORAGE_KEY);
+    if (!stored) return DEFAULT_NOTIFICATION_SETTINGS;
+    const parsed = JSON.parse(stored);
+    return {
+      ...DEFAULT_NOTIFICATION_SETTINGS,
+      ...parsed,
+      quietHours: { ...DEFAULT_NOTIFICATION_SETTINGS.quietHours, ...parsed.quietHours },
+    };
+  } catch {
+    return DEFAULT_NOTIFICATION_SETTINGS;
+  }
+}
+
+/**
+ * Convert "HH:mm" to minutes since midnight
+ */
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/**
+ * Check whether a moment falls inside quiet hours (ranges may wrap past midnight)
+ */
+export function isWithinQuietHours(quietHours: QuietHours, date: Date = new Date()): boolean {
+  if (!quietHours.enabled) return false;
+
+  const now = date.getHours() * 60 + date.getMinutes();
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+
+  if (start === end) return false;
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/**
+ * Play a short two-tone cue with the Web Audio API
+ */
+function playAlertSound(): void {
+  const AudioContextClass =
+    window.AudioContext ||
+    (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioContextClass) return;
+
+  const context = new AudioContextClass();
+  const gain = context.createGain();
+  gain.connect(context.destination);
+  gain.gain.setValueAtTime(0.15, context.currentTime);
+  gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + 0.6);
+
+  [880, 660].forEach((frequency, i) => {
+    const oscillator = context.createOscillator();
+    oscillator.frequency.value = frequency;
+    oscillator.connect(gain);
+    oscillator.start(context.currentTime + i * 0.2);
+    oscillator.stop(context.currentTime + i * 0.2 + 0.2);
+  });
+
+  setTimeout(() => context.close(), 1000);
+}
+
+interface NotificationEvent {
+  key: string;
+  title: string;
+  body: string;
+}
+
+/**
+ * Hook for desktop notifications
+ * Watches clients for online → offline transitions and alerts for new firings
+ */
+export function useNotifications(
+  clients: ClientSummary[],
+  alerts: AlertInstance[],
+  rules: AlertRule[]
+) {
+  const [settings, setSettings] = useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS);
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>('default');
+  const [loaded, setLoaded] = useState(false);
+
+  const previousStatusRef = useRef<Map<string, ClientSummary['status']> | null>(null);
+  const previousFiringRef = useRef<Set<string> | null>(null);
+  const lastSentRef = useRef<Map<string, number>>(new Map());
+  const recentSendsRef = useRef<number[]>([]);
+
+  useEffect(() => {
+    setSettings(loadSettings());
+    setPermission(typeof Notification === 'undefined' ? 'unsupported' : Notification.permission);
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    localStorage.setItem(NOTIFICATION_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }, [settings, loaded]);
+
+  const updateSettings = useCallback((patch: Partial<NotificationSettings>) => {
+    setSettings((prev) => ({ ...prev, ...patch }));
+  }, []);
+
+  /**
+   * Ask for browser permission, enabling notifications when granted
+   */
+  const requestPermission = useCallback(async () => {
+    if (typeof Notification === 'undefined') {
+      setPermission('unsupported');
+      return false;
+    }
+
+    const result = await Notification.requestPermission();
+    setPermission(result);
+    if (result === 'granted') {
+      setSettings((prev) => ({ ...prev, enabled: true }));
+    }
+    return result === 'granted';
+  }, []);
+
+  /**
+   * Deliver events, applying quiet hours, per-event throttling and a per-minute cap
+   */
+  const deliver = useCallback(
+    (events: NotificationEvent[]) => {
+      if (events.length === 0 || (!settings.enabled && !settings.sound)) return;
+      if (isWithinQuietHours(settings.quietHours)) return;
+
+      const now = Date.now();
+      const fresh = events.filter((event) => {
+        const lastSent = lastSentRef.current.get(event.key);
+        return lastSent === undefined || now - lastSent >= settings.throttleMs;
+      });
+      if (fresh.length === 0) return;
+
+      fresh.forEach((event) => lastSentRef.current.set(event.key, now));
+      recentSendsRef.current = recentSendsRef.current.filter((t) => now - t < 60 * 1000);
+
+      if (settings.sound) {
+        playAlertSound();
+      }
+
+      if (!settings.enabled || permission !== 'granted') return;
+
+      const budget = Math.max(0, MAX_NOTIFICATIONS_PER_MINUTE - recentSendsRef.current.length);
+      const shown = fresh.slice(0, budget);
+      const overflow = fresh.length - shown.length;
+
+      shown.forEach((event) => {
+        new Notification(event.title, { body: event.body, tag: event.key });
+        recentSendsRef.current.push(now);
+      });
+
+      if (overflow > 0 && budget > 0) {
+        new Notification(getRuntimeConfig().branding.title, {
+          body: `${overflow} more event(s) - open the dashboard for details`,
+          tag: 'overflow',
+        });
+      }
+    },
+    [settings, permission]
+  );
+
+  // Online or stale → offline transitions
+  useEffect(() => {
+    const current = new Map(clients.map((c) => [c.clientId, c.status]));
+    const previous = previousStatusRef.current;
+    previousStatusRef.current = current;
+    if (!previous) return;
+
+    const events: NotificationEvent[] = [];
+    clients.forEach((client) => {
+      const previousStatus = previous.get(client.clientId);
+      if (previousStatus && previousStatus !== 'offline' && client.status === 'offline') {
+        events.push({
+          key: `offline:${client.clientId}`,
+          title: `${client.clientName} is offline`,
+          body: `No report since ${new Date(client.lastUpdate).toLocaleTimeString('en-US')}`,
+        });
+      }
+    });
+    deliver(events);
+  }, [clients, deliver]);
+
+  // Newly firing alerts
+  useEffect(() => {
+    const firing = alerts.filter((a) => a.state === 'firing');
+    const current = new Set(firing.map((a) => a.key));
+    const previous = previousFiringRef.current;
+    previousFiringRef.current = current;
+    if (!previous) return;
+
+    const rulesById = new Map(rules.map((r) => [r.id, r]));
+    deliver(
+      firing
+        .filter((alert) => !previous.has(alert.key))
+        .map((alert) => {
+          const rule = rulesById.get(alert.ruleId);
+          return {
+            key: `alert:${alert.key}`,
+            title: `Alert: ${alert.clientName}`,
+            body: rule ? formatRule(rule) : 'Alert rule firing',
+          };
+        })
+    );
+  }, [alerts, rules, deliver]);
+
+  return {
+    settings,
+    permission,
+    updateSettings,
+    requestPermission,
+  };
+}
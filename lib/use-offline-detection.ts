@@ -0,0 +1,141 @@
+/**
+ * Hook for offline detection settings persisted in localStorage
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  ClientDetectionOverride,
+  OfflineDetectionSettings,
+  OfflineThresholds,
+  StatusSource,
+  parseOfflineDetectionSettings,
+} from './offline-detection';
+import { getDefaultOfflineDetection } from './runtime-config';
+
+/**
+ * localStorage key for offline detection settings
+ */
+const OFFLINE_DETECTION_STORAGE_KEY = 'system-monitor-offline-detection';
+
+/**
+ * How often statuses are re-evaluated, so clients that stop reporting turn stale
+ * and offline even when nothing else changes
+ */
+const DETECTION_TICK_MS = 15 * 1000;
+
+function loadSettings(defaults: OfflineDetectionSettings): OfflineDetectionSettings {
+  try {
+    const stored = localStorage.getItem(OFFLINE_DETECTION_STORAGE_KEY);
+    return stored ? parseOfflineDetectionSettings(JSON.parse(stored), defaults) : defaults;
+  } catch {
+    return defaults;
+  }
+}
+
+/**
+ * Only settings that differ from the defaults are stored, so untouched ones follow the
+ * configured defaults when those change
+ */
+function saveSettings(settings: OfflineDetectionSettings, defaults: OfflineDetectionSettings) {
+  const changed = Object.entries(settings).filter(
+    ([key, value]) =>
+      JSON.stringify(value) !== JSON.stringify(defaults[key as keyof OfflineDetectionSettings])
+  );
+  if (changed.length === 0) {
+    localStorage.removeItem(OFFLINE_DETECTION_STORAGE_KEY);
+  } else {
+    localStorage.setItem(
+      OFFLINE_DETECTION_STORAGE_KEY,
+      JSON.stringify(Object.fromEntries(changed))
+    );
+  }
+}
+
+/**
+ * Drop undefined fields; an empty override is removed entirely
+ */
+function compact<T extends object>(value: T): T | null {
+  const entries = Object.entries(value).filter(([, entry]) => entry !== undefined);
+  return entries.length > 0 ? (Object.fromEntries(entries) as T) : null;
+}
+
+function setEntry<T>(record: Record<string, T>, key: string, value: T | null): Record<string, T> {
+  const next = { ...record };
+  if (value === null) {
+    delete next[key];
+  } else {
+    next[key] = value;
+  }
+  return next;
+}
+
+/**
+ * Hook for offline detection
+ * Returns the settings with their setters, and the current time, which advances on a
+ * fixed tick for re-evaluating statuses
+ */
+export function useOfflineDetection() {
+  // Defaults come from the runtime configuration, which is loaded before the app renders
+  const [defaults] = useState(getDefaultOfflineDetection);
+  const [settings, setSettings] = useState<OfflineDetectionSettings>(defaults);
+  const [loaded, setLoaded] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setSettings(loadSettings(defaults));
+    setLoaded(true);
+  }, [defaults]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    saveSettings(settings, defaults);
+  }, [settings, defaults, loaded]);
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), DETECTION_TICK_MS);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const updateDefaults = useCallback(
+    (patch: Partial<OfflineThresholds> & { source?: StatusSource }) => {
+      setSettings((prev) => ({ ...prev, ...patch }));
+    },
+    []
+  );
+
+  /**
+   * Set or, with null, remove a tag's threshold override
+   */
+  const setTagOverride = useCallback((tag: string, override: Partial<OfflineThresholds> | null) => {
+    setSettings((prev) => ({
+      ...prev,
+      tags: setEntry(prev.tags, tag, override && compact(override)),
+    }));
+  }, []);
+
+  /**
+   * Set or, with null, remove a client's override
+   */
+  const setClientOverride = useCallback(
+    (clientId: string, override: ClientDetectionOverride | null) => {
+      setSettings((prev) => ({
+        ...prev,
+        clients: setEntry(prev.clients, clientId, override && compact(override)),
+      }));
+    },
+    []
+  );
+
+  const resetSettings = useCallback(() => setSettings(defaults), [defaults]);
+
+  return {
+    settings,
+    now,
+    updateDefaults,
+    setTagOverride,
+    setClientOverride,
+    resetSettings,
+  };
+}
@@ -0,0 +1,29 @@
+/**
+ * Hook for the schema drift log
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  SchemaDriftEntry,
+  clearSchemaDrift,
+  getSchemaDrift,
+  subscribeToSchemaDrift,
+} from './schema';
+
+/**
+ * Mismatches between API responses and the expected schema, most recent first
+ */
+export function useSchemaDrift() {
+  const [entries, setEntries] = useState<SchemaDriftEntry[]>([]);
+
+  useEffect(() => {
+    setEntries(getSchemaDrift());
+    return subscribeToSchemaDrift(setEntries);
+  }, []);
+
+  const clear = useCallback(() => clearSchemaDrift(), []);
+
+  return { entries, clear };
+}
@@ -0,0 +1,110 @@
+/**
+ * Hook for the table view's column order, visibility and widths
+ * Persisted to localStorage so the layout survives reloads (e.g. on a NOC wall)
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * localStorage key for the table column layout
+ */
+const TABLE_LAYOUT_STORAGE_KEY = 'system-monitor-table-columns';
+
+export interface TableLayout<ColumnId extends string> {
+  order: ColumnId[];
+  hidden: ColumnId[];
+  widths: Partial<Record<ColumnId, number>>;
+}
+
+/**
+ * Merge a stored layout with the current column set
+ * Unknown columns are dropped and new ones appended, so adding a column never breaks saved layouts
+ */
+function normalizeLayout<ColumnId extends string>(
+  stored: Partial<TableLayout<string>> | null,
+  columns: ColumnId[]
+): TableLayout<ColumnId> {
+  const known = new Set<string>(columns);
+  const order = (stored?.order ?? []).filter((id): id is ColumnId => known.has(id));
+  columns.forEach((id) => {
+    if (!order.includes(id)) order.push(id);
+  });
+
+  const widths: Partial<Record<ColumnId, number>> = {};
+  Object.entries(stored?.widths ?? {}).forEach(([id, width]) => {
+    if (known.has(id) && typeof width === 'number' && Number.isFinite(width)) {
+      widths[id as ColumnId] = width;
+    }
+  });
+
+  return {
+    order,
+    hidden: (stored?.hidden ?? []).filter((id): id is ColumnId => known.has(id)),
+    widths,
+  };
+}
+
+/**
+ * Hook for a persisted table column layout
+ */
+export function useTableLayout<ColumnId extends string>(columns: ColumnId[]) {
+  // Columns are a static definition list
+  const columnsRef = useRef(columns);
+  const [layout, setLayout] = useState<TableLayout<ColumnId>>(() => normalizeLayout(null, columns));
+  const [loaded, setLoaded] = useState(false);
+
+  // Load after mount to keep server and client markup identical
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(TABLE_LAYOUT_STORAGE_KEY);
+      setLayout(normalizeLayout(stored ? JSON.parse(stored) : null, columnsRef.current));
+    } catch {
+      // Ignore corrupt layout, defaults are already set
+    }
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    localStorage.setItem(TABLE_LAYOUT_STORAGE_KEY, JSON.stringify(layout));
+  }, [layout, loaded]);
+
+  const setColumnWidth = useCallback((id: ColumnId, width: number) => {
+    setLayout((prev) => ({ ...prev, widths: { ...prev.widths, [id]: Math.round(width) } }));
+  }, []);
+
+  const toggleColumn = useCallback((id: ColumnId) => {
+    setLayout((prev) => ({
+      ...prev,
+      hidden: prev.hidden.includes(id) ? prev.hidden.filter((h) => h !== id) : [...prev.hidden, id],
+    }));
+  }, []);
+
+  /**
+   * Move a column to the position of another
+   */
+  const moveColumn = useCallback((id: ColumnId, targetId: ColumnId) => {
+    if (id === targetId) return;
+    setLayout((prev) => {
+      // Dropping onto a later column places it after that column, onto an earlier one before
+      const movingRight = prev.order.indexOf(id) < prev.order.indexOf(targetId);
+      const order = prev.order.filter((o) => o !== id);
+      order.splice(order.indexOf(targetId) + (movingRight ? 1 : 0), 0, id);
+      return { ...prev, order };
+    });
+  }, []);
+
+  const resetLayout = useCallback(() => {
+    setLayout(normalizeLayout(null, columnsRef.current));
+  }, []);
+
+  return {
+    layout,
+    setColumnWidth,
+    toggleColumn,
+    moveColumn,
+    resetLayout,
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Hook for zooming and panning a history time range
+ * Each zoom or pan remembers the range it replaced so it can be undone step by step
+ */
+
+'use client';
+
+import { useCallback, useState } from 'react';
+import { MIN_TIME_RANGE_MS, formatAbsoluteRange, panTimeRange } from './time-range';
+
+export function useZoomStack(timeRange: string, onTimeRangeChange: (range: string) => void) {
+  // Ranges replaced by zooming or panning, oldest first
+  const [stack, setStack] = useState<string[]>([]);
+
+  /**
+   * Zoom into a window; very short selections are widened around their center
+   */
+  const zoomTo = useCallback(
+    (startTime: number, endTime: number) => {
+      let start = startTime;
+      let end = endTime;
+      if (end - start < MIN_TIME_RANGE_MS) {
+        const center = (start + end) / 2;
+        start = center - MIN_TIME_RANGE_MS / 2;
+        end = center + MIN_TIME_RANGE_MS / 2;
+      }
+      setStack((prev) => [...prev, timeRange]);
+      onTimeRangeChange(formatAbsoluteRange(start, end));
+    },
+    [timeRange, onTimeRangeChange]
+  );
+
+  /**
+   * Shift the window by half its length; the first pan is remembered like a zoom
+   */
+  const pan = useCallback(
+    (direction: -1 | 1) => {
+      const next = panTimeRange(timeRange, direction);
+      if (next === timeRange) return;
+      setStack((prev) => (prev.length === 0 ? [timeRange] : prev));
+      onTimeRangeChange(next);
+    },
+    [timeRange, onTimeRangeChange]
+  );
+
+  const zoomOut = useCallback(() => {
+    if (stack.length === 0) return;
+    setStack(stack.slice(0, -1));
+    onTimeRangeChange(stack[stack.length - 1]);
+  }, [stack, onTimeRangeChange]);
+
+  const resetZoom = useCallback(() => {
+    if (stack.length === 0) return;
+    setStack([]);
+    onTimeRangeChange(stack[0]);
+  }, [stack, onTimeRangeChange]);
+
+  /**
+   * Pick a new range from the selector, forgetting the zoom history
+   */
+  const selectRange = useCallback(
+    (range: string) => {
+      setStack([]);
+      onTimeRangeChange(range);
+    },
+    [onTimeRangeChange]
+  );
+
+  return {
+    isZoomed: stack.length > 0,
+    zoomDepth: stack.length,
+    zoomTo,
+    pan,
+    zoomOut,
+    resetZoom,
+    selectRange,
+  };
+}
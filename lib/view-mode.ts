@@ -0,0 +1,27 @@
+/**
+ * Dashboard view modes
+ * Kept apart from the URL state hook so server code can validate configured defaults
+ */
+
+export type ViewMode =
+  | 'grid'
+  | 'table'
+  | 'group-tags'
+  | 'group-purpose'
+  | 'group-platform'
+  | 'group-backend'
+  | 'heatmap';
+
+export const VIEW_MODES: ViewMode[] = [
+  'grid',
+  'table',
+  'group-tags',
+  'group-purpose',
+  'group-platform',
+  'group-backend',
+  'heatmap',
+];
+
+export function isViewMode(value: unknown): value is ViewMode {
+  return VIEW_MODES.includes(value as ViewMode);
+}
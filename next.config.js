@@ -7,6 +7,7 @@ const path = require('path');
 function loadConfig() {
   const configPath = path.join(process.cwd(), 'config.json');
   let apiUrl = 'http://localhost:7788'; // Default API URL
+  let backends = null;
 
   if (fs.existsSync(configPath)) {
     try {
@@ -15,12 +16,15 @@ function loadConfig() {
       if (config.apiUrl) {
         apiUrl = config.apiUrl;
       }
+      if (Array.isArray(config.backends)) {
+        backends = config.backends;
+      }
     } catch (error) {
       console.warn('Failed to load config.json, using defaults:', error.message);
     }
   }
 
-  return { apiUrl };
+  return { apiUrl, backends };
 }
 
 const config = loadConfig();
@@ -30,6 +34,10 @@ const nextConfig = {
   reactStrictMode: true,
   env: {
     NEXT_PUBLIC_API_URL: process.env.NEXT_PUBLIC_API_URL || config.apiUrl,
+    // Named backends, merged into one dashboard when there are several
+    NEXT_PUBLIC_API_BACKENDS:
+      process.env.NEXT_PUBLIC_API_BACKENDS ||
+      (config.backends ? JSON.stringify(config.backends) : ''),
   },
 }
 
@@ -0,0 +1,359 @@
+const http = require('http');
+const crypto = require('crypto');
+
+/**
+ * Local mock backend for development
+ * Serves the REST endpoints and pushes live status deltas over WebSocket and SSE
+ *
+ * Usage: node scripts/mock-server.js [--port 7788] [--clients 20] [--interval 2000]
+ *   [--no-ws] [--no-sse] [--no-batch] [--no-samples]
+ */
+function parseArgs(argv) {
+  const args = {
+    port: 7788,
+    clients: 20,
+    interval: 2000,
+    ws: true,
+    sse: true,
+    batch: true,
+    samples: true,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--port') args.port = Number(argv[++i]);
+    else if (arg === '--clients') args.clients = Number(argv[++i]);
+    else if (arg === '--interval') args.interval = Number(argv[++i]);
+    else if (arg === '--no-ws') args.ws = false;
+    else if (arg === '--no-sse') args.sse = false;
+    else if (arg === '--no-batch') args.batch = false;
+    else if (arg === '--no-samples') args.samples = false;
+  }
+
+  return args;
+}
+
+const options = parseArgs(process.argv.slice(2));
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const GB = 1024 ** 3;
+const PLATFORMS = ['linux', 'windows', 'darwin'];
+const TAGS = ['prod', 'staging', 'db', 'web', 'cache'];
+
+/**
+ * Random value within range
+ */
+function random(min, max) {
+  return min + Math.random() * (max - min);
+}
+
+/**
+ * Random walk bounded to 0-100
+ */
+function drift(value, step) {
+  return Math.min(100, Math.max(0, value + random(-step, step)));
+}
+
+/**
+ * Build the fake fleet
+ */
+function createClients(count) {
+  const now = Date.now();
+
+  return Array.from({ length: count }, (_, i) => {
+    const id = `mock-${String(i + 1).padStart(3, '0')}`;
+    const platform = PLATFORMS[i % PLATFORMS.length];
+    const disks = [
+      { device: '/dev/sda1', size: 512 * GB, type: 'SSD', interfaceType: 'NVMe' },
+      ...(i % 3 === 0 ? [{ device: '/dev/sdb1', size: 2048 * GB, type: 'HDD' }] : []),
+    ];
+
+    return {
+      summary: {
+        clientId: id,
+        clientName: `host-${i + 1}`,
+        clientTags: [TAGS[i % TAGS.length], TAGS[(i + 2) % TAGS.length]],
+        clientPurpose: i % 2 === 0 ? 'web' : 'database',
+        hostname: `host-${i + 1}.local`,
+        platform,
+        status: 'online',
+        lastUpdate: now,
+        createdAt: now - 30 * 24 * 60 * 60 * 1000,
+        lastOnlineAt: now - random(1, 72) * 60 * 60 * 1000,
+        priority: i,
+      },
+      staticInfo: {
+        cpuModel: 'Mock CPU @ 3.0GHz',
+        cpuCores: 8,
+        cpuArch: 'x86_64',
+        systemVersion: platform === 'linux' ? 'Ubuntu 24.04' : platform,
+        systemModel: 'Mock Machine',
+        totalMemory: 32 * GB,
+        totalSwap: 8 * GB,
+        totalDisk: disks.reduce((sum, d) => sum + d.size, 0),
+        disks,
+        location: i % 2 === 0 ? 'Frankfurt' : 'Singapore',
+      },
+      status: {
+        cpuUsage: random(5, 60),
+        cpuFrequency: 3.0,
+        memoryUsage: random(20, 70),
+        swapUsage: random(0, 20),
+        diskUsage: random(20, 80),
+        diskUsages: disks.map((d) => {
+          const used = d.size * random(0.2, 0.8);
+          return {
+            device: d.device,
+            size: d.size,
+            used,
+            available: d.size - used,
+            usagePercent: (used / d.size) * 100,
+            mountpoint: d.device === '/dev/sda1' ? '/' : '/data',
+          };
+        }),
+        networkUpload: random(0, 5e6),
+        networkDownload: random(0, 20e6),
+        timestamp: now,
+      },
+      history: [],
+    };
+  });
+}
+
+const clients = createClients(options.clients);
+
+/**
+ * Advance one client's status and return the changed fields
+ */
+function tick(client) {
+  const now = Date.now();
+  const status = client.status;
+
+  status.cpuUsage = drift(status.cpuUsage, 10);
+  status.memoryUsage = drift(status.memoryUsage, 3);
+  status.swapUsage = drift(status.swapUsage, 1);
+  status.networkUpload = Math.max(0, status.networkUpload * random(0.7, 1.3));
+  status.networkDownload = Math.max(0, status.networkDownload * random(0.7, 1.3));
+  status.timestamp = now;
+  client.summary.lastUpdate = now;
+
+  client.history.push({ ...status, diskUsages: status.diskUsages.map((d) => ({ ...d })) });
+  if (client.history.length > 2000) client.history.shift();
+
+  return {
+    cpuUsage: status.cpuUsage,
+    memoryUsage: status.memoryUsage,
+    swapUsage: status.swapUsage,
+    networkUpload: status.networkUpload,
+    networkDownload: status.networkDownload,
+    timestamp: now,
+  };
+}
+
+function toDetail(client) {
+  return { ...client.summary, staticInfo: client.staticInfo, currentStatus: client.status };
+}
+
+/**
+ * Connected stream subscribers, each a function that sends one JSON message
+ */
+const subscribers = new Set();
+
+function broadcast(message) {
+  const payload = JSON.stringify(message);
+  subscribers.forEach((send) => send(payload));
+}
+
+function sendSnapshot(send) {
+  send(JSON.stringify({ type: 'snapshot', clients: clients.map((c) => c.summary) }));
+}
+
+/**
+ * Encode a server-to-client WebSocket text frame (unmasked)
+ */
+function encodeFrame(text) {
+  const payload = Buffer.from(text);
+  let header;
+
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+
+  return Buffer.concat([header, payload]);
+}
+
+function sendJson(res, statusCode, body) {
+  res.writeHead(statusCode, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': '*',
+  });
+  res.end(JSON.stringify(body));
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const parts = url.pathname.split('/').filter(Boolean);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    });
+    res.end();
+    return;
+  }
+
+  // SSE stream
+  if (url.pathname === '/api/stream/events') {
+    if (!options.sse) return sendJson(res, 404, { message: 'SSE disabled' });
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
+    });
+    const send = (payload) => res.write(`data: ${payload}\n\n`);
+    sendSnapshot(send);
+    subscribers.add(send);
+    req.on('close', () => subscribers.delete(send));
+    return;
+  }
+
+  if (parts[0] !== 'api' || parts[1] !== 'clients') {
+    return sendJson(res, 404, { message: 'Not found' });
+  }
+
+  // POST /api/clients/details
+  if (parts.length === 3 && parts[2] === 'details' && req.method === 'POST') {
+    if (!options.batch) return sendJson(res, 404, { message: 'Batch details disabled' });
+
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      try {
+        const ids = new Set(JSON.parse(body || '{}').clientIds || []);
+        sendJson(res, 200, clients.filter((c) => ids.has(c.summary.clientId)).map(toDetail));
+      } catch {
+        sendJson(res, 400, { message: 'Invalid request body' });
+      }
+    });
+    return;
+  }
+
+  // POST /api/clients/samples
+  if (parts.length === 3 && parts[2] === 'samples' && req.method === 'POST') {
+    if (!options.samples) return sendJson(res, 404, { message: 'Samples disabled' });
+
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      try {
+        const { clientIds = [], limit = 120 } = JSON.parse(body || '{}');
+        const ids = new Set(clientIds);
+        const result = {};
+        clients
+          .filter((c) => ids.has(c.summary.clientId))
+          .forEach((c) => {
+            result[c.summary.clientId] = c.history.slice(-limit).map((h) => ({
+              timestamp: h.timestamp,
+              cpuUsage: h.cpuUsage,
+              memoryUsage: h.memoryUsage,
+              swapUsage: h.swapUsage,
+              diskUsage: h.diskUsage,
+              networkUpload: h.networkUpload,
+              networkDownload: h.networkDownload,
+            }));
+          });
+        sendJson(res, 200, result);
+      } catch {
+        sendJson(res, 400, { message: 'Invalid request body' });
+      }
+    });
+    return;
+  }
+
+  // GET /api/clients
+  if (parts.length === 2) {
+    return sendJson(
+      res,
+      200,
+      clients.map((c) => c.summary)
+    );
+  }
+
+  const client = clients.find((c) => c.summary.clientId === decodeURIComponent(parts[2]));
+  if (!client) return sendJson(res, 404, { message: 'Client not found' });
+
+  // GET /api/clients/:id
+  if (parts.length === 3) return sendJson(res, 200, toDetail(client));
+
+  // GET /api/clients/:id/history
+  if (parts[3] === 'history') {
+    const startTime = Number(url.searchParams.get('startTime')) || 0;
+    const endTime = Number(url.searchParams.get('endTime')) || Date.now();
+    return sendJson(
+      res,
+      200,
+      client.history.filter((h) => h.timestamp >= startTime && h.timestamp <= endTime)
+    );
+  }
+
+  sendJson(res, 404, { message: 'Not found' });
+});
+
+// WebSocket stream
+server.on('upgrade', (req, socket) => {
+  if (!options.ws || req.url !== '/api/stream') {
+    socket.destroy();
+    return;
+  }
+
+  const accept = crypto
+    .createHash('sha1')
+    .update(req.headers['sec-websocket-key'] + WEBSOCKET_GUID)
+    .digest('base64');
+
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const send = (payload) => socket.write(encodeFrame(payload));
+  sendSnapshot(send);
+  subscribers.add(send);
+
+  socket.on('data', (data) => {
+    // Close frame from the browser
+    if ((data[0] & 0x0f) === 0x8) socket.end();
+  });
+  socket.on('close', () => subscribers.delete(send));
+  socket.on('error', () => subscribers.delete(send));
+});
+
+setInterval(() => {
+  clients.forEach((client) => {
+    broadcast({ type: 'status', clientId: client.summary.clientId, status: tick(client) });
+  });
+}, options.interval);
+
+server.listen(options.port, () => {
+  console.log(
+    `Mock server listening on http://localhost:${options.port} ` +
+      `(${options.clients} clients, ws: ${options.ws}, sse: ${options.sse})`
+  );
+});